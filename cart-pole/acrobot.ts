@@ -0,0 +1,287 @@
+/**
+ * @license
+ * Copyright 2018 Google LLC. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ * =============================================================================
+ */
+
+/**
+ * Implementation based on the Acrobot environment of OpenAI Gym:
+ *   https://github.com/openai/gym/blob/master/gym/envs/classic_control/acrobot.py
+ * which follows: Sutton and Barto, "Reinforcement Learning: An Introduction",
+ * 1st edition, Section 11.3.
+ */
+
+import * as tf from '@tensorflow/tfjs'
+import { RenderableSystem } from './renderableSystem'
+import { boxSpace, discreteSpace } from './saveablePolicyNetwork/env'
+import { clip, random, rk4Step, wrapAngle } from './utils'
+
+/**
+ * Acrobot system simulator.
+ *
+ * The acrobot is a chain of two links hanging from a fixed pivot. Only the
+ * joint between the two links is actuated. The goal is to swing the tip of
+ * the lower link above a line at the height of one link above the pivot.
+ *
+ * There are four state variables in this system:
+ *
+ *   - theta1: The angle of the first link (in radians). A value of 0
+ *     corresponds to the link hanging straight down.
+ *   - theta2: The angle of the second link relative to the first one.
+ *   - theta1Dot, theta2Dot: The angular velocities of the two links.
+ *
+ * The observation of the state is
+ * `[cos(theta1), sin(theta1), cos(theta2), sin(theta2), theta1Dot,
+ * theta2Dot]`, which avoids the discontinuity of the angles at +/-pi.
+ *
+ * The system is controlled through a single action:
+ *
+ *   - negative or positive torque on the joint between the links.
+ */
+export class Acrobot implements RenderableSystem {
+  // The velocities are clipped, the other numbers are cosines and sines.
+  readonly observationSpace = boxSpace(
+    [-1, -1, -1, -1, -4 * Math.PI, -9 * Math.PI],
+    [1, 1, 1, 1, 4 * Math.PI, 9 * Math.PI]
+  )
+  // Negative or positive torque.
+  readonly actionSpace = discreteSpace(2)
+  // Every step until the goal is reached is penalized.
+  readonly stepReward = -1
+
+  // Constants that characterize the system.
+  private gravity: number
+  private link1Length: number
+  private link2Length: number
+  private link1Mass: number
+  private link2Mass: number
+  // Positions of the centers of mass of the links, from their pivots.
+  private link1CenterOfMass: number
+  private link2CenterOfMass: number
+  // Moments of inertia of the links.
+  private link1Moment: number
+  private link2Moment: number
+  private maxVelocity1: number
+  private maxVelocity2: number
+  private torqueMag: number
+  private tau: number
+
+  // The state variables of the acrobot.
+  private theta1: number
+  private theta2: number
+  private theta1Dot: number
+  private theta2Dot: number
+
+  /**
+   * Constructor of Acrobot.
+   */
+  constructor() {
+    // Constants that characterize the system.
+    this.gravity = 9.8
+    this.link1Length = 1.0
+    this.link2Length = 1.0
+    this.link1Mass = 1.0
+    this.link2Mass = 1.0
+    this.link1CenterOfMass = 0.5
+    this.link2CenterOfMass = 0.5
+    this.link1Moment = 1.0
+    this.link2Moment = 1.0
+    this.maxVelocity1 = 4 * Math.PI
+    this.maxVelocity2 = 9 * Math.PI
+    this.torqueMag = 1.0
+    this.tau = 0.2 // Seconds between state updates.
+
+    this.theta1 = 0
+    this.theta2 = 0
+    this.theta1Dot = 0
+    this.theta2Dot = 0
+    this.setRandomState()
+  }
+
+  /**
+   * Set the state of the acrobot randomly, close to hanging still.
+   */
+  setRandomState() {
+    this.theta1 = (random() - 0.5) * 0.2
+    this.theta2 = (random() - 0.5) * 0.2
+    this.theta1Dot = (random() - 0.5) * 0.2
+    this.theta2Dot = (random() - 0.5) * 0.2
+  }
+
+  /**
+   * Get the current observation as an Array of six numbers.
+   */
+  getState() {
+    return [
+      Math.cos(this.theta1),
+      Math.sin(this.theta1),
+      Math.cos(this.theta2),
+      Math.sin(this.theta2),
+      this.theta1Dot,
+      this.theta2Dot,
+    ]
+  }
+
+  getSnapshot() {
+    return [this.theta1, this.theta2, this.theta1Dot, this.theta2Dot]
+  }
+
+  setSnapshot(snapshot: number[]) {
+    this.theta1 = snapshot[0]
+    this.theta2 = snapshot[1]
+    this.theta1Dot = snapshot[2]
+    this.theta2Dot = snapshot[3]
+  }
+
+  /**
+   * Get the current observation as a tf.Tensor of shape [1, 6].
+   */
+  getStateTensor() {
+    return tf.tensor2d([this.getState()])
+  }
+
+  /**
+   * Update the acrobot using an action.
+   *
+   * @param action Only the sign of `action` matters.
+   *   A value > 0 leads to a positive torque of a fixed magnitude.
+   *   A value <= 0 leads to a negative torque of the same fixed magnitude.
+   * @returns Whether the goal has been reached.
+   */
+  update(action: number) {
+    const torque = action > 0 ? this.torqueMag : -this.torqueMag
+    const [theta1, theta2, theta1Dot, theta2Dot] = rk4Step(
+      (state) => this.getDerivatives(state, torque),
+      [this.theta1, this.theta2, this.theta1Dot, this.theta2Dot],
+      this.tau
+    )
+    this.theta1 = wrapAngle(theta1)
+    this.theta2 = wrapAngle(theta2)
+    this.theta1Dot = clip(theta1Dot, this.maxVelocity1)
+    this.theta2Dot = clip(theta2Dot, this.maxVelocity2)
+    return this.isDone()
+  }
+
+  /**
+   * Compute the time derivatives of the four state variables.
+   *
+   * @param {number[]} state `[theta1, theta2, theta1Dot, theta2Dot]`.
+   * @param {number} torque The torque applied to the joint between the links.
+   */
+  private getDerivatives(state: number[], torque: number) {
+    const [theta1, theta2, theta1Dot, theta2Dot] = state
+    const m1 = this.link1Mass
+    const m2 = this.link2Mass
+    const l1 = this.link1Length
+    const lc1 = this.link1CenterOfMass
+    const lc2 = this.link2CenterOfMass
+    const i1 = this.link1Moment
+    const i2 = this.link2Moment
+    const g = this.gravity
+
+    const d1 =
+      m1 * lc1 * lc1 +
+      m2 * (l1 * l1 + lc2 * lc2 + 2 * l1 * lc2 * Math.cos(theta2)) +
+      i1 +
+      i2
+    const d2 = m2 * (lc2 * lc2 + l1 * lc2 * Math.cos(theta2)) + i2
+    const phi2 = m2 * lc2 * g * Math.cos(theta1 + theta2 - Math.PI / 2)
+    const phi1 =
+      -m2 * l1 * lc2 * theta2Dot * theta2Dot * Math.sin(theta2) -
+      2 * m2 * l1 * lc2 * theta2Dot * theta1Dot * Math.sin(theta2) +
+      (m1 * lc1 + m2 * l1) * g * Math.cos(theta1 - Math.PI / 2) +
+      phi2
+    const theta2Acc =
+      (torque +
+        (d2 / d1) * phi1 -
+        m2 * l1 * lc2 * theta1Dot * theta1Dot * Math.sin(theta2) -
+        phi2) /
+      (m2 * lc2 * lc2 + i2 - (d2 * d2) / d1)
+    const theta1Acc = -(d2 * theta2Acc + phi1) / d1
+    return [theta1Dot, theta2Dot, theta1Acc, theta2Acc]
+  }
+
+  /**
+   * Determine whether this simulation is done.
+   *
+   * A simulation is done when the tip of the second link is higher than one
+   * link length above the pivot.
+   *
+   * @returns Whether the simulation is done.
+   */
+  isDone() {
+    return (
+      -Math.cos(this.theta1) - Math.cos(this.theta1 + this.theta2) >
+      this.link1Length
+    )
+  }
+
+  /**
+   * Render the current state of the system on an HTML canvas.
+   *
+   * @param {HTMLCanvasElement} canvas The instance of HTMLCanvasElement on which
+   *   the rendering will happen.
+   */
+  render(canvas: HTMLCanvasElement) {
+    if (!canvas.style.display) {
+      canvas.style.display = 'block'
+    }
+    const context = canvas.getContext('2d')
+    if (context === null) {
+      throw new Error('Where did the canvas go?')
+    }
+    context.clearRect(0, 0, canvas.width, canvas.height)
+
+    // The links can reach two lengths away from the pivot in any direction.
+    const reach = this.link1Length + this.link2Length
+    const scale = canvas.height / (2 * reach + 0.2)
+    const pivotX = canvas.width / 2
+    const pivotY = canvas.height / 2
+
+    // Draw the goal line.
+    const goalY = pivotY - this.link1Length * scale
+    context.beginPath()
+    context.strokeStyle = '#ff0000'
+    context.lineWidth = 1
+    context.moveTo(pivotX - reach * scale, goalY)
+    context.lineTo(pivotX + reach * scale, goalY)
+    context.stroke()
+
+    // Draw the links. The angles are measured from straight down.
+    const joint1X = pivotX + Math.sin(this.theta1) * this.link1Length * scale
+    const joint1Y = pivotY + Math.cos(this.theta1) * this.link1Length * scale
+    const tipX =
+      joint1X + Math.sin(this.theta1 + this.theta2) * this.link2Length * scale
+    const tipY =
+      joint1Y + Math.cos(this.theta1 + this.theta2) * this.link2Length * scale
+    context.beginPath()
+    context.strokeStyle = '#ffa500'
+    context.lineWidth = 6
+    context.moveTo(pivotX, pivotY)
+    context.lineTo(joint1X, joint1Y)
+    context.lineTo(tipX, tipY)
+    context.stroke()
+
+    // Draw the pivot and the actuated joint.
+    for (const [x, y] of [
+      [pivotX, pivotY],
+      [joint1X, joint1Y],
+    ]) {
+      context.beginPath()
+      context.fillStyle = '#000000'
+      context.arc(x, y, 4, 0, 2 * Math.PI)
+      context.fill()
+    }
+  }
+}
@@ -0,0 +1,123 @@
+/**
+ * @license
+ * Copyright 2018 Google LLC. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ * =============================================================================
+ */
+
+import * as tf from '@tensorflow/tfjs'
+
+import { RenderableSystem } from './renderableSystem'
+import {
+  BatchStepResult,
+  BatchSystem,
+} from './saveablePolicyNetwork/batchSystem'
+import { BoxSpace, EnvInfo, Space } from './saveablePolicyNetwork/env'
+import { getSystemInfo } from './saveablePolicyNetwork/system'
+
+/**
+ * A batch of independent renderable systems of the same kind that are stepped
+ * together.
+ *
+ * Each system is simulated exactly like a single one. The batch makes it
+ * possible to choose the actions of all of them with a single call to the
+ * policy network, which is much cheaper than one call per system.
+ */
+export class BatchRenderableSystem extends BatchSystem {
+  public readonly size: number
+  public readonly observationSpace: BoxSpace
+  public readonly actionSpace: Space
+  public readonly stepReward: number
+  private systems: RenderableSystem[]
+
+  /**
+   * Constructor of BatchRenderableSystem.
+   *
+   * @param {number} size Number of systems.
+   * @param {() => RenderableSystem} createSystem Creates each of the systems.
+   */
+  constructor(size: number, createSystem: () => RenderableSystem) {
+    super()
+    if (!(size > 0)) {
+      throw new Error(`Invalid number of systems: ${size}`)
+    }
+    this.size = size
+    this.systems = []
+    for (let i = 0; i < size; ++i) {
+      this.systems.push(createSystem())
+    }
+    this.observationSpace = this.systems[0].observationSpace
+    this.actionSpace = this.systems[0].actionSpace
+    this.stepReward = this.systems[0].stepReward
+  }
+
+  setRandomState(index?: number) {
+    if (index === undefined) {
+      this.systems.forEach((system) => system.setRandomState())
+    } else {
+      this.systems[index].setRandomState()
+    }
+  }
+
+  /**
+   * Get the current states as a tf.Tensor of shape [size, stateSize].
+   */
+  getStateTensor() {
+    return tf.tensor2d(this.systems.map((system) => system.getState()))
+  }
+
+  /**
+   * Update all systems.
+   *
+   * The systems that are done are reset to a random state.
+   *
+   * @param {ArrayLike<number>} actions One action per system, see
+   *   `System.update()`.
+   */
+  update(actions: ArrayLike<number>): BatchStepResult {
+    if (actions.length !== this.size) {
+      throw new Error(
+        `Expected ${this.size} actions, but got ${actions.length}.`
+      )
+    }
+    const done: boolean[] = []
+    const finalStates: Array<number[] | null> = []
+    const infos: EnvInfo[] = []
+    this.systems.forEach((system, i) => {
+      const isDone = system.update(actions[i])
+      done.push(isDone)
+      finalStates.push(isDone ? system.getState() : null)
+      infos.push(getSystemInfo(system))
+      if (isDone) {
+        system.setRandomState()
+      }
+    })
+    return { done, finalStates, infos }
+  }
+
+  /**
+   * Get a snapshot of the first system, the one that `render()` renders.
+   */
+  getSnapshot() {
+    return this.systems[0].getSnapshot()
+  }
+
+  /**
+   * Render the first system on an HTML canvas.
+   *
+   * @param {HTMLCanvasElement} canvas
+   */
+  render(canvas: HTMLCanvasElement) {
+    this.systems[0].render(canvas)
+  }
+}
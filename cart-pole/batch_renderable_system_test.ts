@@ -0,0 +1,73 @@
+/**
+ * @license
+ * Copyright 2018 Google LLC. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ * =============================================================================
+ */
+
+import { CartPole, DEFAULT_CART_POLE_CONFIG } from './cart_pole'
+import { createBatchSystem } from './environments'
+import { BatchStepResult } from './saveablePolicyNetwork/batchSystem'
+import { seedRandom } from './utils'
+
+describe('BatchRenderableSystem', () => {
+  afterEach(() => seedRandom(null))
+
+  it('steps its cart-poles like single ones and resets the failed ones', () => {
+    const size = 3
+    const numSteps = 100
+    // Every cart-pole is pushed one way, so that they all fail sooner or
+    // later.
+    const actions = [0, 1, 0]
+
+    seedRandom(3)
+    const batch = createBatchSystem('cart-pole', size)
+    const results: BatchStepResult[] = []
+    const batchStates: number[][][] = []
+    for (let t = 0; t < numSteps; ++t) {
+      results.push(batch.update(actions))
+      const states = batch.getStateTensor()
+      batchStates.push(states.arraySync())
+      states.dispose()
+    }
+
+    // The single cart-poles draw the same random states, in the same order.
+    seedRandom(3)
+    const cartPoles: CartPole[] = []
+    for (let i = 0; i < size; ++i) {
+      cartPoles.push(new CartPole(DEFAULT_CART_POLE_CONFIG))
+    }
+    let failures = 0
+    for (let t = 0; t < numSteps; ++t) {
+      const { done, finalStates } = results[t]
+      cartPoles.forEach((cartPole, i) => {
+        const isDone = cartPole.update(actions[i])
+        expect(done[i]).toEqual(isDone)
+        if (isDone) {
+          expect(finalStates[i] as number[]).toEqual(cartPole.getState())
+          cartPole.setRandomState()
+          ++failures
+        } else {
+          expect(finalStates[i]).toBeNull()
+        }
+      })
+      // The states of the batch are held as float32.
+      expect(batchStates[t]).toEqual(
+        cartPoles.map((cartPole) =>
+          Array.from(new Float32Array(cartPole.getState()))
+        )
+      )
+    }
+    expect(failures).toBeGreaterThan(size)
+  })
+})
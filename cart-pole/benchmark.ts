@@ -0,0 +1,439 @@
+/**
+ * @license
+ * Copyright 2018 Google LLC. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ * =============================================================================
+ */
+
+/**
+ * Headless (Node.js) benchmark of the REINFORCE update of a policy network
+ * that plays one game at a time: the single batched loss of
+ * `PolicyNetwork.train()`, against the gradients of every step that it used to
+ * keep until the end of the iteration, which are reproduced here.
+ *
+ * Usage:
+ *
+ *   yarn benchmark --games 20 --maxSteps 200 --environment mountain-car
+ */
+
+import * as argparse from 'argparse'
+import * as tf from '@tensorflow/tfjs-node'
+
+import {
+  ENVIRONMENT_NAMES,
+  EnvironmentName,
+  createEnv,
+  getSpaces,
+  parseEnvironmentName,
+} from './environments'
+import { Env, getSpaceSize } from './saveablePolicyNetwork/env'
+import {
+  PolicyNetwork,
+  discountAndNormalizeRewards,
+  getPolicyHead,
+  getPolicyOutputSize,
+} from './saveablePolicyNetwork/policyNetwork'
+import { Episode, playEpisodes } from './saveablePolicyNetwork/rollouts'
+import { parseHiddenLayerSizes, seedRandom, sum } from './utils'
+
+/**
+ * A way of computing the REINFORCE update.
+ *
+ *   - 'per-step': The gradients of every step are computed as the step is
+ *     played, and kept until they are scaled and averaged at the end of the
+ *     iteration.
+ *   - 'batched': Only the states, actions and rewards are kept, and the
+ *     gradients of a single loss over all the steps are computed at the end of
+ *     the iteration, as `PolicyNetwork.train()` does.
+ */
+type UpdateMethod = 'per-step' | 'batched'
+
+const UPDATE_METHODS: UpdateMethod[] = ['per-step', 'batched']
+
+/**
+ * A training iteration, split into playing the games and updating the
+ * policy network, so that the two can be measured separately.
+ */
+interface Iteration {
+  // Plays the games, calling `onStep` after every step, and returns the
+  // number of steps of every game.
+  play: (onStep: () => void) => Promise<number[]>
+  update: () => void
+}
+
+/**
+ * The measurements of an update method.
+ */
+interface BenchmarkResult {
+  steps: number
+  milliseconds: number
+  // The tensors held at the end of the games of an iteration, and the peak
+  // of the memory of the tensors during the iteration, beyond those held
+  // before it.
+  heldTensors: number
+  peakBytes: number
+  // The weights after the first iteration.
+  weights: Float32Array[]
+}
+
+/**
+ * The parsed command-line arguments, see `parseArguments()`.
+ */
+interface BenchmarkArguments {
+  environment: string
+  games: number
+  maxSteps: number
+  iterations: number
+  // Comma-separated, see `parseHiddenLayerSizes()`.
+  hiddenLayerSizes: string
+  discountRate: number
+  learningRate: number
+  seed: number
+}
+
+export function parseArguments(): BenchmarkArguments {
+  const parser = new argparse.ArgumentParser({
+    description:
+      'Benchmark of the per-step and the batched REINFORCE update of the ' +
+      'cart-pole policy network',
+  })
+  parser.addArgument('--environment', {
+    type: 'string',
+    defaultValue: 'cart-pole',
+    choices: ENVIRONMENT_NAMES,
+    help:
+      'Environment to play. The games of an untrained policy network are ' +
+      'short in the cart-pole, but last --maxSteps steps in the mountain car.',
+  })
+  parser.addArgument('--games', {
+    type: 'int',
+    defaultValue: 20,
+    help: 'Number of games per iteration.',
+  })
+  parser.addArgument('--maxSteps', {
+    type: 'int',
+    defaultValue: 500,
+    help: 'Maximum number of steps per game.',
+  })
+  parser.addArgument('--iterations', {
+    type: 'int',
+    defaultValue: 3,
+    help: 'Number of timed iterations per update method.',
+  })
+  parser.addArgument('--hiddenLayerSizes', {
+    type: 'string',
+    defaultValue: '128',
+    help: 'Size(s) of the hidden layer(s), e.g., "128" or "32,64".',
+  })
+  parser.addArgument('--discountRate', {
+    type: 'float',
+    defaultValue: 0.95,
+    help: 'Reward discount rate.',
+  })
+  parser.addArgument('--learningRate', {
+    type: 'float',
+    defaultValue: 0.05,
+    help: 'Learning rate of the Adam optimizer.',
+  })
+  parser.addArgument('--seed', {
+    type: 'int',
+    defaultValue: 0,
+    help:
+      'Seed of the random numbers. Every update method plays the same ' +
+      'games in its first iteration.',
+  })
+  return parser.parseArgs() as BenchmarkArguments
+}
+
+/**
+ * Create an untrained policy network for an environment.
+ *
+ * @param {EnvironmentName} environment
+ * @param {number[]} hiddenLayerSizes
+ */
+function createPolicyNetwork(
+  environment: EnvironmentName,
+  hiddenLayerSizes: number[]
+) {
+  const { actionSpace, observationSpace } = getSpaces(environment)
+  return new PolicyNetwork({
+    sizes: {
+      hiddenLayerSizes,
+      inputSize: getSpaceSize(observationSpace),
+      outputSize: getPolicyOutputSize(actionSpace),
+    },
+    head: getPolicyHead(actionSpace),
+  })
+}
+
+/**
+ * Create an iteration that keeps the gradients of every step.
+ *
+ * @param {PolicyNetwork} policyNetwork
+ * @param {Env} env
+ * @param {tf.Optimizer} optimizer
+ * @param {number} discountRate
+ * @param {number} numGames
+ */
+function createPerStepIteration(
+  policyNetwork: PolicyNetwork,
+  env: Env,
+  optimizer: tf.Optimizer,
+  discountRate: number,
+  numGames: number
+): Iteration {
+  // The gradients of every step of every game, by variable, and the rewards.
+  const allGradients: { [varName: string]: tf.Tensor[][] } = {}
+  const allRewards: number[][] = []
+  return {
+    play: async (onStep) => {
+      for (let i = 0; i < numGames; ++i) {
+        let { observation } = env.reset()
+        const gameGradients: { [varName: string]: tf.Tensor[] } = {}
+        const gameRewards: number[] = []
+        for (;;) {
+          let action = 0
+          const { grads } = tf.variableGrads(() =>
+            tf.tidy(() => {
+              const [outputs, actions] = policyNetwork.getLogitsAndActions(
+                tf.tensor2d([observation])
+              )
+              action = actions.dataSync()[0]
+              const logProbs = policyNetwork.logProbabilities(
+                outputs,
+                tf.tensor1d([action])
+              )
+              return tf.mean(logProbs.neg()).asScalar()
+            })
+          )
+          for (const varName in grads) {
+            if (!(varName in gameGradients)) {
+              gameGradients[varName] = []
+            }
+            gameGradients[varName].push(grads[varName])
+          }
+          const result = env.step(action)
+          observation = result.observation
+          gameRewards.push(result.reward)
+          onStep()
+          if (result.terminated || result.truncated) {
+            break
+          }
+        }
+        for (const varName in gameGradients) {
+          if (!(varName in allGradients)) {
+            allGradients[varName] = []
+          }
+          allGradients[varName].push(gameGradients[varName])
+        }
+        allRewards.push(gameRewards)
+        await tf.nextFrame()
+      }
+      return allRewards.map((rewards) => rewards.length)
+    },
+    update: () => {
+      tf.tidy(() => {
+        const normalizedRewards = discountAndNormalizeRewards(
+          allRewards,
+          discountRate
+        )
+        const gradients: { [varName: string]: tf.Tensor } = {}
+        for (const varName in allGradients) {
+          // Scale the gradients of every step by its normalized reward, and
+          // average them across all the steps of all the games.
+          const scaled = allGradients[varName].map((gameGradients, i) => {
+            const stacked = tf.stack(gameGradients)
+            const rewards = normalizedRewards[i].reshape(
+              [-1].concat(stacked.shape.slice(1).map(() => 1))
+            )
+            return stacked.mul(rewards)
+          })
+          gradients[varName] = tf.mean(tf.concat(scaled, 0), 0)
+        }
+        optimizer.applyGradients(gradients)
+      })
+      tf.dispose(allGradients)
+    },
+  }
+}
+
+/**
+ * Create an iteration that keeps only the states, actions and rewards, like
+ * `PolicyNetwork.train()`.
+ *
+ * @param {PolicyNetwork} policyNetwork
+ * @param {Env} env
+ * @param {tf.Optimizer} optimizer
+ * @param {number} discountRate
+ * @param {number} numGames
+ */
+function createBatchedIteration(
+  policyNetwork: PolicyNetwork,
+  env: Env,
+  optimizer: tf.Optimizer,
+  discountRate: number,
+  numGames: number
+): Iteration {
+  let episodes: Episode[] = []
+  return {
+    play: async (onStep) => {
+      episodes = await playEpisodes(
+        env,
+        policyNetwork,
+        numGames,
+        async () => onStep(),
+        () => {}
+      )
+      return episodes.map((episode) => episode.rewards.length)
+    },
+    update: () =>
+      policyNetwork.trainOnEpisodes(episodes, optimizer, discountRate),
+  }
+}
+
+/**
+ * Train a policy network with an update method, and measure the time and the
+ * memory that it takes.
+ *
+ * The time is that of `--iterations` iterations. The memory is measured in
+ * an extra iteration, since `tf.profile()` slows the update down.
+ *
+ * @param {UpdateMethod} method
+ * @param {tf.Tensor[]} initialWeights The weights to start from.
+ * @param {BenchmarkArguments} args The parsed arguments.
+ */
+async function benchmark(
+  method: UpdateMethod,
+  initialWeights: tf.Tensor[],
+  args: BenchmarkArguments
+): Promise<BenchmarkResult> {
+  const environment = parseEnvironmentName(args.environment)
+  const policyNetwork = createPolicyNetwork(
+    environment,
+    parseHiddenLayerSizes(args.hiddenLayerSizes)
+  )
+  policyNetwork.policyNet.setWeights(initialWeights)
+  const optimizer = tf.train.adam(args.learningRate)
+  const env = createEnv(environment, undefined, args.maxSteps)
+  const createIteration =
+    method === 'per-step' ? createPerStepIteration : createBatchedIteration
+  const newIteration = () =>
+    createIteration(
+      policyNetwork,
+      env,
+      optimizer,
+      args.discountRate,
+      args.games
+    )
+
+  seedRandom(args.seed)
+  let steps = 0
+  let weights: Float32Array[] = []
+  const t0 = new Date().getTime()
+  for (let i = 0; i < args.iterations; ++i) {
+    const iteration = newIteration()
+    steps += sum(await iteration.play(() => {}))
+    iteration.update()
+    if (i === 0) {
+      weights = policyNetwork.policyNet
+        .getWeights()
+        .map((weight) => Float32Array.from(weight.dataSync()))
+    }
+  }
+  const milliseconds = new Date().getTime() - t0
+
+  const startBytes = tf.memory().numBytes
+  const startTensors = tf.memory().numTensors
+  let peakBytes = startBytes
+  const iteration = newIteration()
+  await iteration.play(
+    () => (peakBytes = Math.max(peakBytes, tf.memory().numBytes))
+  )
+  const heldTensors = tf.memory().numTensors - startTensors
+  const profile = await tf.profile(() => iteration.update())
+  peakBytes = Math.max(peakBytes, profile.peakBytes)
+
+  policyNetwork.policyNet.dispose()
+  optimizer.dispose()
+  return {
+    steps,
+    milliseconds,
+    heldTensors,
+    peakBytes: peakBytes - startBytes,
+    weights,
+  }
+}
+
+async function main() {
+  const args = parseArguments()
+  for (const key of ['games', 'maxSteps', 'iterations'] as const) {
+    if (!(args[key] > 0)) {
+      throw new Error(`Invalid --${key}: ${args[key]}`)
+    }
+  }
+  const environment = parseEnvironmentName(args.environment)
+  const template = createPolicyNetwork(
+    environment,
+    parseHiddenLayerSizes(args.hiddenLayerSizes)
+  )
+  const initialWeights = template.policyNet.getWeights()
+
+  console.log(
+    `${args.iterations} iteration(s) of ${args.games} game(s) of at most ` +
+      `${args.maxSteps} steps in ${environment}, hidden layers: ` +
+      `${args.hiddenLayerSizes}`
+  )
+  console.log(
+    `${'method'.padEnd(10)}${'steps'.padStart(8)}${'ms/iter.'.padStart(10)}` +
+      `${'steps/s'.padStart(10)}${'held tensors'.padStart(14)}` +
+      `${'peak MB'.padStart(10)}`
+  )
+  const results: BenchmarkResult[] = []
+  for (const method of UPDATE_METHODS) {
+    const result = await benchmark(method, initialWeights, args)
+    results.push(result)
+    const { steps, milliseconds, heldTensors, peakBytes } = result
+    console.log(
+      `${method.padEnd(10)}${`${steps}`.padStart(8)}` +
+        `${(milliseconds / args.iterations).toFixed(0).padStart(10)}` +
+        `${(steps / (milliseconds / 1e3)).toFixed(0).padStart(10)}` +
+        `${`${heldTensors}`.padStart(14)}` +
+        `${(peakBytes / 2 ** 20).toFixed(2).padStart(10)}`
+    )
+  }
+  template.policyNet.dispose()
+
+  // Both methods start from the same weights and play the same games in
+  // their first iteration, so their updates differ only by rounding.
+  let maxDifference = 0
+  results[0].weights.forEach((weight, i) =>
+    weight.forEach(
+      (w, j) =>
+        (maxDifference = Math.max(
+          maxDifference,
+          Math.abs(w - results[1].weights[i][j])
+        ))
+    )
+  )
+  console.log(
+    `Max. difference of the weights after the first iteration: ` +
+      `${maxDifference.toExponential(2)}`
+  )
+}
+
+if (require.main === module) {
+  main().catch((err) => {
+    console.error(err.message)
+    process.exit(1)
+  })
+}
@@ -21,6 +21,299 @@
 
 import * as tf from '@tensorflow/tfjs'
 import { RenderableSystem } from './renderableSystem'
+import {
+  BoxSpace,
+  Space,
+  boxSpace,
+  discreteSpace,
+} from './saveablePolicyNetwork/env'
+import { clip, random, randomNormal, rk4Step } from './utils'
+
+/**
+ * Numerical method used to advance the state of the cart-pole system by one
+ * time step.
+ *
+ *   - 'euler': Explicit Euler. The positions are updated with the velocities
+ *     from before the step. This is the method of the original implementation.
+ *   - 'semi-implicit-euler': The positions are updated with the velocities
+ *     from after the step, which is more stable.
+ *   - 'rk4': The classic fourth-order Runge-Kutta method.
+ */
+export type Integrator = 'euler' | 'semi-implicit-euler' | 'rk4'
+
+export const INTEGRATORS: Integrator[] = ['euler', 'semi-implicit-euler', 'rk4']
+
+/**
+ * How the actions of the agent control the force on the cart.
+ *
+ *   - 'left-right': Two discrete actions: a leftward (0) or rightward (1)
+ *     force of magnitude `forceMag`. This is the original cart-pole problem.
+ *   - 'left-none-right': Three discrete actions: a leftward (0), no (1) or
+ *     rightward (2) force.
+ *   - 'continuous': A single number between -1 and 1, the force in units of
+ *     `forceMag` (positive to the right). Larger actions are clipped.
+ */
+export type CartPoleActions = 'left-right' | 'left-none-right' | 'continuous'
+
+export const CART_POLE_ACTIONS: CartPoleActions[] = [
+  'left-right',
+  'left-none-right',
+  'continuous',
+]
+
+/**
+ * Why a cart-pole simulation failed: the cart went beyond `xThreshold` or the
+ * pole beyond `thetaThreshold`.
+ */
+export type CartPoleFailureCause = 'position' | 'angle'
+
+/**
+ * Which failures end a cart-pole simulation.
+ *
+ *   - 'position-or-angle': The cart going beyond `xThreshold` or the pole
+ *     beyond `thetaThreshold`. This is the original cart-pole problem.
+ *   - 'angle': Only the pole going beyond `thetaThreshold`. The cart can
+ *     leave its track.
+ *   - 'none': Nothing. The simulation goes on until it is truncated, e.g., by
+ *     the maximum number of steps per game, and the pole can fall over.
+ */
+export type CartPoleTermination = 'position-or-angle' | 'angle' | 'none'
+
+export const CART_POLE_TERMINATIONS: CartPoleTermination[] = [
+  'position-or-angle',
+  'angle',
+  'none',
+]
+
+/**
+ * The physical parameters that can be drawn anew for every episode.
+ */
+export type RandomizedParameter =
+  | 'massCart'
+  | 'massPole'
+  | 'length'
+  | 'forceMag'
+
+export const RANDOMIZED_PARAMETERS: RandomizedParameter[] = [
+  'massCart',
+  'massPole',
+  'length',
+  'forceMag',
+]
+
+/**
+ * Domain randomization: the ranges `[min, max]` from which parameters are
+ * drawn uniformly at the start of every episode. The parameters without a
+ * range keep their values.
+ */
+export type CartPoleRandomization = {
+  [parameter in RandomizedParameter]?: [number, number]
+}
+
+/**
+ * The physical parameters of a cart-pole system.
+ */
+export interface CartPoleConfig {
+  // Gravitational acceleration, m/s^2.
+  gravity: number
+  // Mass of the cart, kg.
+  massCart: number
+  // Mass of the pole, kg.
+  massPole: number
+  // Half the length of the pole, meters.
+  length: number
+  // Magnitude of the force that every action applies to the cart (the largest
+  // force, for continuous actions), newtons.
+  forceMag: number
+  // Seconds between state updates.
+  tau: number
+  // The cart position beyond which a simulation is marked as failed, meters.
+  xThreshold: number
+  // The pole angle beyond which a simulation is marked as failed, radians.
+  thetaThreshold: number
+  integrator: Integrator
+  actions: CartPoleActions
+  termination: CartPoleTermination
+  randomization: CartPoleRandomization
+  // Standard deviation of the Gaussian noise added to every state variable of
+  // the observations.
+  observationNoise: number
+  // Number of steps by which every action takes effect late. No force is
+  // applied until the first action of an episode takes effect.
+  actionDelay: number
+  // Number of steps by which the observations lag behind the state. Until
+  // then, the initial state of the episode is observed.
+  observationDelay: number
+}
+
+/**
+ * The parameters of the original implementation, which are also those of the
+ * CartPole environments of OpenAI Gym.
+ */
+export const DEFAULT_CART_POLE_CONFIG: CartPoleConfig = {
+  gravity: 9.8,
+  massCart: 1.0,
+  massPole: 0.1,
+  length: 0.5,
+  forceMag: 10.0,
+  tau: 0.02,
+  xThreshold: 2.4,
+  thetaThreshold: (12 / 360) * 2 * Math.PI,
+  integrator: 'euler',
+  actions: 'left-right',
+  termination: 'position-or-angle',
+  randomization: {},
+  observationNoise: 0,
+  actionDelay: 0,
+  observationDelay: 0,
+}
+
+/**
+ * Check the parameters of a cart-pole system.
+ *
+ * @param {CartPoleConfig} config
+ * @throws {Error} If any of the parameters is invalid.
+ */
+export function checkCartPoleConfig(config: CartPoleConfig) {
+  if (!Number.isFinite(config.gravity)) {
+    throw new Error(`Invalid gravity: ${config.gravity}`)
+  }
+  for (const key of [
+    'massCart',
+    'massPole',
+    'length',
+    'tau',
+    'xThreshold',
+    'thetaThreshold',
+  ] as const) {
+    if (!(config[key] > 0 && Number.isFinite(config[key]))) {
+      throw new Error(`Invalid ${key}: ${config[key]}`)
+    }
+  }
+  if (!(config.forceMag >= 0 && Number.isFinite(config.forceMag))) {
+    throw new Error(`Invalid forceMag: ${config.forceMag}`)
+  }
+  if (INTEGRATORS.indexOf(config.integrator) === -1) {
+    throw new Error(`Invalid integrator: ${config.integrator}`)
+  }
+  if (CART_POLE_ACTIONS.indexOf(config.actions) === -1) {
+    throw new Error(`Invalid actions: ${config.actions}`)
+  }
+  if (CART_POLE_TERMINATIONS.indexOf(config.termination) === -1) {
+    throw new Error(`Invalid termination: ${config.termination}`)
+  }
+  checkCartPoleRandomization(config.randomization)
+  if (
+    !(config.observationNoise >= 0 && Number.isFinite(config.observationNoise))
+  ) {
+    throw new Error(`Invalid observationNoise: ${config.observationNoise}`)
+  }
+  for (const key of ['actionDelay', 'observationDelay'] as const) {
+    if (!(Number.isInteger(config[key]) && config[key] >= 0)) {
+      throw new Error(`Invalid ${key}: ${config[key]}`)
+    }
+  }
+}
+
+/**
+ * Check the ranges of domain randomization.
+ *
+ * @param {CartPoleRandomization} randomization
+ * @throws {Error} For unknown parameters or invalid ranges.
+ */
+function checkCartPoleRandomization(randomization: CartPoleRandomization) {
+  if (
+    randomization == null ||
+    typeof randomization !== 'object' ||
+    Array.isArray(randomization)
+  ) {
+    throw new Error(`Invalid randomization: ${JSON.stringify(randomization)}`)
+  }
+  for (const key of Object.keys(randomization)) {
+    const parameter = key as RandomizedParameter
+    const range = randomization[parameter]
+    if (RANDOMIZED_PARAMETERS.indexOf(parameter) === -1) {
+      throw new Error(`Unknown randomized parameter: ${key}`)
+    }
+    // Like the parameters themselves, only the force can be 0.
+    if (
+      !Array.isArray(range) ||
+      range.length !== 2 ||
+      !range.every(Number.isFinite) ||
+      !(parameter === 'forceMag' ? range[0] >= 0 : range[0] > 0) ||
+      !(range[0] <= range[1])
+    ) {
+      throw new Error(
+        `Invalid randomization range of ${key}: ${JSON.stringify(range)}`
+      )
+    }
+  }
+}
+
+/**
+ * Parse the parameters of a cart-pole system from a JSON object.
+ *
+ * @param {any} json A JSON object with any of the fields of `CartPoleConfig`.
+ *   The missing fields take their default values.
+ * @returns The complete parameters.
+ * @throws {Error} If `json` has unknown fields or invalid values.
+ */
+export function parseCartPoleConfig(json: any): CartPoleConfig {
+  if (json == null || typeof json !== 'object' || Array.isArray(json)) {
+    throw new Error(`Invalid cart-pole config: ${JSON.stringify(json)}`)
+  }
+  for (const key of Object.keys(json)) {
+    if (!(key in DEFAULT_CART_POLE_CONFIG)) {
+      throw new Error(`Unknown cart-pole config field: ${key}`)
+    }
+  }
+  const config: CartPoleConfig = { ...DEFAULT_CART_POLE_CONFIG, ...json }
+  checkCartPoleConfig(config)
+  return config
+}
+
+/**
+ * What a disturbance of a cart-pole system hits.
+ *
+ *   - 'cart': An impulse on the cart, which changes its velocity `xDot`.
+ *   - 'pole': A tap on the pole, which changes its angular velocity
+ *     `thetaDot`.
+ */
+export type DisturbanceTarget = 'cart' | 'pole'
+
+export const DISTURBANCE_TARGETS: DisturbanceTarget[] = ['cart', 'pole']
+
+/**
+ * A disturbance of a cart-pole system, e.g., a push by the user during a
+ * test: an instant change of the velocity of the cart or of the pole.
+ */
+export interface CartPoleDisturbance {
+  target: DisturbanceTarget
+  // The change of `xDot` (m/s) for the cart, or of `thetaDot` (rad/s) for
+  // the pole.
+  velocity: number
+}
+
+/**
+ * Check a disturbance of a cart-pole system.
+ *
+ * @param {CartPoleDisturbance} disturbance
+ * @throws {Error} For an unknown target or an invalid velocity.
+ */
+export function checkCartPoleDisturbance(disturbance: CartPoleDisturbance) {
+  if (
+    disturbance == null ||
+    DISTURBANCE_TARGETS.indexOf(disturbance.target) === -1
+  ) {
+    throw new Error(`Invalid disturbance: ${JSON.stringify(disturbance)}`)
+  }
+  if (!Number.isFinite(disturbance.velocity)) {
+    throw new Error(`Invalid velocity of disturbance: ${disturbance.velocity}`)
+  }
+}
+
+// The number of steps for which a disturbance is drawn by `render()`.
+const DISTURBANCE_RENDER_STEPS = 10
 
 /**
  * Cart-pole system simulator.
@@ -35,24 +328,26 @@ import { RenderableSystem } from './renderableSystem'
  *
  * The system is controlled through a single action:
  *
- *   - leftward or rightward force.
+ *   - leftward or rightward force (or no force at all), or, with continuous
+ *     actions, a force of any magnitude up to `forceMag` (see
+ *     `CartPoleActions`).
  */
 export class CartPole implements RenderableSystem {
+  // The state variables are bounded only by the failure thresholds, which
+  // they exceed by at most one step.
+  observationSpace: BoxSpace
+  // Leftward, rightward or no force, or a continuous force.
+  actionSpace: Space
+  // Every step that the pole stays up is rewarded.
+  readonly stepReward = 1
+
   // Constants that characterize the system.
-  private gravity: number
-  private massCart: number
-  private massPole: number
-  private totalMass: number
+  private config_: CartPoleConfig
+  // The physical parameters of the current episode: those of `config_`, with
+  // the randomized parameters drawn anew.
+  private params_: CartPoleConfig
   private cartWidth: number
   private cartHeight: number
-  private length: number
-  private poleMoment: number
-  private forceMag: number
-  private tau: number
-
-  // Threshold values, beyond which a simulation will be marked as failed.
-  private xThreshold: number
-  private thetaThreshold: number
 
   // The control-theory state variables of the cart-pole system.
   // Cart position, meters.
@@ -64,99 +359,320 @@ export class CartPole implements RenderableSystem {
   // Pole angle velocity.
   private thetaDot: number
 
+  // The actions that have not taken effect yet, oldest first.
+  private pendingActions: number[]
+  // The states of the last `observationDelay + 1` steps, oldest first.
+  private pastStates: number[][]
+  // The last disturbance, while `render()` draws it, and the number of steps
+  // for which it still does.
+  private disturbance: CartPoleDisturbance | null
+  private disturbanceSteps: number
+
   /**
-   * Construct`or of this.
+   * Constructor of CartPole.
+   *
+   * @param {CartPoleConfig} config The physical parameters of the system.
    */
-  constructor() {
+  constructor(config: CartPoleConfig = DEFAULT_CART_POLE_CONFIG) {
     // Constants that characterize the system.
-    this.gravity = 9.8
-    this.massCart = 1.0
-    this.massPole = 0.1
-    this.totalMass = this.massCart + this.massPole
+    checkCartPoleConfig(config)
+    this.config_ = { ...config }
+    this.params_ = this.config_
+    this.observationSpace = getObservationSpace(config)
+    this.actionSpace = getActionSpace(config)
     this.cartWidth = 0.2
     this.cartHeight = 0.1
-    this.length = 0.5
-    this.poleMoment = this.massPole * this.length
-    this.forceMag = 10.0
-    this.tau = 0.02 // Seconds between state updates.
-
-    // Threshold values, beyond which a simulation will be marked as failed.
-    this.xThreshold = 2.4
-    this.thetaThreshold = (12 / 360) * 2 * Math.PI
 
     // The control-theory state variables of the cart-pole system.
-    this.x = Math.random() - 0.5
-    this.xDot = (Math.random() - 0.5) * 1
-    this.theta = (Math.random() - 0.5) * 2 * ((6 / 360) * 2 * Math.PI)
-    this.thetaDot = (Math.random() - 0.5) * 0.5
+    this.x = random() - 0.5
+    this.xDot = (random() - 0.5) * 1
+    this.theta = (random() - 0.5) * 2 * ((6 / 360) * 2 * Math.PI)
+    this.thetaDot = (random() - 0.5) * 0.5
+    this.pendingActions = []
+    this.pastStates = [this.getPhysicalState()]
+    this.disturbance = null
+    this.disturbanceSteps = 0
   }
 
   /**
-   * Set the state of the cart-pole system randomly.
+   * Get the physical parameters of the system.
+   */
+  getConfig(): CartPoleConfig {
+    return { ...this.config_ }
+  }
+
+  /**
+   * Change the physical parameters of the system.
+   *
+   * The state of the system is left unchanged. The parameters are not
+   * randomized until the next call to `setRandomState()`.
+   *
+   * @param {CartPoleConfig} config
+   */
+  setConfig(config: CartPoleConfig) {
+    checkCartPoleConfig(config)
+    this.config_ = { ...config }
+    this.params_ = this.config_
+    this.pendingActions = []
+    this.pastStates = [this.getPhysicalState()]
+    this.observationSpace = getObservationSpace(config)
+    this.actionSpace = getActionSpace(config)
+  }
+
+  /**
+   * Get the physical parameters of the current episode, which differ from
+   * those of `getConfig()` in the randomized parameters.
+   */
+  getEpisodeParams(): CartPoleConfig {
+    return { ...this.params_ }
+  }
+
+  /**
+   * Set the state of the cart-pole system randomly, for a new episode.
+   *
+   * This draws the randomized parameters anew as well.
    */
   setRandomState() {
     // Cart position, meters.
-    this.x = Math.random() - 0.5
+    this.x = random() - 0.5
     // Cart velocity.
-    this.xDot = (Math.random() - 0.5) * 1
+    this.xDot = (random() - 0.5) * 1
     // Pole angle, radians.
-    this.theta = (Math.random() - 0.5) * 2 * ((6 / 360) * 2 * Math.PI)
+    this.theta = (random() - 0.5) * 2 * ((6 / 360) * 2 * Math.PI)
     // Pole angle velocity.
-    this.thetaDot = (Math.random() - 0.5) * 0.5
+    this.thetaDot = (random() - 0.5) * 0.5
+
+    const { randomization } = this.config_
+    this.params_ = { ...this.config_ }
+    for (const parameter of RANDOMIZED_PARAMETERS) {
+      const range = randomization[parameter]
+      if (range !== undefined) {
+        this.params_[parameter] = range[0] + (range[1] - range[0]) * random()
+      }
+    }
+    this.pendingActions = []
+    this.pastStates = [this.getPhysicalState()]
+    this.disturbance = null
+    this.disturbanceSteps = 0
   }
 
   /**
-   * Get current state as a tf.Tensor of shape [1, 4].
+   * Get the observed state as an Array of the four state variables.
+   *
+   * This is the state of `observationDelay` steps ago, with the noise of
+   * `observationNoise`, which is drawn anew with every call.
+   */
+  getState() {
+    const { observationNoise } = this.config_
+    const state = this.pastStates[0]
+    return observationNoise > 0
+      ? state.map((x) => x + randomNormal(observationNoise))
+      : state.slice()
+  }
+
+  /**
+   * Get the current physical state, without delay or noise.
+   */
+  getPhysicalState() {
+    return [this.x, this.xDot, this.theta, this.thetaDot]
+  }
+
+  /**
+   * Get a snapshot of the current physical state, followed by the length of
+   * the pole of the current episode, which may be randomized.
+   */
+  getSnapshot() {
+    return [...this.getPhysicalState(), this.params_.length]
+  }
+
+  setSnapshot(snapshot: number[]) {
+    const [x, xDot, theta, thetaDot, length] = snapshot
+    this.x = x
+    this.xDot = xDot
+    this.theta = theta
+    this.thetaDot = thetaDot
+    this.params_ = { ...this.params_, length }
+    this.pastStates = [this.getPhysicalState()]
+  }
+
+  /**
+   * Get the observed state (see `getState()`) as a tf.Tensor of shape [1, 4].
    */
   getStateTensor() {
-    return tf.tensor2d([[this.x, this.xDot, this.theta, this.thetaDot]])
+    return tf.tensor2d([this.getState()])
+  }
+
+  /**
+   * Disturb the system: change the velocity of the cart or of the pole at
+   * once, as an impulse would.
+   *
+   * The change is part of the state of the current step, i.e., of the
+   * observation of that step once the `observationDelay` has passed.
+   * `render()` draws the disturbance as an arrow for the next few steps.
+   *
+   * @param {CartPoleDisturbance} disturbance
+   */
+  applyDisturbance(disturbance: CartPoleDisturbance) {
+    checkCartPoleDisturbance(disturbance)
+    if (disturbance.target === 'cart') {
+      this.xDot += disturbance.velocity
+    } else {
+      this.thetaDot += disturbance.velocity
+    }
+    this.pastStates[this.pastStates.length - 1] = this.getPhysicalState()
+    const { target, velocity } = disturbance
+    this.disturbance = { target, velocity }
+    this.disturbanceSteps = DISTURBANCE_RENDER_STEPS
   }
 
   /**
    * Update the cart-pole system using an action.
-   * @param action Only the sign of `action` matters.
+   * @param action With 'left-right' actions, only the sign of `action`
+   *   matters.
    *   A value > 0 leads to a rightward force of a fixed magnitude.
    *   A value <= 0 leads to a leftward force of the same fixed magnitude.
+   *   With 'left-none-right' actions, 0 leads to a leftward force, 1 to no
+   *   force and 2 to a rightward force.
+   *   With 'continuous' actions, the force is `action * forceMag`, with
+   *   `action` clipped to [-1, 1].
    */
   update(action: number) {
-    const force = action > 0 ? this.forceMag : -this.forceMag
+    const { forceMag, tau, integrator, actions, actionDelay } = this.params_
+    this.pendingActions.push(action)
+    let force = 0
+    if (this.pendingActions.length > actionDelay) {
+      const appliedAction = this.pendingActions.shift() as number
+      if (actions === 'continuous') {
+        force = clip(appliedAction, 1) * forceMag
+      } else if (actions === 'left-none-right') {
+        force = Math.sign(appliedAction - 1) * forceMag
+      } else {
+        force = appliedAction > 0 ? forceMag : -forceMag
+      }
+    }
 
-    const cosTheta = Math.cos(this.theta)
-    const sinTheta = Math.sin(this.theta)
+    if (integrator === 'rk4') {
+      const next = rk4Step(
+        (state) => this.getDerivatives(state, force),
+        this.getPhysicalState(),
+        tau
+      )
+      this.x = next[0]
+      this.xDot = next[1]
+      this.theta = next[2]
+      this.thetaDot = next[3]
+    } else {
+      const [xAcc, thetaAcc] = this.getAccelerations(
+        this.theta,
+        this.thetaDot,
+        force
+      )
+      if (integrator === 'euler') {
+        // Update the four state variables, using Euler's metohd.
+        this.x += tau * this.xDot
+        this.xDot += tau * xAcc
+        this.theta += tau * this.thetaDot
+        this.thetaDot += tau * thetaAcc
+      } else {
+        this.xDot += tau * xAcc
+        this.x += tau * this.xDot
+        this.thetaDot += tau * thetaAcc
+        this.theta += tau * this.thetaDot
+      }
+    }
+
+    this.pastStates.push(this.getPhysicalState())
+    if (this.pastStates.length > this.params_.observationDelay + 1) {
+      this.pastStates.shift()
+    }
+    if (this.disturbanceSteps > 0 && --this.disturbanceSteps === 0) {
+      this.disturbance = null
+    }
+    return this.isDone()
+  }
+
+  /**
+   * Compute the accelerations of the cart and of the pole.
+   *
+   * @param {number} theta Pole angle, radians.
+   * @param {number} thetaDot Pole angle velocity.
+   * @param {number} force The force applied to the cart.
+   * @returns `[xAcc, thetaAcc]`.
+   */
+  private getAccelerations(theta: number, thetaDot: number, force: number) {
+    const { gravity, massPole, length } = this.params_
+    const totalMass = this.params_.massCart + massPole
+    const poleMoment = massPole * length
+
+    const cosTheta = Math.cos(theta)
+    const sinTheta = Math.sin(theta)
 
     const temp =
-      (force + this.poleMoment * this.thetaDot * this.thetaDot * sinTheta) /
-      this.totalMass
+      (force + poleMoment * thetaDot * thetaDot * sinTheta) / totalMass
     const thetaAcc =
-      (this.gravity * sinTheta - cosTheta * temp) /
-      (this.length *
-        (4 / 3 - (this.massPole * cosTheta * cosTheta) / this.totalMass))
-    const xAcc = temp - (this.poleMoment * thetaAcc * cosTheta) / this.totalMass
-
-    // Update the four state variables, using Euler's metohd.
-    this.x += this.tau * this.xDot
-    this.xDot += this.tau * xAcc
-    this.theta += this.tau * this.thetaDot
-    this.thetaDot += this.tau * thetaAcc
+      (gravity * sinTheta - cosTheta * temp) /
+      (length * (4 / 3 - (massPole * cosTheta * cosTheta) / totalMass))
+    const xAcc = temp - (poleMoment * thetaAcc * cosTheta) / totalMass
+    return [xAcc, thetaAcc]
+  }
 
-    return this.isDone()
+  /**
+   * Compute the time derivatives of the four state variables.
+   *
+   * @param {number[]} state `[x, xDot, theta, thetaDot]`.
+   * @param {number} force The force applied to the cart.
+   */
+  private getDerivatives(state: number[], force: number) {
+    const [xAcc, thetaAcc] = this.getAccelerations(state[2], state[3], force)
+    return [state[1], xAcc, state[3], thetaAcc]
   }
 
   /**
    * Determine whether this simulation is done.
    *
    * A simulation is done when `x` (position of the cart) goes out of bound
-   * or when `theta` (angle of the pole) goes out of bound.
+   * or when `theta` (angle of the pole) goes out of bound, unless the
+   * `termination` of the config ignores the failure.
    *
    * @returns Whether the simulation is done.
    */
   isDone() {
-    return (
-      this.x < -this.xThreshold ||
-      this.x > this.xThreshold ||
-      this.theta < -this.thetaThreshold ||
-      this.theta > this.thetaThreshold
-    )
+    return this.getFailureCause() !== null
+  }
+
+  /**
+   * Get the reason why the simulation is done.
+   *
+   * Only the failures that end a simulation under the `termination` of the
+   * config count.
+   *
+   * @returns 'position' if the cart has left its track, 'angle' if the pole
+   *   has fallen (if both, the position comes first), or `null` if the
+   *   simulation is not done.
+   */
+  getFailureCause(): CartPoleFailureCause | null {
+    const { xThreshold, thetaThreshold, termination } = this.config_
+    if (
+      termination === 'position-or-angle' &&
+      (this.x < -xThreshold || this.x > xThreshold)
+    ) {
+      return 'position'
+    }
+    if (
+      termination !== 'none' &&
+      (this.theta < -thetaThreshold || this.theta > thetaThreshold)
+    ) {
+      return 'angle'
+    }
+    return null
+  }
+
+  /**
+   * Get auxiliary information about the current state, which a `SystemEnv`
+   * reports with every step.
+   */
+  getInfo() {
+    return { failureCause: this.getFailureCause() }
   }
 
   /**
@@ -169,8 +685,9 @@ export class CartPole implements RenderableSystem {
     if (!canvas.style.display) {
       canvas.style.display = 'block'
     }
-    const X_MIN = -this.xThreshold
-    const X_MAX = this.xThreshold
+    const { xThreshold, length } = this.params_
+    const X_MIN = -xThreshold
+    const X_MAX = xThreshold
     const xRange = X_MAX - X_MIN
     const scale = canvas.width / xRange
 
@@ -211,9 +728,9 @@ export class CartPole implements RenderableSystem {
 
     // Draw the pole.
     const angle = this.theta + Math.PI / 2
-    const poleTopX = halfW + scale * (this.x + Math.cos(angle) * this.length)
+    const poleTopX = halfW + scale * (this.x + Math.cos(angle) * length)
     const poleTopY =
-      railY - scale * (this.cartHeight / 2 + Math.sin(angle) * this.length)
+      railY - scale * (this.cartHeight / 2 + Math.sin(angle) * length)
     context.beginPath()
     context.strokeStyle = '#ffa500'
     context.lineWidth = 6
@@ -221,6 +738,20 @@ export class CartPole implements RenderableSystem {
     context.lineTo(poleTopX, poleTopY)
     context.stroke()
 
+    // Draw the last disturbance as an arrow that pushes the cart or the tip of
+    // the pole. On the canvas, a positive angle leans the pole to the left, so
+    // that a positive `thetaDot` moves its tip leftward.
+    if (this.disturbance !== null) {
+      const { target, velocity } = this.disturbance
+      const direction =
+        target === 'cart' ? Math.sign(velocity) : -Math.sign(velocity)
+      const [tipX, tipY] =
+        target === 'cart'
+          ? [cartX - (direction * cartW) / 2, railY]
+          : [poleTopX, poleTopY]
+      drawArrow(context, tipX, tipY, direction, cartW)
+    }
+
     // Draw the ground.
     const groundY = railY + cartH / 2 + wheelRadius * 2
     context.beginPath()
@@ -256,3 +787,65 @@ export class CartPole implements RenderableSystem {
     context.stroke()
   }
 }
+
+/**
+ * Draw a horizontal arrow that ends at a point.
+ *
+ * @param {CanvasRenderingContext2D} context
+ * @param {number} tipX The end of the arrow.
+ * @param {number} tipY
+ * @param {number} direction 1 for an arrow pointing to the right, -1 for one
+ *   pointing to the left.
+ * @param {number} length The length of the arrow.
+ */
+function drawArrow(
+  context: CanvasRenderingContext2D,
+  tipX: number,
+  tipY: number,
+  direction: number,
+  length: number
+) {
+  const headSize = length / 4
+  context.beginPath()
+  context.strokeStyle = '#0000ff'
+  context.lineWidth = 3
+  context.moveTo(tipX - direction * length, tipY)
+  context.lineTo(tipX, tipY)
+  context.moveTo(tipX - direction * headSize, tipY - headSize)
+  context.lineTo(tipX, tipY)
+  context.lineTo(tipX - direction * headSize, tipY + headSize)
+  context.stroke()
+}
+
+/**
+ * Get the observation space of a cart-pole system, like the one of the Gym
+ * CartPole environments.
+ *
+ * @param {CartPoleConfig} config
+ */
+function getObservationSpace(config: CartPoleConfig) {
+  const { termination } = config
+  // Only the failures that end a simulation bound the state variables.
+  const high = [
+    termination === 'position-or-angle' ? config.xThreshold * 2 : Infinity,
+    Infinity,
+    termination !== 'none' ? config.thetaThreshold * 2 : Infinity,
+    Infinity,
+  ]
+  return boxSpace(
+    high.map((h) => -h),
+    high
+  )
+}
+
+/**
+ * Get the action space of a cart-pole system.
+ *
+ * @param {CartPoleConfig} config
+ */
+function getActionSpace(config: CartPoleConfig): Space {
+  if (config.actions === 'continuous') {
+    return boxSpace([-1], [1])
+  }
+  return discreteSpace(config.actions === 'left-none-right' ? 3 : 2)
+}
@@ -0,0 +1,178 @@
+/**
+ * @license
+ * Copyright 2018 Google LLC. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ * =============================================================================
+ */
+
+import {
+  CartPole,
+  CartPoleConfig,
+  CartPoleFailureCause,
+  CartPoleTermination,
+  DEFAULT_CART_POLE_CONFIG,
+  parseCartPoleConfig,
+} from './cart_pole'
+
+// The state from which the steps are taken: [x, xDot, theta, thetaDot].
+const STATE = [0.1, 0.5, 0, 1]
+
+/**
+ * Take one step of a cart-pole from `STATE`.
+ *
+ * @param {Partial<CartPoleConfig>} config Changes to the default config.
+ * @param {number} action
+ * @returns The physical state after the step.
+ */
+function step(config: Partial<CartPoleConfig>, action: number) {
+  const cartPole = new CartPole({ ...DEFAULT_CART_POLE_CONFIG, ...config })
+  cartPole.setSnapshot([...STATE, DEFAULT_CART_POLE_CONFIG.length])
+  cartPole.update(action)
+  return cartPole.getPhysicalState()
+}
+
+function expectStatesClose(actual: number[], expected: number[]) {
+  expect(actual.length).toEqual(expected.length)
+  actual.forEach((x, i) => expect(x).toBeCloseTo(expected[i], 10))
+}
+
+describe('CartPole', () => {
+  // With the pole upright (theta = 0), the accelerations under the rightward
+  // force F of the action 1 are
+  //   thetaAcc = -F / (M * l * (4 / 3 - m / M))
+  //   xAcc = (F - m * l * thetaAcc) / M
+  // with the total mass M, the mass of the pole m and its half length l.
+  const { massCart, massPole, length, forceMag, tau } = DEFAULT_CART_POLE_CONFIG
+  const totalMass = massCart + massPole
+  const thetaAcc =
+    -forceMag / (totalMass * length * (4 / 3 - massPole / totalMass))
+  const xAcc = (forceMag - massPole * length * thetaAcc) / totalMass
+
+  it('takes an explicit Euler step', () => {
+    expectStatesClose(step({ integrator: 'euler' }, 1), [
+      0.1 + tau * 0.5,
+      0.5 + tau * xAcc,
+      tau * 1,
+      1 + tau * thetaAcc,
+    ])
+  })
+
+  it('takes a semi-implicit Euler step', () => {
+    const xDot = 0.5 + tau * xAcc
+    const thetaDot = 1 + tau * thetaAcc
+    expectStatesClose(step({ integrator: 'semi-implicit-euler' }, 1), [
+      0.1 + tau * xDot,
+      xDot,
+      tau * thetaDot,
+      thetaDot,
+    ])
+  })
+
+  it('takes a Runge-Kutta step', () => {
+    // Without a force, a cart-pole with the pole at rest upright moves
+    // uniformly, which every integrator follows exactly.
+    const cartPole = new CartPole({
+      ...DEFAULT_CART_POLE_CONFIG,
+      integrator: 'rk4',
+      actions: 'left-none-right',
+    })
+    cartPole.setSnapshot([0.1, 0.5, 0, 0, DEFAULT_CART_POLE_CONFIG.length])
+    cartPole.update(1)
+    expectStatesClose(cartPole.getPhysicalState(), [0.1 + tau * 0.5, 0.5, 0, 0])
+  })
+
+  it('takes a Runge-Kutta step between the two Euler steps', () => {
+    // Under a force, the Runge-Kutta step falls between the explicit and the
+    // semi-implicit Euler steps, which are off by O(tau^2) either way.
+    const euler = step({ integrator: 'euler' }, 1)
+    const semiImplicit = step({ integrator: 'semi-implicit-euler' }, 1)
+    const rk4 = step({ integrator: 'rk4' }, 1)
+    ;[0, 2].forEach((i) => {
+      expect(rk4[i]).toBeGreaterThan(Math.min(euler[i], semiImplicit[i]))
+      expect(rk4[i]).toBeLessThan(Math.max(euler[i], semiImplicit[i]))
+    })
+  })
+
+  it('fails by the position and angle that its termination counts', () => {
+    // The cart beyond xThreshold, the pole beyond thetaThreshold, and both.
+    const offTrack = [3, 0, 0, 0]
+    const fallen = [0, 0, 0.5, 0]
+    const both = [3, 0, 0.5, 0]
+    const expected: Array<
+      [CartPoleTermination, Array<CartPoleFailureCause | null>]
+    > = [
+      ['position-or-angle', ['position', 'angle', 'position']],
+      ['angle', [null, 'angle', 'angle']],
+      ['none', [null, null, null]],
+    ]
+    for (const [termination, causes] of expected) {
+      const cartPole = new CartPole({
+        ...DEFAULT_CART_POLE_CONFIG,
+        termination,
+      })
+      ;[offTrack, fallen, both].forEach((state, i) => {
+        cartPole.setSnapshot([...state, DEFAULT_CART_POLE_CONFIG.length])
+        expect(cartPole.getFailureCause()).toEqual(causes[i])
+        expect(cartPole.isDone()).toEqual(causes[i] !== null)
+      })
+    }
+  })
+})
+
+describe('parseCartPoleConfig', () => {
+  it('fills in the missing fields with their defaults', () => {
+    expect(parseCartPoleConfig({})).toEqual(DEFAULT_CART_POLE_CONFIG)
+    expect(parseCartPoleConfig({ integrator: 'rk4', tau: 0.01 })).toEqual({
+      ...DEFAULT_CART_POLE_CONFIG,
+      integrator: 'rk4',
+      tau: 0.01,
+    })
+  })
+
+  it('rejects a config that is not an object', () => {
+    for (const json of [null, 1, 'euler', [0.02]]) {
+      expect(() => parseCartPoleConfig(json)).toThrowError(
+        /Invalid cart-pole config/
+      )
+    }
+  })
+
+  it('rejects unknown fields', () => {
+    expect(() => parseCartPoleConfig({ friction: 0.1 })).toThrowError(
+      /Unknown cart-pole config field: friction/
+    )
+  })
+
+  it('rejects invalid values', () => {
+    const invalid: Array<[object, RegExp]> = [
+      [{ gravity: 'high' }, /Invalid gravity/],
+      [{ massCart: 0 }, /Invalid massCart/],
+      [{ length: -0.5 }, /Invalid length/],
+      [{ tau: 0 }, /Invalid tau/],
+      [{ forceMag: -1 }, /Invalid forceMag/],
+      [{ integrator: 'midpoint' }, /Invalid integrator/],
+      [{ actions: 'up-down' }, /Invalid actions/],
+      [{ termination: 'never' }, /Invalid termination/],
+      [{ observationNoise: -0.1 }, /Invalid observationNoise/],
+      [{ actionDelay: 1.5 }, /Invalid actionDelay/],
+      [{ observationDelay: -1 }, /Invalid observationDelay/],
+      [{ randomization: [] }, /Invalid randomization/],
+      [{ randomization: { gravity: [9, 10] } }, /Unknown randomized/],
+      [{ randomization: { massPole: [0.2, 0.1] } }, /Invalid randomization/],
+      [{ randomization: { length: [0, 1] } }, /Invalid randomization/],
+    ]
+    for (const [json, error] of invalid) {
+      expect(() => parseCartPoleConfig(json)).toThrowError(error)
+    }
+  })
+})
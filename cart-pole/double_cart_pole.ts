@@ -0,0 +1,323 @@
+/**
+ * @license
+ * Copyright 2018 Google LLC. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ * =============================================================================
+ */
+
+/**
+ * Implementation based on: Bogdanov, "Optimal Control of a Double Inverted
+ * Pendulum on a Cart", Technical Report CSE-04-006, OGI School of Science and
+ * Engineering, OHSU, 2004.
+ */
+
+import * as tf from '@tensorflow/tfjs'
+import { RenderableSystem } from './renderableSystem'
+import { BoxSpace, boxSpace, discreteSpace } from './saveablePolicyNetwork/env'
+import { random, rk4Step } from './utils'
+
+/**
+ * Double-inverted-pendulum cart simulator.
+ *
+ * Like the cart-pole, but the pole is made of two uniform rods joined by a
+ * free hinge, which makes it much harder to balance.
+ *
+ * There are six state variables in this system:
+ *
+ *   - x: The 1D location of the cart.
+ *   - xDot: The velocity of the cart.
+ *   - theta1: The angle of the lower pole (in radians). A value of 0
+ *     corresponds to a vertical position, positive values to a lean to the
+ *     right.
+ *   - theta1Dot: The angular velocity of the lower pole.
+ *   - theta2: The angle of the upper pole, measured the same way.
+ *   - theta2Dot: The angular velocity of the upper pole.
+ *
+ * The system is controlled through a single action:
+ *
+ *   - leftward or rightward force.
+ */
+export class DoubleCartPole implements RenderableSystem {
+  // The state variables are bounded only by the failure thresholds, which
+  // they exceed by at most one step.
+  readonly observationSpace: BoxSpace
+  // Leftward or rightward force.
+  readonly actionSpace = discreteSpace(2)
+  // Every step that both poles stay up is rewarded.
+  readonly stepReward = 1
+
+  // Constants that characterize the system.
+  private gravity: number
+  private massCart: number
+  private massPole1: number
+  private massPole2: number
+  private length1: number
+  private length2: number
+  private cartWidth: number
+  private cartHeight: number
+  private forceMag: number
+  private tau: number
+
+  // Threshold values, beyond which a simulation will be marked as failed.
+  private xThreshold: number
+  private thetaThreshold: number
+
+  // The state variables, in the order of the observation.
+  private state: number[]
+
+  /**
+   * Constructor of DoubleCartPole.
+   */
+  constructor() {
+    // Constants that characterize the system.
+    this.gravity = 9.8
+    this.massCart = 1.0
+    this.massPole1 = 0.1
+    this.massPole2 = 0.1
+    this.length1 = 0.6
+    this.length2 = 0.6
+    this.cartWidth = 0.2
+    this.cartHeight = 0.1
+    this.forceMag = 10.0
+    this.tau = 0.01 // Seconds between state updates.
+
+    // Threshold values, beyond which a simulation will be marked as failed.
+    this.xThreshold = 2.4
+    this.thetaThreshold = (12 / 360) * 2 * Math.PI
+    const high = [
+      this.xThreshold * 2,
+      Infinity,
+      this.thetaThreshold * 2,
+      Infinity,
+      this.thetaThreshold * 2,
+      Infinity,
+    ]
+    this.observationSpace = boxSpace(
+      high.map((h) => -h),
+      high
+    )
+
+    this.state = [0, 0, 0, 0, 0, 0]
+    this.setRandomState()
+  }
+
+  /**
+   * Set the state of the system randomly, close to balanced.
+   */
+  setRandomState() {
+    this.state = [
+      random() - 0.5,
+      (random() - 0.5) * 0.2,
+      (random() - 0.5) * 0.1,
+      (random() - 0.5) * 0.1,
+      (random() - 0.5) * 0.1,
+      (random() - 0.5) * 0.1,
+    ]
+  }
+
+  /**
+   * Get current state as an Array of the six state variables.
+   */
+  getState() {
+    return this.state.slice()
+  }
+
+  getSnapshot() {
+    return this.getState()
+  }
+
+  setSnapshot(snapshot: number[]) {
+    this.state = snapshot.slice()
+  }
+
+  /**
+   * Get current state as a tf.Tensor of shape [1, 6].
+   */
+  getStateTensor() {
+    return tf.tensor2d([this.getState()])
+  }
+
+  /**
+   * Update the system using an action.
+   *
+   * @param action Only the sign of `action` matters.
+   *   A value > 0 leads to a rightward force of a fixed magnitude.
+   *   A value <= 0 leads to a leftward force of the same fixed magnitude.
+   */
+  update(action: number) {
+    const force = action > 0 ? this.forceMag : -this.forceMag
+    this.state = rk4Step(
+      (state) => this.getDerivatives(state, force),
+      this.state,
+      this.tau
+    )
+    return this.isDone()
+  }
+
+  /**
+   * Compute the time derivatives of the six state variables.
+   *
+   * The equations of motion are `D(q) * qAcc = H * force - C(q, qDot) * qDot -
+   * G(q)`, with `q = [x, theta1, theta2]`.
+   *
+   * @param {number[]} state The state variables.
+   * @param {number} force The force applied to the cart.
+   */
+  private getDerivatives(state: number[], force: number) {
+    const [, xDot, theta1, theta1Dot, theta2, theta2Dot] = state
+    const m0 = this.massCart
+    const m1 = this.massPole1
+    const m2 = this.massPole2
+    const L1 = this.length1
+    // The centers of mass are halfway along the poles.
+    const l1 = this.length1 / 2
+    const l2 = this.length2 / 2
+    const i1 = (m1 * this.length1 * this.length1) / 12
+    const i2 = (m2 * this.length2 * this.length2) / 12
+
+    const d1 = m0 + m1 + m2
+    const d2 = m1 * l1 + m2 * L1
+    const d3 = m2 * l2
+    const d4 = m1 * l1 * l1 + m2 * L1 * L1 + i1
+    const d5 = m2 * L1 * l2
+    const d6 = m2 * l2 * l2 + i2
+    const f1 = (m1 * l1 + m2 * L1) * this.gravity
+    const f2 = m2 * l2 * this.gravity
+
+    const cos1 = Math.cos(theta1)
+    const cos2 = Math.cos(theta2)
+    const sin1 = Math.sin(theta1)
+    const sin2 = Math.sin(theta2)
+    const cos12 = Math.cos(theta1 - theta2)
+    const sin12 = Math.sin(theta1 - theta2)
+
+    const [xAcc, theta1Acc, theta2Acc] = solve3x3(
+      [
+        [d1, d2 * cos1, d3 * cos2],
+        [d2 * cos1, d4, d5 * cos12],
+        [d3 * cos2, d5 * cos12, d6],
+      ],
+      [
+        force +
+          d2 * sin1 * theta1Dot * theta1Dot +
+          d3 * sin2 * theta2Dot * theta2Dot,
+        f1 * sin1 - d5 * sin12 * theta2Dot * theta2Dot,
+        f2 * sin2 + d5 * sin12 * theta1Dot * theta1Dot,
+      ]
+    )
+    return [xDot, xAcc, theta1Dot, theta1Acc, theta2Dot, theta2Acc]
+  }
+
+  /**
+   * Determine whether this simulation is done.
+   *
+   * A simulation is done when `x` (position of the cart) goes out of bound
+   * or when the angle of either pole goes out of bound.
+   *
+   * @returns Whether the simulation is done.
+   */
+  isDone() {
+    const [x, , theta1, , theta2] = this.state
+    return (
+      Math.abs(x) > this.xThreshold ||
+      Math.abs(theta1) > this.thetaThreshold ||
+      Math.abs(theta2) > this.thetaThreshold
+    )
+  }
+
+  /**
+   * Render the current state of the system on an HTML canvas.
+   *
+   * @param {HTMLCanvasElement} canvas The instance of HTMLCanvasElement on which
+   *   the rendering will happen.
+   */
+  render(canvas: HTMLCanvasElement) {
+    if (!canvas.style.display) {
+      canvas.style.display = 'block'
+    }
+    const [x, , theta1, , theta2] = this.state
+    const scale = canvas.width / (2 * this.xThreshold)
+
+    const context = canvas.getContext('2d')
+    if (context === null) {
+      throw new Error('Where did the canvas go?')
+    }
+    context.clearRect(0, 0, canvas.width, canvas.height)
+    const halfW = canvas.width / 2
+
+    // Draw the cart.
+    const railY = canvas.height * 0.9
+    const cartW = this.cartWidth * scale
+    const cartH = this.cartHeight * scale
+    const cartX = x * scale + halfW
+    context.beginPath()
+    context.strokeStyle = '#000000'
+    context.lineWidth = 2
+    context.rect(cartX - cartW / 2, railY - cartH / 2, cartW, cartH)
+    context.stroke()
+
+    // Draw the poles.
+    const hingeX = cartX + Math.sin(theta1) * this.length1 * scale
+    const hingeY = railY - cartH / 2 - Math.cos(theta1) * this.length1 * scale
+    const topX = hingeX + Math.sin(theta2) * this.length2 * scale
+    const topY = hingeY - Math.cos(theta2) * this.length2 * scale
+    context.beginPath()
+    context.strokeStyle = '#ffa500'
+    context.lineWidth = 6
+    context.moveTo(cartX, railY - cartH / 2)
+    context.lineTo(hingeX, hingeY)
+    context.stroke()
+    context.beginPath()
+    context.strokeStyle = '#ff7f00'
+    context.moveTo(hingeX, hingeY)
+    context.lineTo(topX, topY)
+    context.stroke()
+
+    // Draw the ground and the left and right limits.
+    const groundY = railY + cartH / 2
+    context.beginPath()
+    context.strokeStyle = '#000000'
+    context.lineWidth = 1
+    context.moveTo(0, groundY)
+    context.lineTo(canvas.width, groundY)
+    context.stroke()
+    context.beginPath()
+    context.strokeStyle = '#ff0000'
+    context.lineWidth = 2
+    context.moveTo(1, groundY)
+    context.lineTo(1, groundY - canvas.height / 2)
+    context.moveTo(canvas.width - 1, groundY)
+    context.lineTo(canvas.width - 1, groundY - canvas.height / 2)
+    context.stroke()
+  }
+}
+
+/**
+ * Solve a system of three linear equations with Cramer's rule.
+ *
+ * @param {number[][]} a The 3x3 matrix of coefficients.
+ * @param {number[]} b The right-hand side.
+ * @returns `x` such that `a * x = b`.
+ */
+function solve3x3(a: number[][], b: number[]) {
+  const det = (m: number[][]) =>
+    m[0][0] * (m[1][1] * m[2][2] - m[1][2] * m[2][1]) -
+    m[0][1] * (m[1][0] * m[2][2] - m[1][2] * m[2][0]) +
+    m[0][2] * (m[1][0] * m[2][1] - m[1][1] * m[2][0])
+  const detA = det(a)
+  return [0, 1, 2].map(
+    (column) =>
+      det(a.map((row, i) => row.map((v, j) => (j === column ? b[i] : v)))) /
+      detA
+  )
+}
@@ -0,0 +1,189 @@
+/**
+ * @license
+ * Copyright 2018 Google LLC. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ * =============================================================================
+ */
+
+import { Acrobot } from './acrobot'
+import { BatchRenderableSystem } from './batch_renderable_system'
+import { CartPole, CartPoleConfig, DEFAULT_CART_POLE_CONFIG } from './cart_pole'
+import { DoubleCartPole } from './double_cart_pole'
+import { MountainCar } from './mountain_car'
+import { Pendulum } from './pendulum'
+import { RenderableSystem } from './renderableSystem'
+import { BatchSystemEnv, SystemEnv } from './saveablePolicyNetwork/systemEnv'
+
+/**
+ * The simulated systems that an agent can be trained on.
+ */
+export type EnvironmentName =
+  | 'cart-pole'
+  | 'acrobot'
+  | 'mountain-car'
+  | 'pendulum'
+  | 'double-cart-pole'
+
+export const ENVIRONMENT_NAMES: EnvironmentName[] = [
+  'cart-pole',
+  'acrobot',
+  'mountain-car',
+  'pendulum',
+  'double-cart-pole',
+]
+
+const ENVIRONMENTS: {
+  [name in EnvironmentName]: (
+    cartPoleConfig: CartPoleConfig
+  ) => RenderableSystem
+} = {
+  'cart-pole': (cartPoleConfig) => new CartPole(cartPoleConfig),
+  acrobot: () => new Acrobot(),
+  'mountain-car': () => new MountainCar(),
+  pendulum: () => new Pendulum(),
+  'double-cart-pole': () => new DoubleCartPole(),
+}
+
+// The names of the state variables of the observations of the environments.
+const OBSERVATION_NAMES: { [name in EnvironmentName]: string[] } = {
+  'cart-pole': ['x', 'xDot', 'theta', 'thetaDot'],
+  acrobot: [
+    'cos(theta1)',
+    'sin(theta1)',
+    'cos(theta2)',
+    'sin(theta2)',
+    'theta1Dot',
+    'theta2Dot',
+  ],
+  'mountain-car': ['position', 'velocity'],
+  pendulum: ['cos(theta)', 'sin(theta)', 'thetaDot'],
+  'double-cart-pole': [
+    'x',
+    'xDot',
+    'theta1',
+    'theta1Dot',
+    'theta2',
+    'theta2Dot',
+  ],
+}
+
+/**
+ * Check that a string names an environment.
+ *
+ * @param {string} name
+ * @throws {Error} If `name` is not one of `ENVIRONMENT_NAMES`.
+ */
+export function parseEnvironmentName(name: string) {
+  if (ENVIRONMENT_NAMES.indexOf(name as EnvironmentName) === -1) {
+    throw new Error(
+      `Invalid environment: ${name}. ` +
+        `Expected one of ${ENVIRONMENT_NAMES.join(', ')}.`
+    )
+  }
+  return name as EnvironmentName
+}
+
+/**
+ * Get the observation and action spaces of an environment, from which the
+ * input and output sizes of the models that act in it follow.
+ *
+ * @param {EnvironmentName} name
+ * @param {CartPoleConfig} cartPoleConfig See `createSystem()`.
+ */
+export function getSpaces(
+  name: EnvironmentName,
+  cartPoleConfig: CartPoleConfig = DEFAULT_CART_POLE_CONFIG
+) {
+  const { observationSpace, actionSpace } = createSystem(name, cartPoleConfig)
+  return { observationSpace, actionSpace }
+}
+
+/**
+ * Get the names of the state variables of the observations of an
+ * environment, in their order.
+ *
+ * @param {EnvironmentName} name
+ */
+export function getObservationNames(name: EnvironmentName) {
+  return OBSERVATION_NAMES[name].slice()
+}
+
+/**
+ * Create a system of an environment.
+ *
+ * @param {EnvironmentName} name
+ * @param {CartPoleConfig} cartPoleConfig The physics of the system, if it is
+ *   a cart-pole. Ignored by the other environments.
+ */
+export function createSystem(
+  name: EnvironmentName,
+  cartPoleConfig: CartPoleConfig = DEFAULT_CART_POLE_CONFIG
+) {
+  return ENVIRONMENTS[name](cartPoleConfig)
+}
+
+/**
+ * Create a batch of systems of an environment, see `createSystem()`.
+ *
+ * @param {EnvironmentName} name
+ * @param {number} size Number of systems.
+ * @param {CartPoleConfig} cartPoleConfig
+ */
+export function createBatchSystem(
+  name: EnvironmentName,
+  size: number,
+  cartPoleConfig: CartPoleConfig = DEFAULT_CART_POLE_CONFIG
+) {
+  return new BatchRenderableSystem(size, () =>
+    createSystem(name, cartPoleConfig)
+  )
+}
+
+/**
+ * Create an environment in which the episodes are played on a system, see
+ * `createSystem()`.
+ *
+ * @param {EnvironmentName} name
+ * @param {CartPoleConfig} cartPoleConfig
+ * @param {number} maxEpisodeSteps The number of steps after which an episode
+ *   is truncated.
+ */
+export function createEnv(
+  name: EnvironmentName,
+  cartPoleConfig: CartPoleConfig = DEFAULT_CART_POLE_CONFIG,
+  maxEpisodeSteps = Infinity
+) {
+  return new SystemEnv(createSystem(name, cartPoleConfig), maxEpisodeSteps)
+}
+
+/**
+ * Create a vector of environments in which the episodes are played on a batch
+ * of systems, see `createBatchSystem()`.
+ *
+ * @param {EnvironmentName} name
+ * @param {number} size Number of environments.
+ * @param {CartPoleConfig} cartPoleConfig
+ * @param {number} maxEpisodeSteps The number of steps after which an episode
+ *   is truncated.
+ */
+export function createVectorEnv(
+  name: EnvironmentName,
+  size: number,
+  cartPoleConfig: CartPoleConfig = DEFAULT_CART_POLE_CONFIG,
+  maxEpisodeSteps = Infinity
+) {
+  return new BatchSystemEnv(
+    createBatchSystem(name, size, cartPoleConfig),
+    maxEpisodeSteps
+  )
+}
@@ -0,0 +1,265 @@
+/**
+ * @license
+ * Copyright 2018 Google LLC. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ * =============================================================================
+ */
+
+/**
+ * Headless (Node.js) evaluation of a policy network saved by `train.ts`.
+ *
+ * Usage:
+ *
+ *   yarn evaluate --savePath ./models/cart-pole --episodes 100
+ */
+
+import * as fs from 'fs'
+import { join } from 'path'
+
+import * as argparse from 'argparse'
+import * as tf from '@tensorflow/tfjs-node'
+
+import {
+  CartPoleConfig,
+  DEFAULT_CART_POLE_CONFIG,
+  RANDOMIZED_PARAMETERS,
+  parseCartPoleConfig,
+} from './cart_pole'
+import {
+  ENVIRONMENT_NAMES,
+  EnvironmentName,
+  createEnv,
+  parseEnvironmentName,
+} from './environments'
+import { PhysicsSweep, evaluateGeneralization } from './generalization'
+import { EvaluationConfig, evaluate } from './saveablePolicyNetwork/evaluation'
+import { PolicyNetwork } from './saveablePolicyNetwork/policyNetwork'
+import { QNetwork } from './saveablePolicyNetwork/qNetwork'
+import { getModelMetadata } from './saveablePolicyNetwork/storage'
+import { parseTrainingMetadata } from './saveablePolicyNetwork/trainingMetadata'
+
+// Number of bars of the histogram of the steps per episode.
+const HISTOGRAM_BINS = 10
+// Width of the longest bar of the histogram, in characters.
+const HISTOGRAM_WIDTH = 50
+
+export function parseArguments() {
+  const parser = new argparse.ArgumentParser({
+    description: 'Evaluation script for the cart-pole policy network',
+  })
+  parser.addArgument('--savePath', {
+    type: 'string',
+    defaultValue: './models/cart-pole',
+    help: 'Directory to which the model has been saved by train.ts.',
+  })
+  parser.addArgument('--episodes', {
+    type: 'int',
+    defaultValue: 100,
+    help: 'Number of episodes to play.',
+  })
+  parser.addArgument('--seed', {
+    type: 'int',
+    defaultValue: 0,
+    help:
+      'Episode i starts from the initial state drawn with the seed + i, so ' +
+      'that evaluations with the same seed are comparable.',
+  })
+  parser.addArgument('--maxSteps', {
+    type: 'int',
+    defaultValue: 500,
+    help: 'Maximum number of steps per episode.',
+  })
+  parser.addArgument('--stochastic', {
+    action: 'storeTrue',
+    help:
+      'Sample the actions of the policy network instead of taking the most ' +
+      'probable ones.',
+  })
+  parser.addArgument('--environment', {
+    type: 'string',
+    choices: ENVIRONMENT_NAMES,
+    help:
+      'Environment to evaluate in. By default, the one that the model was ' +
+      'trained in, according to its training metadata.',
+  })
+  parser.addArgument('--physics', {
+    type: 'string',
+    help:
+      'Physics of the cart-pole as a JSON object, see train.ts. By default, ' +
+      'the physics that the model was trained with.',
+  })
+  parser.addArgument('--sweep', {
+    type: 'string',
+    choices: RANDOMIZED_PARAMETERS,
+    help:
+      'Evaluate the model on several values of this parameter of the ' +
+      'cart-pole physics, to measure how well it generalizes to physics ' +
+      'that it was not trained on.',
+  })
+  parser.addArgument('--scales', {
+    type: 'string',
+    defaultValue: '0.5,0.75,1,1.5,2',
+    help: 'Values of --sweep, as multiples of the value in the physics.',
+  })
+  parser.addArgument('--output', {
+    type: 'string',
+    help: 'Path of a JSON file to write the results of every episode to.',
+  })
+  return parser.parseArgs()
+}
+
+/**
+ * Print a histogram of numbers of steps as text.
+ *
+ * @param {number[]} steps
+ */
+function printHistogram(steps: number[]) {
+  const min = Math.min(...steps)
+  const max = Math.max(...steps)
+  const binWidth = Math.max(1, Math.ceil((max - min + 1) / HISTOGRAM_BINS))
+  const counts = new Array(HISTOGRAM_BINS).fill(0)
+  for (const s of steps) {
+    counts[Math.floor((s - min) / binWidth)]++
+  }
+  const maxCount = Math.max(...counts)
+  counts.forEach((count, i) => {
+    if (min + i * binWidth > max) {
+      return
+    }
+    const low = min + i * binWidth
+    const high = low + binWidth - 1
+    const bar = '#'.repeat(Math.round((count / maxCount) * HISTOGRAM_WIDTH))
+    console.log(
+      `${`${low}-${high}`.padStart(11)} | ${bar} ${count > 0 ? count : ''}`
+    )
+  })
+}
+
+async function main() {
+  const args = parseArguments()
+
+  const layersModel = await tf.loadLayersModel(
+    `file://${args.savePath}/model.json`
+  )
+  const modelMetadata = getModelMetadata(layersModel)
+  const agent =
+    modelMetadata.agent === 'dqn'
+      ? new QNetwork({
+          layersModel,
+          config:
+            modelMetadata.dqn != null ? modelMetadata.dqn.config : undefined,
+        })
+      : new PolicyNetwork({ layersModel, head: modelMetadata.policyHead })
+
+  // The environment and the physics default to those of the training.
+  let environment: EnvironmentName = 'cart-pole'
+  let physics: CartPoleConfig | undefined
+  let trainedPhysics: CartPoleConfig | undefined
+  const metadataPath = join(args.savePath, 'model.metadata.json')
+  if (fs.existsSync(metadataPath)) {
+    const { hyperparameters } = parseTrainingMetadata(
+      JSON.parse(fs.readFileSync(metadataPath, { encoding: 'utf-8' }))
+    )
+    environment = hyperparameters.environment || environment
+    // Missing fields of older metadata take their default values.
+    trainedPhysics =
+      hyperparameters.physics != null
+        ? parseCartPoleConfig(hyperparameters.physics)
+        : undefined
+    physics = trainedPhysics
+  }
+  if (args.environment != null) {
+    environment = parseEnvironmentName(args.environment)
+  }
+  if (args.physics != null) {
+    physics = parseCartPoleConfig(JSON.parse(args.physics))
+  }
+  if (!(args.maxSteps > 0)) {
+    throw new Error(`Invalid max. steps per episode: ${args.maxSteps}`)
+  }
+
+  const config: EvaluationConfig = {
+    numEpisodes: args.episodes,
+    seed: args.seed,
+    greedy: !args.stochastic,
+  }
+  if (args.sweep != null) {
+    if (environment !== 'cart-pole') {
+      throw new Error('Sweeps of physics are for the cart-pole only.')
+    }
+    const trainingPhysics = trainedPhysics || DEFAULT_CART_POLE_CONFIG
+    const sweep: PhysicsSweep = {
+      parameter: args.sweep,
+      scales: (args.scales as string).split(',').map(Number.parseFloat),
+    }
+    const points = await evaluateGeneralization(
+      agent,
+      physics || trainingPhysics,
+      trainingPhysics,
+      sweep,
+      args.maxSteps,
+      config
+    )
+    console.log(
+      `Evaluated ${config.numEpisodes} episode(s) per value of ` +
+        `${sweep.parameter} with ${args.stochastic ? 'sampled' : 'greedy'} ` +
+        `actions:`
+    )
+    for (const { value, seen, result } of points) {
+      const { stats } = result
+      console.log(
+        `  ${sweep.parameter}=${Number(value.toFixed(6))}` +
+          `${seen ? '' : ' (unseen)'}: mean=${stats.mean.toFixed(1)} ` +
+          `median=${stats.median} p10=${stats.p10.toFixed(1)}`
+      )
+    }
+    if (args.output != null) {
+      fs.writeFileSync(args.output, JSON.stringify(points, null, 2))
+      console.log(`Saved the results to ${args.output}`)
+    }
+    return
+  }
+
+  const result = await evaluate(
+    agent,
+    createEnv(environment, physics, args.maxSteps),
+    config
+  )
+  const { stats, endCounts } = result
+  console.log(
+    `Evaluated ${result.episodes.length} episode(s) in ${environment} ` +
+      `with ${args.stochastic ? 'sampled' : 'greedy'} actions:`
+  )
+  console.log(
+    `  steps: mean=${stats.mean.toFixed(1)} median=${stats.median} ` +
+      `min=${stats.min} p10=${stats.p10.toFixed(1)} ` +
+      `p90=${stats.p90.toFixed(1)} max=${stats.max}`
+  )
+  console.log(
+    `  ends: ${Object.keys(endCounts)
+      .map((end) => `${end}=${endCounts[end]}`)
+      .join(' ')}`
+  )
+  printHistogram(result.episodes.map((episode) => episode.steps))
+  if (args.output != null) {
+    fs.writeFileSync(args.output, JSON.stringify(result, null, 2))
+    console.log(`Saved the results to ${args.output}`)
+  }
+}
+
+if (require.main === module) {
+  main().catch((err) => {
+    console.error(err.message)
+    process.exit(1)
+  })
+}
@@ -0,0 +1,152 @@
+/**
+ * @license
+ * Copyright 2018 Google LLC. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ * =============================================================================
+ */
+
+import {
+  CartPoleConfig,
+  RANDOMIZED_PARAMETERS,
+  RandomizedParameter,
+} from './cart_pole'
+import { createEnv } from './environments'
+import {
+  EvaluationConfig,
+  EvaluationResult,
+  evaluate,
+} from './saveablePolicyNetwork/evaluation'
+import { PolicyNetwork } from './saveablePolicyNetwork/policyNetwork'
+import { QNetwork } from './saveablePolicyNetwork/qNetwork'
+
+/**
+ * A sweep of a physical parameter of the cart-pole, for evaluating how well a
+ * policy generalizes to physics that it was not trained on.
+ */
+export interface PhysicsSweep {
+  parameter: RandomizedParameter
+  // The values of the parameter, as multiples of its value in the physics of
+  // the evaluation.
+  scales: number[]
+}
+
+/**
+ * The evaluation of an agent at one value of a swept parameter.
+ */
+export interface SweepPoint {
+  value: number
+  // Whether the physics of the training covered the value: the value of the
+  // parameter, or its range of domain randomization.
+  seen: boolean
+  result: EvaluationResult
+}
+
+/**
+ * Check a sweep of a physical parameter.
+ *
+ * @param {PhysicsSweep} sweep
+ * @throws {Error} For an unknown parameter or invalid scales.
+ */
+export function checkPhysicsSweep(sweep: PhysicsSweep) {
+  if (RANDOMIZED_PARAMETERS.indexOf(sweep.parameter) === -1) {
+    throw new Error(
+      `Invalid swept parameter: ${sweep.parameter}. ` +
+        `Expected one of ${RANDOMIZED_PARAMETERS.join(', ')}.`
+    )
+  }
+  if (
+    sweep.scales.length === 0 ||
+    sweep.scales.some((scale) => !(scale > 0 && Number.isFinite(scale)))
+  ) {
+    throw new Error(`Invalid scales of sweep: [${sweep.scales}]`)
+  }
+}
+
+/**
+ * Determine whether the physics of a training covered a value of a
+ * parameter.
+ *
+ * @param {CartPoleConfig} trainingPhysics
+ * @param {RandomizedParameter} parameter
+ * @param {number} value
+ */
+export function isSeenInTraining(
+  trainingPhysics: CartPoleConfig,
+  parameter: RandomizedParameter,
+  value: number
+) {
+  const range = trainingPhysics.randomization[parameter]
+  const [min, max] =
+    range !== undefined
+      ? range
+      : [trainingPhysics[parameter], trainingPhysics[parameter]]
+  // Allow for the rounding of the scaled values.
+  const tolerance = 1e-9 * Math.max(Math.abs(min), Math.abs(max))
+  return value >= min - tolerance && value <= max + tolerance
+}
+
+/**
+ * Evaluate an agent on a sweep of a physical parameter of the cart-pole.
+ *
+ * Every value of the parameter gets an evaluation of its own, with the same
+ * seeded initial states (see `evaluate()`). The swept parameter is not
+ * randomized, but the rest of the physics, including the domain
+ * randomization of the other parameters, stays that of `physics`.
+ *
+ * @param {PolicyNetwork | QNetwork} agent
+ * @param {CartPoleConfig} physics The physics of the evaluation.
+ * @param {CartPoleConfig} trainingPhysics The physics that the agent was
+ *   trained on, which tell which values it has seen.
+ * @param {PhysicsSweep} sweep
+ * @param {number} maxEpisodeSteps The number of steps after which an episode
+ *   is truncated.
+ * @param {EvaluationConfig} config
+ * @param onPointEnd Called after the evaluation of every value.
+ * @param shouldStop Called after every episode. If it returns true, the sweep
+ *   stops and the results cover the values evaluated so far.
+ */
+export async function evaluateGeneralization(
+  agent: PolicyNetwork | QNetwork,
+  physics: CartPoleConfig,
+  trainingPhysics: CartPoleConfig,
+  sweep: PhysicsSweep,
+  maxEpisodeSteps: number,
+  config: EvaluationConfig,
+  onPointEnd: (pointCount: number, totalPoints: number) => void = () => {},
+  shouldStop: () => boolean = () => false
+): Promise<SweepPoint[]> {
+  checkPhysicsSweep(sweep)
+  const { parameter, scales } = sweep
+  const points: SweepPoint[] = []
+  for (const scale of scales) {
+    const value = physics[parameter] * scale
+    const randomization = { ...physics.randomization }
+    delete randomization[parameter]
+    const env = createEnv(
+      'cart-pole',
+      { ...physics, [parameter]: value, randomization },
+      maxEpisodeSteps
+    )
+    const result = await evaluate(agent, env, config, () => {}, shouldStop)
+    points.push({
+      value,
+      seen: isSeenInTraining(trainingPhysics, parameter, value),
+      result,
+    })
+    onPointEnd(points.length, scales.length)
+    if (shouldStop()) {
+      break
+    }
+  }
+  return points
+}
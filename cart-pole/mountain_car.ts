@@ -0,0 +1,225 @@
+/**
+ * @license
+ * Copyright 2018 Google LLC. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ * =============================================================================
+ */
+
+/**
+ * Implementation based on the MountainCar environment of OpenAI Gym:
+ *   https://github.com/openai/gym/blob/master/gym/envs/classic_control/mountain_car.py
+ * which follows: Moore, "Efficient Memory-based Learning for Robot Control",
+ * Ph.D. Dissertation, University of Cambridge, 1990.
+ */
+
+import * as tf from '@tensorflow/tfjs'
+import { RenderableSystem } from './renderableSystem'
+import { boxSpace, discreteSpace } from './saveablePolicyNetwork/env'
+import { clip, random } from './utils'
+
+/**
+ * Mountain-car system simulator.
+ *
+ * An underpowered car sits in a valley between two hills. The goal is to
+ * drive up the right hill, which takes swinging back and forth to build up
+ * momentum first.
+ *
+ * There are two state variables in this system:
+ *
+ *   - position: The 1D location of the car. The bottom of the valley is at
+ *     about -0.52.
+ *   - velocity: The velocity of the car.
+ *
+ * The system is controlled through a single action:
+ *
+ *   - leftward or rightward push.
+ */
+export class MountainCar implements RenderableSystem {
+  // The position and the velocity are clipped.
+  readonly observationSpace = boxSpace([-1.2, -0.07], [0.6, 0.07])
+  // Leftward or rightward push.
+  readonly actionSpace = discreteSpace(2)
+  // Every step until the goal is reached is penalized.
+  readonly stepReward = -1
+
+  // Constants that characterize the system.
+  private minPosition: number
+  private maxPosition: number
+  private maxSpeed: number
+  private goalPosition: number
+  private force: number
+  private gravity: number
+
+  // The state variables of the mountain car.
+  private position: number
+  private velocity: number
+
+  /**
+   * Constructor of MountainCar.
+   */
+  constructor() {
+    // Constants that characterize the system.
+    this.minPosition = -1.2
+    this.maxPosition = 0.6
+    this.maxSpeed = 0.07
+    this.goalPosition = 0.5
+    this.force = 0.001
+    this.gravity = 0.0025
+
+    this.position = 0
+    this.velocity = 0
+    this.setRandomState()
+  }
+
+  /**
+   * Set the state of the mountain car randomly, at rest near the bottom of
+   * the valley.
+   */
+  setRandomState() {
+    this.position = -0.6 + random() * 0.2
+    this.velocity = 0
+  }
+
+  /**
+   * Get current state as an Array of the two state variables.
+   */
+  getState() {
+    return [this.position, this.velocity]
+  }
+
+  getSnapshot() {
+    return this.getState()
+  }
+
+  setSnapshot(snapshot: number[]) {
+    this.position = snapshot[0]
+    this.velocity = snapshot[1]
+  }
+
+  /**
+   * Get current state as a tf.Tensor of shape [1, 2].
+   */
+  getStateTensor() {
+    return tf.tensor2d([this.getState()])
+  }
+
+  /**
+   * Update the mountain car using an action.
+   *
+   * @param action Only the sign of `action` matters.
+   *   A value > 0 leads to a rightward push of a fixed magnitude.
+   *   A value <= 0 leads to a leftward push of the same fixed magnitude.
+   * @returns Whether the goal has been reached.
+   */
+  update(action: number) {
+    const push = action > 0 ? this.force : -this.force
+    this.velocity += push - Math.cos(3 * this.position) * this.gravity
+    this.velocity = clip(this.velocity, this.maxSpeed)
+    this.position += this.velocity
+    if (this.position < this.minPosition) {
+      // The car stops against the wall on the left.
+      this.position = this.minPosition
+      this.velocity = 0
+    }
+    this.position = Math.min(this.maxPosition, this.position)
+    return this.isDone()
+  }
+
+  /**
+   * Determine whether this simulation is done.
+   *
+   * A simulation is done when the car reaches the flag on the right hill.
+   *
+   * @returns Whether the simulation is done.
+   */
+  isDone() {
+    return this.position >= this.goalPosition
+  }
+
+  /**
+   * Height of the hills at a position.
+   */
+  private height(position: number) {
+    return Math.sin(3 * position) * 0.45 + 0.55
+  }
+
+  /**
+   * Render the current state of the system on an HTML canvas.
+   *
+   * @param {HTMLCanvasElement} canvas The instance of HTMLCanvasElement on which
+   *   the rendering will happen.
+   */
+  render(canvas: HTMLCanvasElement) {
+    if (!canvas.style.display) {
+      canvas.style.display = 'block'
+    }
+    const context = canvas.getContext('2d')
+    if (context === null) {
+      throw new Error('Where did the canvas go?')
+    }
+    context.clearRect(0, 0, canvas.width, canvas.height)
+
+    const scaleX = canvas.width / (this.maxPosition - this.minPosition)
+    // The hills are between 0.1 and 1.0 high.
+    const scaleY = (canvas.height * 0.8) / 1.0
+    const toCanvasX = (position: number) =>
+      (position - this.minPosition) * scaleX
+    const toCanvasY = (height: number) => canvas.height - 4 - height * scaleY
+
+    // Draw the hills.
+    context.beginPath()
+    context.strokeStyle = '#000000'
+    context.lineWidth = 2
+    const nPoints = 100
+    for (let i = 0; i <= nPoints; ++i) {
+      const position =
+        this.minPosition + ((this.maxPosition - this.minPosition) * i) / nPoints
+      const x = toCanvasX(position)
+      const y = toCanvasY(this.height(position))
+      if (i === 0) {
+        context.moveTo(x, y)
+      } else {
+        context.lineTo(x, y)
+      }
+    }
+    context.stroke()
+
+    // Draw the flag.
+    const flagX = toCanvasX(this.goalPosition)
+    const flagY = toCanvasY(this.height(this.goalPosition))
+    context.beginPath()
+    context.strokeStyle = '#ff0000'
+    context.lineWidth = 2
+    context.moveTo(flagX, flagY)
+    context.lineTo(flagX, flagY - 20)
+    context.lineTo(flagX + 12, flagY - 15)
+    context.lineTo(flagX, flagY - 10)
+    context.stroke()
+
+    // Draw the car, tilted along the slope.
+    const carX = toCanvasX(this.position)
+    const carY = toCanvasY(this.height(this.position))
+    const slope = Math.cos(3 * this.position) * 3 * 0.45
+    const angle = -Math.atan((slope * scaleY) / scaleX)
+    const carW = 24
+    const carH = 10
+    context.save()
+    context.translate(carX, carY)
+    context.rotate(angle)
+    context.beginPath()
+    context.fillStyle = '#ffa500'
+    context.rect(-carW / 2, -carH - 3, carW, carH)
+    context.fill()
+    context.restore()
+  }
+}
@@ -0,0 +1,208 @@
+/**
+ * @license
+ * Copyright 2018 Google LLC. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ * =============================================================================
+ */
+
+/**
+ * Implementation based on the Pendulum environment of OpenAI Gym:
+ *   https://github.com/openai/gym/blob/master/gym/envs/classic_control/pendulum.py
+ * with two discrete actions instead of a continuous torque.
+ */
+
+import * as tf from '@tensorflow/tfjs'
+import { RenderableSystem } from './renderableSystem'
+import { boxSpace, discreteSpace } from './saveablePolicyNetwork/env'
+import { clip, random, wrapAngle } from './utils'
+
+/**
+ * Pendulum system simulator.
+ *
+ * A pendulum hangs from a pivot, which is driven by a motor too weak to lift
+ * the pendulum directly. The goal is to swing the pendulum up, so that it
+ * comes to the upright position slowly enough to be caught there.
+ *
+ * There are two state variables in this system:
+ *
+ *   - theta: The angle of the pendulum (in radians). A value of 0 corresponds
+ *     to the upright position.
+ *   - thetaDot: The angular velocity of the pendulum.
+ *
+ * The observation of the state is `[cos(theta), sin(theta), thetaDot]`, which
+ * avoids the discontinuity of the angle at +/-pi.
+ *
+ * The system is controlled through a single action:
+ *
+ *   - negative or positive torque of a fixed magnitude.
+ */
+export class Pendulum implements RenderableSystem {
+  // The velocity is clipped, the other numbers are a cosine and a sine.
+  readonly observationSpace = boxSpace([-1, -1, -8], [1, 1, 8])
+  // Negative or positive torque.
+  readonly actionSpace = discreteSpace(2)
+  // Every step until the goal is reached is penalized.
+  readonly stepReward = -1
+
+  // Constants that characterize the system.
+  private gravity: number
+  private mass: number
+  private length: number
+  private maxSpeed: number
+  private torqueMag: number
+  private tau: number
+
+  // Threshold values, within which the pendulum counts as swung up.
+  private thetaGoal: number
+  private thetaDotGoal: number
+
+  // The state variables of the pendulum.
+  private theta: number
+  private thetaDot: number
+
+  /**
+   * Constructor of Pendulum.
+   */
+  constructor() {
+    // Constants that characterize the system.
+    this.gravity = 10.0
+    this.mass = 1.0
+    this.length = 1.0
+    this.maxSpeed = 8.0
+    this.torqueMag = 2.0
+    this.tau = 0.05 // Seconds between state updates.
+
+    // Threshold values, within which the pendulum counts as swung up.
+    this.thetaGoal = (15 / 360) * 2 * Math.PI
+    this.thetaDotGoal = 3
+
+    this.theta = Math.PI
+    this.thetaDot = 0
+    this.setRandomState()
+  }
+
+  /**
+   * Set the state of the pendulum randomly, in the lower half of the circle.
+   */
+  setRandomState() {
+    this.theta = wrapAngle(Math.PI + (random() - 0.5) * Math.PI)
+    this.thetaDot = (random() - 0.5) * 2
+  }
+
+  /**
+   * Get the current observation as an Array of three numbers.
+   */
+  getState() {
+    return [Math.cos(this.theta), Math.sin(this.theta), this.thetaDot]
+  }
+
+  getSnapshot() {
+    return [this.theta, this.thetaDot]
+  }
+
+  setSnapshot(snapshot: number[]) {
+    this.theta = snapshot[0]
+    this.thetaDot = snapshot[1]
+  }
+
+  /**
+   * Get the current observation as a tf.Tensor of shape [1, 3].
+   */
+  getStateTensor() {
+    return tf.tensor2d([this.getState()])
+  }
+
+  /**
+   * Update the pendulum using an action.
+   *
+   * @param action Only the sign of `action` matters.
+   *   A value > 0 leads to a positive torque of a fixed magnitude.
+   *   A value <= 0 leads to a negative torque of the same fixed magnitude.
+   * @returns Whether the goal has been reached.
+   */
+  update(action: number) {
+    const torque = action > 0 ? this.torqueMag : -this.torqueMag
+    const thetaAcc =
+      ((3 * this.gravity) / (2 * this.length)) * Math.sin(this.theta) +
+      (3 / (this.mass * this.length * this.length)) * torque
+
+    // Semi-implicit Euler, like the Gym environment.
+    this.thetaDot = clip(this.thetaDot + thetaAcc * this.tau, this.maxSpeed)
+    this.theta = wrapAngle(this.theta + this.thetaDot * this.tau)
+    return this.isDone()
+  }
+
+  /**
+   * Determine whether this simulation is done.
+   *
+   * A simulation is done when the pendulum is close to upright and slow.
+   *
+   * @returns Whether the simulation is done.
+   */
+  isDone() {
+    return (
+      Math.abs(this.theta) < this.thetaGoal &&
+      Math.abs(this.thetaDot) < this.thetaDotGoal
+    )
+  }
+
+  /**
+   * Render the current state of the system on an HTML canvas.
+   *
+   * @param {HTMLCanvasElement} canvas The instance of HTMLCanvasElement on which
+   *   the rendering will happen.
+   */
+  render(canvas: HTMLCanvasElement) {
+    if (!canvas.style.display) {
+      canvas.style.display = 'block'
+    }
+    const context = canvas.getContext('2d')
+    if (context === null) {
+      throw new Error('Where did the canvas go?')
+    }
+    context.clearRect(0, 0, canvas.width, canvas.height)
+
+    const scale = canvas.height / (2 * this.length + 0.4)
+    const pivotX = canvas.width / 2
+    const pivotY = canvas.height / 2
+
+    // Draw the goal region around the upright position.
+    context.beginPath()
+    context.fillStyle = '#ffdddd'
+    context.moveTo(pivotX, pivotY)
+    context.arc(
+      pivotX,
+      pivotY,
+      this.length * scale,
+      -Math.PI / 2 - this.thetaGoal,
+      -Math.PI / 2 + this.thetaGoal
+    )
+    context.fill()
+
+    // Draw the pendulum. The angle is measured from the upright position.
+    const tipX = pivotX + Math.sin(this.theta) * this.length * scale
+    const tipY = pivotY - Math.cos(this.theta) * this.length * scale
+    context.beginPath()
+    context.strokeStyle = '#ffa500'
+    context.lineWidth = 6
+    context.moveTo(pivotX, pivotY)
+    context.lineTo(tipX, tipY)
+    context.stroke()
+
+    // Draw the pivot.
+    context.beginPath()
+    context.fillStyle = '#000000'
+    context.arc(pivotX, pivotY, 4, 0, 2 * Math.PI)
+    context.fill()
+  }
+}
@@ -4,5 +4,19 @@ import { System } from './saveablePolicyNetwork/system'
  * Abstract class definition that the simulated model must adhere to
  */
 export abstract class RenderableSystem extends System {
+  /**
+   * Get the current state as an Array of numbers: the same numbers as those of
+   * `getStateTensor()`.
+   */
+  abstract getState(): number[]
+  /**
+   * Get a snapshot of the current state: the numbers that `render()` needs,
+   * e.g., to render the system in another thread with `setSnapshot()`.
+   */
+  abstract getSnapshot(): number[]
+  /**
+   * Restore a snapshot of `getSnapshot()`.
+   */
+  abstract setSnapshot(snapshot: number[]): void
   abstract render(canvas: HTMLCanvasElement): void
 }
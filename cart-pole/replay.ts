@@ -0,0 +1,83 @@
+/**
+ * @license
+ * Copyright 2018 Google LLC. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ * =============================================================================
+ */
+
+import { CartPoleDisturbance, checkCartPoleDisturbance } from './cart_pole'
+
+/**
+ * A disturbance of a cart-pole test and when it happened.
+ */
+export interface DisturbanceRecord extends CartPoleDisturbance {
+  // The number of steps of the episode before the disturbance: 0 for a
+  // disturbance of the initial state.
+  step: number
+}
+
+/**
+ * The disturbances of a cart-pole test, which replay it.
+ *
+ * With the same seed, the test starts from the same initial state and draws
+ * the same random numbers, e.g., for sampling actions. So a test with the same
+ * agent and settings that applies the same disturbances at the same steps
+ * plays the same episode.
+ */
+export interface DisturbanceLog {
+  seed: number
+  // In the order of their application, i.e., of their steps.
+  disturbances: DisturbanceRecord[]
+}
+
+/**
+ * Check the disturbances of a cart-pole test.
+ *
+ * @param {DisturbanceLog} log
+ * @throws {Error} For an invalid seed, disturbance or step.
+ */
+export function checkDisturbanceLog(log: DisturbanceLog) {
+  if (log == null || !Array.isArray(log.disturbances)) {
+    throw new Error(`Invalid disturbance log: ${JSON.stringify(log)}`)
+  }
+  if (!Number.isInteger(log.seed)) {
+    throw new Error(`Invalid seed of disturbance log: ${log.seed}`)
+  }
+  let previousStep = 0
+  for (const disturbance of log.disturbances) {
+    checkCartPoleDisturbance(disturbance)
+    const { step } = disturbance
+    if (!(Number.isInteger(step) && step >= previousStep)) {
+      throw new Error(`Invalid step of disturbance: ${step}`)
+    }
+    previousStep = step
+  }
+}
+
+/**
+ * Parse the disturbances of a cart-pole test from JSON, as written by
+ * `JSON.stringify()`.
+ *
+ * @param {string} json
+ * @throws {Error} If `json` is not a valid disturbance log.
+ */
+export function parseDisturbanceLog(json: string): DisturbanceLog {
+  let log: DisturbanceLog
+  try {
+    log = JSON.parse(json)
+  } catch (err) {
+    throw new Error(`Invalid disturbance log: ${err.message}`)
+  }
+  checkDisturbanceLog(log)
+  return log
+}
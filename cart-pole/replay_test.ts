@@ -0,0 +1,88 @@
+/**
+ * @license
+ * Copyright 2018 Google LLC. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ * =============================================================================
+ */
+
+import { DisturbanceLog, parseDisturbanceLog } from './replay'
+
+// A test in which the pole was pushed twice and the cart once.
+const LOG: DisturbanceLog = {
+  seed: 42,
+  disturbances: [
+    { step: 0, target: 'pole', velocity: 0.5 },
+    { step: 12, target: 'cart', velocity: -1 },
+    { step: 12, target: 'pole', velocity: -0.25 },
+  ],
+}
+
+describe('parseDisturbanceLog', () => {
+  it('parses a log written by JSON.stringify()', () => {
+    expect(parseDisturbanceLog(JSON.stringify(LOG))).toEqual(LOG)
+    expect(parseDisturbanceLog('{"seed": 1, "disturbances": []}')).toEqual({
+      seed: 1,
+      disturbances: [],
+    })
+  })
+
+  it('rejects malformed logs', () => {
+    const disturbance = LOG.disturbances[1]
+    const invalid: Array<[string, RegExp]> = [
+      ['{"seed": 1,', /Invalid disturbance log/],
+      ['null', /Invalid disturbance log/],
+      ['{"seed": 1}', /Invalid disturbance log/],
+      ['{"seed": 1.5, "disturbances": []}', /Invalid seed/],
+      ['{"disturbances": []}', /Invalid seed/],
+      [
+        JSON.stringify({
+          seed: 1,
+          disturbances: [{ ...disturbance, target: 'track' }],
+        }),
+        /Invalid disturbance/,
+      ],
+      [
+        JSON.stringify({
+          seed: 1,
+          disturbances: [{ step: 3, target: 'cart' }],
+        }),
+        /Invalid velocity of disturbance/,
+      ],
+      [
+        JSON.stringify({
+          seed: 1,
+          disturbances: [{ ...disturbance, step: -1 }],
+        }),
+        /Invalid step of disturbance: -1/,
+      ],
+      [
+        JSON.stringify({
+          seed: 1,
+          disturbances: [{ ...disturbance, step: 2.5 }],
+        }),
+        /Invalid step of disturbance: 2.5/,
+      ],
+      // The disturbances are in the order of their steps.
+      [
+        JSON.stringify({
+          seed: 1,
+          disturbances: [disturbance, { ...disturbance, step: 11 }],
+        }),
+        /Invalid step of disturbance: 11/,
+      ],
+    ]
+    for (const [json, error] of invalid) {
+      expect(() => parseDisturbanceLog(json)).toThrowError(error)
+    }
+  })
+})
@@ -0,0 +1,151 @@
+import * as tf from '@tensorflow/tfjs'
+
+import { Env, VectorEnv, getSpaceSize } from './env'
+import { PolicyNetwork } from './policyNetwork'
+import {
+  concatEpisodes,
+  createValueNetwork,
+  estimateAdvantages,
+  normalize,
+  playEpisodes,
+} from './rollouts'
+import { Trainer } from './trainer'
+
+/**
+ * Advantage actor-critic (A2C) trainer of a policy network.
+ *
+ * Unlike REINFORCE (`PolicyNetwork.train()`), which normalizes the discounted
+ * returns with their mean and standard deviation across the whole batch of
+ * games, this trainer learns a value network (the "critic") and uses its
+ * estimates as the baseline for the policy-gradient update of the policy
+ * network (the "actor").
+ */
+export class ActorCriticTrainer implements Trainer {
+  public policyNetwork: PolicyNetwork
+  // The critic. Unless an existing one is given, created on first use, when
+  // the observation size is known.
+  public valueNet: tf.LayersModel | null
+  // The optimizer of the critic, whose state is saved along with it.
+  public readonly criticOptimizer: tf.Optimizer
+  private criticHiddenLayerSizes: number[]
+  private gaeLambda: number
+
+  /**
+   * Constructor of ActorCriticTrainer.
+   *
+   * @param {PolicyNetwork} policyNetwork The policy network to train.
+   * @param {number[]} criticHiddenLayerSizes Sizes of the hidden layers of the
+   *   value network.
+   * @param {number} criticLearningRate Learning rate of the value network.
+   * @param {number} gaeLambda Lambda of generalized advantage estimation: a
+   *   number between 0 and 1.
+   * @param {tf.LayersModel | null} valueNet An existing value network to go
+   *   on training, e.g., a saved one. The trainer takes it over.
+   * @param {tf.Optimizer | null} criticOptimizer An optimizer of the value
+   *   network to use instead of an Adam optimizer with `criticLearningRate`,
+   *   e.g., one with a restored state. The trainer takes it over.
+   */
+  constructor({
+    policyNetwork,
+    criticHiddenLayerSizes,
+    criticLearningRate,
+    gaeLambda,
+    valueNet = null,
+    criticOptimizer = null,
+  }: {
+    policyNetwork: PolicyNetwork
+    criticHiddenLayerSizes: number[]
+    criticLearningRate: number
+    gaeLambda: number
+    valueNet?: tf.LayersModel | null
+    criticOptimizer?: tf.Optimizer | null
+  }) {
+    if (!(gaeLambda >= 0 && gaeLambda <= 1)) {
+      throw new Error(`Invalid GAE lambda: ${gaeLambda}`)
+    }
+    this.policyNetwork = policyNetwork
+    this.valueNet = valueNet
+    this.criticHiddenLayerSizes = criticHiddenLayerSizes
+    this.criticOptimizer =
+      criticOptimizer !== null
+        ? criticOptimizer
+        : tf.train.adam(criticLearningRate)
+    this.gaeLambda = gaeLambda
+  }
+
+  /**
+   * Train the policy network and the value network.
+   *
+   * See `Trainer.train()` for the parameters. The `optimizer` is used for the
+   * policy network; the value network has an optimizer of its own.
+   */
+  async train<E extends Env | VectorEnv>(
+    env: E,
+    optimizer: tf.Optimizer,
+    discountRate: number,
+    numGames: number,
+    render: (env: E) => Promise<void>,
+    onGameEnd: (gameCount: number, totalGames: number) => void
+  ) {
+    const valueNet = this.getValueNet(getSpaceSize(env.observationSpace))
+    const episodes = await playEpisodes(
+      env,
+      this.policyNetwork,
+      numGames,
+      render,
+      onGameEnd
+    )
+
+    const { advantages, returns } = estimateAdvantages(
+      valueNet,
+      episodes,
+      discountRate,
+      this.gaeLambda
+    )
+
+    tf.tidy(() => {
+      const { states: stateArrays, actions } = concatEpisodes(episodes)
+      const states = tf.tensor2d(stateArrays)
+      const actionsTensor = tf.tensor1d(actions)
+      // Normalizing the advantages keeps the size of the policy update
+      // independent of the scale of the rewards.
+      const normalizedAdvantages = normalize(tf.tensor1d(advantages))
+
+      optimizer.minimize(() => {
+        const outputs = this.policyNetwork.policyNet.predict(
+          states
+        ) as tf.Tensor2D
+        const logProbs = this.policyNetwork.logProbabilities(
+          outputs,
+          actionsTensor
+        )
+        return tf.mean(logProbs.neg().mul(normalizedAdvantages)).asScalar()
+      })
+
+      const returnsTensor = tf.tensor1d(returns)
+      this.criticOptimizer.minimize(() => {
+        const values = (valueNet.predict(states) as tf.Tensor2D).reshape([-1])
+        return tf.losses.meanSquaredError(returnsTensor, values).asScalar()
+      })
+    })
+    return episodes.map((episode) => episode.rewards.length)
+  }
+
+  private getValueNet(inputSize: number) {
+    if (this.valueNet === null) {
+      this.valueNet = createValueNetwork(this.criticHiddenLayerSizes, inputSize)
+    }
+    return this.valueNet
+  }
+
+  /**
+   * Dispose the value network and its optimizer.
+   */
+  dispose() {
+    if (this.valueNet !== null) {
+      this.valueNet.dispose()
+      this.valueNet = null
+    }
+    this.criticOptimizer.dispose()
+  }
+}
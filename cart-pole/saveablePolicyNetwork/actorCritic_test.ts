@@ -0,0 +1,133 @@
+import * as tf from '@tensorflow/tfjs'
+
+import { DEFAULT_CART_POLE_CONFIG } from '../cart_pole'
+import { createEnv } from '../environments'
+import { seedRandom } from '../utils'
+import {
+  TrainerConfig,
+  createTrainer,
+  disposeTrainer,
+  getValueNetwork,
+  getValueOptimizer,
+} from './algorithms'
+import { PolicyNetwork } from './policyNetwork'
+import { createValueNetwork } from './rollouts'
+
+describe('ActorCriticTrainer', () => {
+  afterEach(() => seedRandom(null))
+
+  it('goes on training the value network it is given', async () => {
+    seedRandom(1)
+    const policyNetwork = new PolicyNetwork({
+      sizes: { hiddenLayerSizes: 8, inputSize: 4, outputSize: 1 },
+    })
+    const valueNet = createValueNetwork([8], 4)
+    const weights = valueNet.getWeights().map((w) => w.dataSync())
+    const trainer = await createTrainer(
+      policyNetwork,
+      {
+        algorithm: 'actor-critic',
+        criticHiddenLayerSizes: [8],
+        criticLearningRate: 0.01,
+        gaeLambda: 0.95,
+      },
+      valueNet
+    )
+    const optimizer = tf.train.adam(0.01)
+    const env = createEnv('cart-pole', DEFAULT_CART_POLE_CONFIG, 20)
+    await trainer.train(
+      env,
+      optimizer,
+      0.95,
+      2,
+      async () => {},
+      () => {}
+    )
+    expect(getValueNetwork(trainer)).toBe(valueNet)
+    valueNet.getWeights().forEach((weight, i) => {
+      if (weight.rank === 2) {
+        expect(weight.dataSync()).not.toEqual(weights[i])
+      }
+    })
+    optimizer.dispose()
+    valueNet.dispose()
+    policyNetwork.policyNet.dispose()
+  })
+
+  it('creates a value network if it is given none', async () => {
+    seedRandom(1)
+    const policyNetwork = new PolicyNetwork({
+      sizes: { hiddenLayerSizes: 8, inputSize: 4, outputSize: 1 },
+    })
+    const trainer = await createTrainer(policyNetwork, {
+      algorithm: 'actor-critic',
+      criticHiddenLayerSizes: [8],
+      criticLearningRate: 0.01,
+      gaeLambda: 0.95,
+    })
+    expect(getValueNetwork(trainer)).toBeNull()
+    const optimizer = tf.train.adam(0.01)
+    const env = createEnv('cart-pole', DEFAULT_CART_POLE_CONFIG, 20)
+    await trainer.train(
+      env,
+      optimizer,
+      0.95,
+      1,
+      async () => {},
+      () => {}
+    )
+    const valueNet = getValueNetwork(trainer) as tf.LayersModel
+    expect(valueNet.inputs[0].shape).toEqual([null, 4])
+    optimizer.dispose()
+    valueNet.dispose()
+    policyNetwork.policyNet.dispose()
+  })
+
+  it('takes over the state of the optimizer of the value network', async () => {
+    seedRandom(1)
+    const policyNetwork = new PolicyNetwork({
+      sizes: { hiddenLayerSizes: 8, inputSize: 4, outputSize: 1 },
+    })
+    const config: TrainerConfig = {
+      algorithm: 'actor-critic',
+      criticHiddenLayerSizes: [8],
+      criticLearningRate: 0.01,
+      gaeLambda: 0.95,
+    }
+    const trainer = await createTrainer(policyNetwork, config)
+    const optimizer = tf.train.adam(0.01)
+    const env = createEnv('cart-pole', DEFAULT_CART_POLE_CONFIG, 20)
+    await trainer.train(
+      env,
+      optimizer,
+      0.95,
+      1,
+      async () => {},
+      () => {}
+    )
+    const valueOptimizer = getValueOptimizer(trainer) as tf.Optimizer
+    const weights = await valueOptimizer.getWeights()
+    // A saved state, as `loadValueOptimizer()` loads it.
+    const savedOptimizer = tf.train.adam()
+    await savedOptimizer.setWeights(weights)
+
+    const valueNet = createValueNetwork([8], 4)
+    const resumed = await createTrainer(
+      policyNetwork,
+      config,
+      valueNet,
+      savedOptimizer
+    )
+    const resumedWeights = await (
+      getValueOptimizer(resumed) as tf.Optimizer
+    ).getWeights()
+    expect(resumedWeights.length).toEqual(weights.length)
+    resumedWeights.forEach(({ tensor }, i) => {
+      expect(tensor.dataSync()).toEqual(weights[i].tensor.dataSync())
+    })
+    disposeTrainer(trainer)
+    disposeTrainer(resumed)
+    optimizer.dispose()
+    policyNetwork.policyNet.dispose()
+  })
+})
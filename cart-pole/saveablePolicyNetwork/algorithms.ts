@@ -0,0 +1,246 @@
+import * as tf from '@tensorflow/tfjs'
+
+import { ActorCriticTrainer } from './actorCritic'
+import { createOptimizer, loadOptimizerState } from './optimizerState'
+import { OptimizerConfig } from './optimizers'
+import {
+  DEFAULT_POLICY_GRADIENT_CONFIG,
+  PolicyGradientConfig,
+  PolicyNetwork,
+  checkPolicyGradientConfig,
+} from './policyNetwork'
+import { PPOTrainer } from './ppo'
+import { Trainer } from './trainer'
+import { TrainingHyperparameters } from './trainingMetadata'
+
+/**
+ * The algorithms that a policy network can be trained with.
+ */
+export type TrainingAlgorithm = 'reinforce' | 'actor-critic' | 'ppo'
+
+export const TRAINING_ALGORITHMS: TrainingAlgorithm[] = [
+  'reinforce',
+  'actor-critic',
+  'ppo',
+]
+
+/**
+ * Configuration of the trainer of a policy network.
+ */
+export interface TrainerConfig {
+  algorithm: TrainingAlgorithm
+  // Used by 'actor-critic' and 'ppo'.
+  criticHiddenLayerSizes: number[]
+  // Used by 'actor-critic' and 'ppo', whose value networks have optimizers of
+  // their own.
+  criticLearningRate: number
+  // Used by 'actor-critic' and 'ppo'.
+  gaeLambda: number
+  // Only used by 'ppo'. See `PPOTrainer` for the defaults.
+  clipRatio?: number
+  epochs?: number
+  minibatchSize?: number
+  // Only used by 'reinforce'. See `DEFAULT_POLICY_GRADIENT_CONFIG` for the
+  // defaults.
+  policyGradient?: PolicyGradientConfig
+}
+
+// The optimizer of the value networks of 'actor-critic' and 'ppo'.
+const VALUE_OPTIMIZER_CONFIG: OptimizerConfig = { name: 'adam' }
+
+/**
+ * Check that a string names a training algorithm.
+ *
+ * @param {string} algorithm
+ * @throws {Error} If `algorithm` is not one of `TRAINING_ALGORITHMS`.
+ */
+export function parseTrainingAlgorithm(algorithm: string) {
+  if (TRAINING_ALGORITHMS.indexOf(algorithm as TrainingAlgorithm) === -1) {
+    throw new Error(
+      `Invalid training algorithm: ${algorithm}. ` +
+        `Expected one of ${TRAINING_ALGORITHMS.join(', ')}.`
+    )
+  }
+  return algorithm as TrainingAlgorithm
+}
+
+/**
+ * Get the regularization and gradient clipping of a 'reinforce'
+ * configuration.
+ *
+ * @param {TrainerConfig} config
+ * @throws {Error} If any of the settings is invalid.
+ */
+function getPolicyGradientConfig(config: TrainerConfig) {
+  const policyGradient = config.policyGradient || DEFAULT_POLICY_GRADIENT_CONFIG
+  checkPolicyGradientConfig(policyGradient)
+  return policyGradient
+}
+
+/**
+ * Create the trainer of a policy network.
+ *
+ * REINFORCE is implemented by the policy network itself, which is configured
+ * with `config.policyGradient`.
+ *
+ * @param {PolicyNetwork} policyNetwork The policy network to train.
+ * @param {TrainerConfig} config
+ * @param {tf.LayersModel | null} valueNet An existing value network, e.g.,
+ *   the saved one of an earlier round of training, for 'actor-critic' and
+ *   'ppo' to take over. Ignored by 'reinforce'.
+ * @param {tf.Optimizer | null} valueOptimizer The optimizer of `valueNet`,
+ *   e.g., one loaded by `loadValueOptimizer()`, whose state 'actor-critic'
+ *   and 'ppo' take over. It is disposed, except by 'reinforce', which ignores
+ *   it.
+ * @throws {Error} If the regularization or gradient clipping of REINFORCE is
+ *   invalid.
+ */
+export async function createTrainer(
+  policyNetwork: PolicyNetwork,
+  config: TrainerConfig,
+  valueNet: tf.LayersModel | null = null,
+  valueOptimizer: tf.Optimizer | null = null
+): Promise<Trainer> {
+  if (config.algorithm === 'reinforce') {
+    policyNetwork.policyGradientConfig = getPolicyGradientConfig(config)
+    return policyNetwork
+  }
+  // The learning rate is that of `config`, whatever it was before.
+  const optimizer = await createOptimizer(
+    VALUE_OPTIMIZER_CONFIG,
+    config.criticLearningRate,
+    valueOptimizer
+  )
+  switch (config.algorithm) {
+    case 'actor-critic':
+      return new ActorCriticTrainer({
+        policyNetwork,
+        criticHiddenLayerSizes: config.criticHiddenLayerSizes,
+        criticLearningRate: config.criticLearningRate,
+        gaeLambda: config.gaeLambda,
+        valueNet,
+        criticOptimizer: optimizer,
+      })
+    case 'ppo':
+      return new PPOTrainer({
+        policyNetwork,
+        valueHiddenLayerSizes: config.criticHiddenLayerSizes,
+        valueLearningRate: config.criticLearningRate,
+        gaeLambda: config.gaeLambda,
+        clipRatio: config.clipRatio,
+        epochs: config.epochs,
+        minibatchSize: config.minibatchSize,
+        valueNet,
+        valueOptimizer: optimizer,
+      })
+  }
+}
+
+/**
+ * Load the saved state of the optimizer of a value network, for
+ * `createTrainer()` to take over.
+ *
+ * @param {string} url The URL that the state was saved to with
+ *   `saveOptimizerState()`.
+ * @returns An optimizer with the state, whose learning rate is that of
+ *   `createTrainer()`.
+ */
+export async function loadValueOptimizer(url: string) {
+  const optimizer = await createOptimizer(VALUE_OPTIMIZER_CONFIG, 1e-3, null)
+  try {
+    await loadOptimizerState(optimizer, url)
+  } catch (err) {
+    optimizer.dispose()
+    throw err
+  }
+  return optimizer
+}
+
+/**
+ * Get the hyperparameters of a trainer configuration that apply to its
+ * algorithm, for the training metadata.
+ *
+ * @param {TrainerConfig} config
+ */
+export function getAlgorithmHyperparameters(config: TrainerConfig) {
+  switch (config.algorithm) {
+    case 'reinforce':
+      return getPolicyGradientHyperparameters(config)
+    case 'actor-critic':
+      return {
+        algorithm: config.algorithm,
+        criticLearningRate: config.criticLearningRate,
+        gaeLambda: config.gaeLambda,
+      }
+    case 'ppo':
+      return {
+        algorithm: config.algorithm,
+        criticLearningRate: config.criticLearningRate,
+        gaeLambda: config.gaeLambda,
+        clipRatio: config.clipRatio,
+        epochs: config.epochs,
+        minibatchSize: config.minibatchSize,
+      }
+  }
+}
+
+/**
+ * Get the hyperparameters of REINFORCE, for the training metadata.
+ *
+ * @param {TrainerConfig} config A 'reinforce' configuration.
+ */
+function getPolicyGradientHyperparameters(config: TrainerConfig) {
+  const { entropyCoefficient, gradientClipNorm, gradientClipValue } =
+    getPolicyGradientConfig(config)
+  const hyperparameters: Partial<TrainingHyperparameters> = {
+    algorithm: config.algorithm,
+    entropyCoefficient,
+  }
+  if (gradientClipNorm !== null) {
+    hyperparameters.gradientClipNorm = gradientClipNorm
+  }
+  if (gradientClipValue !== null) {
+    hyperparameters.gradientClipValue = gradientClipValue
+  }
+  return hyperparameters
+}
+
+/**
+ * Get the value network of a trainer, if it has one.
+ *
+ * @param {Trainer} trainer A trainer created by `createTrainer()`.
+ * @returns The value network of 'actor-critic' and 'ppo', once they have
+ *   created or been given one; otherwise `null`.
+ */
+export function getValueNetwork(trainer: Trainer) {
+  return trainer instanceof ActorCriticTrainer || trainer instanceof PPOTrainer
+    ? trainer.valueNet
+    : null
+}
+
+/**
+ * Get the optimizer of the value network of a trainer, if it has one.
+ *
+ * @param {Trainer} trainer A trainer created by `createTrainer()`.
+ * @returns The optimizer of the value network of 'actor-critic' and 'ppo';
+ *   otherwise `null`.
+ */
+export function getValueOptimizer(trainer: Trainer) {
+  if (trainer instanceof ActorCriticTrainer) {
+    return trainer.criticOptimizer
+  } else if (trainer instanceof PPOTrainer) {
+    return trainer.valueOptimizer
+  }
+  return null
+}
+
+/**
+ * Dispose what a trainer holds in addition to the policy network it trains.
+ *
+ * @param {Trainer} trainer A trainer created by `createTrainer()`.
+ */
+export function disposeTrainer(trainer: Trainer) {
+  if (trainer instanceof ActorCriticTrainer || trainer instanceof PPOTrainer) {
+    trainer.dispose()
+  }
+}
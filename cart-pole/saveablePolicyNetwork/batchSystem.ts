@@ -0,0 +1,50 @@
+import * as tf from '@tensorflow/tfjs'
+
+import { BoxSpace, EnvInfo, Space } from './env'
+
+/**
+ * The outcome of a step of all the systems of a `BatchSystem`.
+ */
+export interface BatchStepResult {
+  // Whether each system failed in the step. Failed systems are reset to a
+  // random state right away.
+  done: boolean[]
+  // The state each failed system reached in the step, before it was reset;
+  // `null` for the systems that did not fail.
+  finalStates: Array<number[] | null>
+  // The auxiliary information about the state each system reached in the
+  // step, also taken before a failed system was reset, see `getSystemInfo()`.
+  infos: EnvInfo[]
+}
+
+/**
+ * A batch of independent systems of the same kind that are stepped together,
+ * so that an agent can choose the actions of all of them with a single
+ * prediction.
+ */
+export abstract class BatchSystem {
+  // Number of systems in the batch.
+  abstract readonly size: number
+  // The spaces and the step reward of each of the systems, see `System`.
+  abstract readonly observationSpace: BoxSpace
+  abstract readonly actionSpace: Space
+  abstract readonly stepReward: number
+  /**
+   * Set the state of one system, or of all of them, randomly.
+   *
+   * @param {number} index Index of the system to reset. All systems are reset
+   *   if it is omitted.
+   */
+  abstract setRandomState(index?: number): void
+  /**
+   * Get the current states of all systems as a tf.Tensor of shape
+   * `[size, stateSize]`.
+   */
+  abstract getStateTensor(): tf.Tensor2D
+  /**
+   * Update all systems, each with its own action.
+   *
+   * @param {ArrayLike<number>} actions One action per system.
+   */
+  abstract update(actions: ArrayLike<number>): BatchStepResult
+}
@@ -0,0 +1,273 @@
+import * as tf from '@tensorflow/tfjs'
+
+import { shuffle } from '../utils'
+import { Space, getSpaceSize } from './env'
+import {
+  PolicyNetwork,
+  getPolicyHead,
+  getPolicyOutputSize,
+} from './policyNetwork'
+
+/**
+ * A dataset of demonstrations: the observations of a person (or any other
+ * teacher) playing an environment, and the actions they took.
+ */
+export interface DemonstrationDataset {
+  // The action space of the environment, which tells how the actions map to
+  // the outputs of a policy network.
+  actionSpace: Space
+  // The observation of every step, as an agent would have seen it, and the
+  // action taken in it.
+  observations: number[][]
+  actions: number[]
+  // The number of steps of every episode, in the order of the steps.
+  episodeSteps: number[]
+}
+
+/**
+ * Settings of the behavior cloning of demonstrations, see
+ * `pretrainFromDemonstrations()`.
+ */
+export interface BehaviorCloningConfig {
+  // Number of passes over the demonstrations.
+  epochs: number
+  // Number of steps per update.
+  batchSize: number
+  // Learning rate of the Adam optimizer.
+  learningRate: number
+}
+
+/**
+ * Record of the pretraining of a policy network from demonstrations, which is
+ * saved along with the policy network.
+ */
+export interface PretrainingRecord extends BehaviorCloningConfig {
+  demonstrationSteps: number
+  demonstrationEpisodes: number
+  // The mean loss of the last epoch.
+  finalLoss: number
+}
+
+/**
+ * Create an empty dataset of demonstrations.
+ *
+ * @param {Space} actionSpace The action space of the demonstrated
+ *   environment.
+ */
+export function createDemonstrationDataset(
+  actionSpace: Space
+): DemonstrationDataset {
+  return { actionSpace, observations: [], actions: [], episodeSteps: [] }
+}
+
+/**
+ * Add a demonstrated episode to a dataset of demonstrations.
+ *
+ * @param {DemonstrationDataset} dataset The dataset to update in place.
+ * @param {number[][]} observations The observation of every step of the
+ *   episode.
+ * @param {number[]} actions The action of every step of the episode.
+ * @throws {Error} If the steps do not fit the dataset.
+ */
+export function addDemonstration(
+  dataset: DemonstrationDataset,
+  observations: number[][],
+  actions: number[]
+) {
+  checkDemonstrationDataset({
+    actionSpace: dataset.actionSpace,
+    observations: dataset.observations.concat(observations),
+    actions: dataset.actions.concat(actions),
+    episodeSteps: dataset.episodeSteps.concat([actions.length]),
+  })
+  dataset.observations.push(...observations)
+  dataset.actions.push(...actions)
+  dataset.episodeSteps.push(actions.length)
+}
+
+/**
+ * Check a dataset of demonstrations.
+ *
+ * @param {DemonstrationDataset} dataset
+ * @throws {Error} If the steps are inconsistent, or if any of the actions is
+ *   not in the action space.
+ */
+export function checkDemonstrationDataset(dataset: DemonstrationDataset) {
+  if (
+    dataset == null ||
+    dataset.actionSpace == null ||
+    !Array.isArray(dataset.observations) ||
+    !Array.isArray(dataset.actions) ||
+    !Array.isArray(dataset.episodeSteps)
+  ) {
+    throw new Error('Invalid demonstrations')
+  }
+  const { actionSpace, observations, actions, episodeSteps } = dataset
+  if (actions.length !== observations.length) {
+    throw new Error(
+      `The demonstrations have ${observations.length} observations, ` +
+        `but ${actions.length} actions.`
+    )
+  }
+  if (
+    episodeSteps.some((steps) => !(Number.isInteger(steps) && steps > 0)) ||
+    episodeSteps.reduce((a, b) => a + b, 0) !== actions.length
+  ) {
+    throw new Error(
+      `Invalid episode steps of demonstrations: [${episodeSteps}]`
+    )
+  }
+  if (
+    observations.length > 0 &&
+    observations.some(
+      (observation) =>
+        !Array.isArray(observation) ||
+        observation.length !== observations[0].length ||
+        !observation.every(Number.isFinite)
+    )
+  ) {
+    throw new Error('Invalid observations of demonstrations')
+  }
+  const isValidAction =
+    actionSpace.type === 'discrete'
+      ? (action: number) =>
+          Number.isInteger(action) && action >= 0 && action < actionSpace.n
+      : (action: number) => Number.isFinite(action)
+  const invalidAction = actions.find((action) => !isValidAction(action))
+  if (invalidAction !== undefined) {
+    throw new Error(`Invalid action of demonstrations: ${invalidAction}`)
+  }
+}
+
+/**
+ * Check that a parsed JSON object is a valid dataset of demonstrations.
+ *
+ * @param {any} json The parsed JSON object, e.g., of a file saved by the
+ *   page.
+ * @returns `json`, typed as `DemonstrationDataset`.
+ * @throws {Error} If `json` is not a valid dataset of demonstrations.
+ */
+export function parseDemonstrationDataset(json: any): DemonstrationDataset {
+  checkDemonstrationDataset(json)
+  return json as DemonstrationDataset
+}
+
+/**
+ * Check the settings of behavior cloning.
+ *
+ * @param {BehaviorCloningConfig} config
+ * @throws {Error} If any of the settings is invalid.
+ */
+export function checkBehaviorCloningConfig(config: BehaviorCloningConfig) {
+  const { epochs, batchSize, learningRate } = config
+  if (!(Number.isInteger(epochs) && epochs > 0)) {
+    throw new Error(`Invalid number of pretraining epochs: ${epochs}`)
+  }
+  if (!(Number.isInteger(batchSize) && batchSize > 0)) {
+    throw new Error(`Invalid pretraining batch size: ${batchSize}`)
+  }
+  if (!(learningRate > 0)) {
+    throw new Error(`Invalid pretraining learning rate: ${learningRate}`)
+  }
+}
+
+/**
+ * Pretrain a policy network from demonstrations, by behavior cloning.
+ *
+ * This fits `policyNet` with supervised learning: it minimizes the negative
+ * log probability of the demonstrated actions in the demonstrated states,
+ * i.e., the cross entropy for discrete actions. The policy network then
+ * imitates the demonstrations, and can be fine-tuned with reinforcement
+ * learning, e.g., with `PolicyNetwork.train()`.
+ *
+ * The pretraining has an Adam optimizer of its own, so that the state of the
+ * optimizer of the reinforcement learning is left alone.
+ *
+ * @param {PolicyNetwork} policyNetwork
+ * @param {DemonstrationDataset} dataset
+ * @param {BehaviorCloningConfig} config
+ * @param onEpochEnd Called after every epoch with its mean loss.
+ * @param shouldStop Called after every epoch. If it returns true, the
+ *   pretraining stops.
+ * @returns The mean loss of every completed epoch.
+ * @throws {Error} If the dataset is empty or does not fit the policy network.
+ */
+export async function pretrainFromDemonstrations(
+  policyNetwork: PolicyNetwork,
+  dataset: DemonstrationDataset,
+  config: BehaviorCloningConfig,
+  onEpochEnd: (
+    epoch: number,
+    totalEpochs: number,
+    loss: number
+  ) => void = () => {},
+  shouldStop: () => boolean = () => false
+): Promise<number[]> {
+  checkDemonstrationDataset(dataset)
+  checkBehaviorCloningConfig(config)
+  const { actionSpace, observations, actions } = dataset
+  const numSteps = actions.length
+  if (numSteps === 0) {
+    throw new Error('There are no demonstrations to pretrain from.')
+  }
+  const inputSize = policyNetwork.policyNet.inputs[0].shape[1]
+  if (observations[0].length !== inputSize) {
+    throw new Error(
+      `The policy network takes ${inputSize} inputs, but the ` +
+        `demonstrations have observations of size ${observations[0].length}.`
+    )
+  }
+  const outputSize = policyNetwork.policyNet.outputs[0].shape[1]
+  if (
+    getPolicyHead(actionSpace) !== policyNetwork.head ||
+    getPolicyOutputSize(actionSpace) !== outputSize
+  ) {
+    throw new Error(
+      `The actions of the demonstrations (${getSpaceSize(actionSpace)} ` +
+        `${actionSpace.type}) do not fit the policy network.`
+    )
+  }
+
+  const { epochs, batchSize, learningRate } = config
+  const optimizer = tf.train.adam(learningRate)
+  const states = tf.tensor2d(observations)
+  const actionsTensor = tf.tensor1d(actions)
+  const indices = Array.from({ length: numSteps }, (_, i) => i)
+  const losses: number[] = []
+  try {
+    for (let epoch = 0; epoch < epochs; ++epoch) {
+      shuffle(indices)
+      let totalLoss = 0
+      for (let start = 0; start < numSteps; start += batchSize) {
+        const batchIndices = indices.slice(start, start + batchSize)
+        const loss = tf.tidy(() => {
+          const batch = tf.tensor1d(batchIndices, 'int32')
+          const cost = optimizer.minimize(() => {
+            const outputs = policyNetwork.policyNet.predict(
+              states.gather(batch)
+            ) as tf.Tensor2D
+            return tf
+              .mean(
+                policyNetwork
+                  .logProbabilities(outputs, actionsTensor.gather(batch))
+                  .neg()
+              )
+              .asScalar()
+          }, true) as tf.Scalar
+          return cost.dataSync()[0]
+        })
+        totalLoss += loss * batchIndices.length
+      }
+      losses.push(totalLoss / numSteps)
+      onEpochEnd(epoch + 1, epochs, totalLoss / numSteps)
+      await tf.nextFrame()
+      if (shouldStop()) {
+        break
+      }
+    }
+  } finally {
+    tf.dispose([states, actionsTensor])
+    optimizer.dispose()
+  }
+  return losses
+}
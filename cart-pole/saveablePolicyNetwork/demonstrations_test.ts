@@ -0,0 +1,149 @@
+import * as tf from '@tensorflow/tfjs'
+
+import { random, seedRandom } from '../utils'
+import {
+  DemonstrationDataset,
+  addDemonstration,
+  createDemonstrationDataset,
+  parseDemonstrationDataset,
+  pretrainFromDemonstrations,
+} from './demonstrations'
+import { discreteSpace } from './env'
+import { PolicyNetwork } from './policyNetwork'
+
+// A demonstrations file of two episodes of a cart-pole, as saved by the page.
+const DEMONSTRATIONS_FILE = `{
+  "actionSpace": {"type": "discrete", "n": 2},
+  "observations": [
+    [0, 0.1, 0.02, -0.1],
+    [0.002, 0.3, 0.018, -0.4],
+    [-0.01, -0.2, -0.03, 0.2]
+  ],
+  "actions": [1, 0, 0],
+  "episodeSteps": [2, 1]
+}`
+
+/**
+ * Compute the mean log probability of the demonstrated actions under a policy
+ * network.
+ *
+ * @param {PolicyNetwork} policyNetwork
+ * @param {DemonstrationDataset} dataset
+ */
+function meanLogProbability(
+  policyNetwork: PolicyNetwork,
+  dataset: DemonstrationDataset
+) {
+  return tf.tidy(
+    () =>
+      tf
+        .mean(
+          policyNetwork.logProbabilities(
+            policyNetwork.policyNet.predict(
+              tf.tensor2d(dataset.observations)
+            ) as tf.Tensor2D,
+            tf.tensor1d(dataset.actions)
+          )
+        )
+        .dataSync()[0]
+  )
+}
+
+describe('parseDemonstrationDataset', () => {
+  it('parses a demonstrations file', () => {
+    const dataset = createDemonstrationDataset(discreteSpace(2))
+    addDemonstration(
+      dataset,
+      [
+        [0, 0.1, 0.02, -0.1],
+        [0.002, 0.3, 0.018, -0.4],
+      ],
+      [1, 0]
+    )
+    addDemonstration(dataset, [[-0.01, -0.2, -0.03, 0.2]], [0])
+    expect(parseDemonstrationDataset(JSON.parse(DEMONSTRATIONS_FILE))).toEqual(
+      dataset
+    )
+  })
+
+  it('rejects inconsistent demonstrations', () => {
+    const json = JSON.parse(DEMONSTRATIONS_FILE)
+    const invalid: Array<[object, RegExp]> = [
+      [{ actions: [1, 0] }, /3 observations, but 2 actions/],
+      [{ episodeSteps: [2, 2] }, /Invalid episode steps/],
+      [{ episodeSteps: [3, 0] }, /Invalid episode steps/],
+      [{ actions: [1, 0, 2] }, /Invalid action of demonstrations: 2/],
+      [
+        {
+          observations: [
+            [0, 0, 0, 0],
+            [0, 0, 0],
+            [0, 0, 0, 0],
+          ],
+        },
+        /Invalid observations/,
+      ],
+      [{ actionSpace: null }, /Invalid demonstrations/],
+    ]
+    for (const [changes, error] of invalid) {
+      expect(() =>
+        parseDemonstrationDataset({ ...json, ...changes })
+      ).toThrowError(error)
+    }
+  })
+})
+
+describe('pretrainFromDemonstrations', () => {
+  afterEach(() => seedRandom(null))
+
+  it('makes the demonstrated actions more probable', async () => {
+    seedRandom(0)
+    // A teacher that pushes the cart towards the side the pole leans to.
+    const dataset = createDemonstrationDataset(discreteSpace(2))
+    const observations = Array.from({ length: 64 }, () =>
+      [0, 0, 0, 0].map(() => (random() - 0.5) * 0.2)
+    )
+    addDemonstration(
+      dataset,
+      observations,
+      observations.map(([_x, _xDot, theta]) => (theta > 0 ? 1 : 0))
+    )
+    const policyNetwork = new PolicyNetwork({
+      sizes: { hiddenLayerSizes: [8], inputSize: 4, outputSize: 1 },
+      head: 'bernoulli',
+    })
+    const before = meanLogProbability(policyNetwork, dataset)
+    const losses = await pretrainFromDemonstrations(policyNetwork, dataset, {
+      epochs: 20,
+      batchSize: 16,
+      learningRate: 0.02,
+    })
+    expect(losses.length).toEqual(20)
+    // The loss is the negative mean log probability of the demonstrations.
+    expect(losses[losses.length - 1]).toBeLessThan(losses[0])
+    expect(meanLogProbability(policyNetwork, dataset)).toBeGreaterThan(
+      before + 0.1
+    )
+    policyNetwork.policyNet.dispose()
+  })
+
+  it('rejects demonstrations that do not fit the policy network', async () => {
+    const policyNetwork = new PolicyNetwork({
+      sizes: { hiddenLayerSizes: [8], inputSize: 3, outputSize: 1 },
+      head: 'bernoulli',
+    })
+    let error: Error | null = null
+    try {
+      await pretrainFromDemonstrations(
+        policyNetwork,
+        parseDemonstrationDataset(JSON.parse(DEMONSTRATIONS_FILE)),
+        { epochs: 1, batchSize: 2, learningRate: 0.01 }
+      )
+    } catch (err) {
+      error = err
+    }
+    expect(error).not.toBeNull()
+    expect((error as Error).message).toContain('takes 3 inputs')
+    policyNetwork.policyNet.dispose()
+  })
+})
@@ -0,0 +1,177 @@
+/**
+ * A space of `n` discrete actions (or observations), numbered 0 to `n - 1`.
+ */
+export interface DiscreteSpace {
+  type: 'discrete'
+  n: number
+}
+
+/**
+ * A space of real-valued vectors, bounded element-wise by `low` and `high`.
+ * Unbounded elements have bounds of -Infinity and Infinity.
+ */
+export interface BoxSpace {
+  type: 'box'
+  shape: number[]
+  low: number[]
+  high: number[]
+}
+
+export type Space = DiscreteSpace | BoxSpace
+
+/**
+ * Create a space of `n` discrete actions.
+ *
+ * @param {number} n
+ */
+export function discreteSpace(n: number): DiscreteSpace {
+  if (!(Number.isInteger(n) && n > 0)) {
+    throw new Error(`Invalid number of discrete actions: ${n}`)
+  }
+  return { type: 'discrete', n }
+}
+
+/**
+ * Create a space of vectors with element-wise bounds.
+ *
+ * @param {number[]} low The lower bounds.
+ * @param {number[]} high The upper bounds, as many as `low`.
+ */
+export function boxSpace(low: number[], high: number[]): BoxSpace {
+  if (low.length !== high.length || low.some((l, i) => !(l <= high[i]))) {
+    throw new Error(`Invalid box bounds: [${low}], [${high}]`)
+  }
+  return { type: 'box', shape: [low.length], low, high }
+}
+
+/**
+ * Get the number of elements of the vectors of a space: the number of
+ * actions of a discrete space, or the size of the vectors of a box.
+ *
+ * @param {Space} space
+ */
+export function getSpaceSize(space: Space) {
+  if (space.type === 'discrete') {
+    return space.n
+  }
+  return space.shape.reduce((a, b) => a * b, 1)
+}
+
+/**
+ * Auxiliary diagnostic information about a step, not to be used for
+ * learning.
+ *
+ * Environments may add fields of their own, which consumers have to narrow
+ * before they use them.
+ */
+export interface EnvInfo {
+  // Why the episode ended, e.g., 'position' or 'angle' for the cart-pole, or
+  // `null` while it goes on. Left out by environments that do not tell.
+  failureCause?: string | null
+  [key: string]: unknown
+}
+
+/**
+ * The outcome of `Env.reset()`.
+ */
+export interface ResetResult {
+  // The observation of the initial state.
+  observation: number[]
+  info: EnvInfo
+}
+
+/**
+ * The outcome of `Env.step()`.
+ */
+export interface StepResult {
+  // The observation of the state after the step.
+  observation: number[]
+  reward: number
+  // Whether the episode ended because of the environment itself, e.g., by
+  // failure or by reaching a goal. No rewards follow a terminal state.
+  terminated: boolean
+  // Whether the episode was cut short, e.g., by a time limit, in a state
+  // that is not terminal.
+  truncated: boolean
+  info: EnvInfo
+}
+
+/**
+ * An environment in which an agent plays episodes, modeled after the
+ * environments of OpenAI Gym.
+ *
+ * After an episode ends (`terminated` or `truncated`), `reset()` has to be
+ * called before the next `step()`.
+ */
+export abstract class Env {
+  abstract readonly observationSpace: BoxSpace
+  abstract readonly actionSpace: Space
+  /**
+   * Start a new episode.
+   */
+  abstract reset(): ResetResult
+  /**
+   * Take an action.
+   *
+   * @param {number} action An element of `actionSpace`.
+   */
+  abstract step(action: number): StepResult
+  /**
+   * Render the current state on an HTML canvas. Does nothing for
+   * environments that can not be rendered.
+   *
+   * @param {HTMLCanvasElement} canvas
+   */
+  render(canvas: HTMLCanvasElement) {}
+}
+
+/**
+ * The outcome of `VectorEnv.step()`.
+ */
+export interface VectorStepResult {
+  // The observations after the step. For the environments whose episode
+  // ended, these are the observations of the initial states of their next
+  // episodes.
+  observations: number[][]
+  rewards: number[]
+  terminated: boolean[]
+  truncated: boolean[]
+  infos: EnvInfo[]
+  // The last observation of every episode that ended in the step, `null` for
+  // the environments whose episode goes on.
+  finalObservations: Array<number[] | null>
+}
+
+/**
+ * A number of independent environments of the same kind that are stepped
+ * together, so that an agent can choose the actions in all of them with a
+ * single prediction.
+ *
+ * Unlike a single `Env`, every environment whose episode ends is reset
+ * automatically.
+ */
+export abstract class VectorEnv {
+  abstract readonly numEnvs: number
+  // The spaces of each of the environments.
+  abstract readonly observationSpace: BoxSpace
+  abstract readonly actionSpace: Space
+  /**
+   * Start new episodes in all the environments.
+   *
+   * @returns The observations of their initial states.
+   */
+  abstract reset(): number[][]
+  /**
+   * Take an action in every environment.
+   *
+   * @param {ArrayLike<number>} actions One action per environment.
+   */
+  abstract step(actions: ArrayLike<number>): VectorStepResult
+  /**
+   * Render the current state of the first environment on an HTML canvas.
+   * Does nothing for environments that can not be rendered.
+   *
+   * @param {HTMLCanvasElement} canvas
+   */
+  render(canvas: HTMLCanvasElement) {}
+}
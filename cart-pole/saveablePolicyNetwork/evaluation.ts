@@ -0,0 +1,171 @@
+import * as tf from '@tensorflow/tfjs'
+
+import { mean, quantile, withRandomSeed } from '../utils'
+import { Env } from './env'
+import { PolicyNetwork } from './policyNetwork'
+import { QNetwork } from './qNetwork'
+
+/**
+ * Settings of an evaluation.
+ */
+export interface EvaluationConfig {
+  // Number of episodes.
+  numEpisodes: number
+  // Episode `i` starts from the initial state drawn with the seed `seed + i`,
+  // so that evaluations with the same seed start from the same states.
+  seed: number
+  // Whether a policy network takes its most probable actions instead of
+  // sampling them. Q-networks always take their greedy actions.
+  greedy: boolean
+}
+
+/**
+ * How an evaluation episode ended.
+ */
+export interface EpisodeResult {
+  steps: number
+  // 'truncated' if the episode reached the step limit of the environment,
+  // the failure cause reported by the environment (e.g., 'position' or
+  // 'angle' for the cart-pole), or 'terminated' for other ends.
+  end: string
+}
+
+/**
+ * Statistics of the number of steps of the episodes of an evaluation.
+ */
+export interface StepStats {
+  mean: number
+  median: number
+  min: number
+  max: number
+  p10: number
+  p90: number
+}
+
+/**
+ * The results of an evaluation.
+ */
+export interface EvaluationResult {
+  config: EvaluationConfig
+  episodes: EpisodeResult[]
+  stats: StepStats
+  // The number of episodes with each `EpisodeResult.end`.
+  endCounts: { [end: string]: number }
+}
+
+/**
+ * Check the settings of an evaluation.
+ *
+ * @param {EvaluationConfig} config
+ * @throws {Error} If any of the settings is invalid.
+ */
+export function checkEvaluationConfig(config: EvaluationConfig) {
+  if (!(Number.isInteger(config.numEpisodes) && config.numEpisodes > 0)) {
+    throw new Error(`Invalid number of episodes: ${config.numEpisodes}`)
+  }
+  if (!Number.isInteger(config.seed)) {
+    throw new Error(`Invalid evaluation seed: ${config.seed}`)
+  }
+}
+
+/**
+ * Compute the statistics of the numbers of steps of episodes.
+ *
+ * @param {number[]} steps
+ */
+export function computeStepStats(steps: number[]): StepStats {
+  return {
+    mean: mean(steps),
+    median: quantile(steps, 0.5),
+    min: Math.min(...steps),
+    max: Math.max(...steps),
+    p10: quantile(steps, 0.1),
+    p90: quantile(steps, 0.9),
+  }
+}
+
+/**
+ * Evaluate an agent by letting it play episodes from a fixed set of initial
+ * states.
+ *
+ * The random numbers are seeded for every episode, so that the results are
+ * reproducible (for greedy actions, the results only depend on the agent).
+ * The random numbers from before the evaluation are restored afterwards.
+ *
+ * This does not depend on the browser, so it works in Node.js as well.
+ *
+ * @param {PolicyNetwork | QNetwork} agent
+ * @param {Env} env The environment to play in. It has to end every episode,
+ *   e.g., by truncating it after a maximum number of steps.
+ * @param {EvaluationConfig} config
+ * @param onEpisodeEnd Called after every episode.
+ * @param shouldStop Called after every episode. If it returns true, the
+ *   evaluation stops and the results cover the episodes played so far.
+ */
+export async function evaluate(
+  agent: PolicyNetwork | QNetwork,
+  env: Env,
+  config: EvaluationConfig,
+  onEpisodeEnd: (
+    episodeCount: number,
+    totalEpisodes: number
+  ) => void = () => {},
+  shouldStop: () => boolean = () => false
+): Promise<EvaluationResult> {
+  checkEvaluationConfig(config)
+  const episodes: EpisodeResult[] = []
+  for (let i = 0; i < config.numEpisodes; ++i) {
+    episodes.push(
+      await withRandomSeed(config.seed + i, async () =>
+        playEvaluationEpisode(agent, env, config.greedy)
+      )
+    )
+    onEpisodeEnd(i + 1, config.numEpisodes)
+    await tf.nextFrame()
+    if (shouldStop()) {
+      break
+    }
+  }
+  const endCounts: { [end: string]: number } = {}
+  for (const { end } of episodes) {
+    endCounts[end] = (endCounts[end] || 0) + 1
+  }
+  return {
+    config,
+    episodes,
+    stats: computeStepStats(episodes.map((episode) => episode.steps)),
+    endCounts,
+  }
+}
+
+/**
+ * Play one episode of an evaluation.
+ *
+ * @param {PolicyNetwork | QNetwork} agent
+ * @param {Env} env
+ * @param {boolean} greedy
+ */
+function playEvaluationEpisode(
+  agent: PolicyNetwork | QNetwork,
+  env: Env,
+  greedy: boolean
+): EpisodeResult {
+  let { observation } = env.reset()
+  for (let steps = 1; ; ++steps) {
+    const action = tf.tidy(() => {
+      const inputs = tf.tensor2d([observation])
+      return agent instanceof PolicyNetwork && greedy
+        ? agent.getActions(inputs, { mode: 'argmax' })[0]
+        : agent.getActions(inputs)[0]
+    })
+    const result = env.step(action)
+    observation = result.observation
+    if (result.truncated) {
+      return { steps, end: 'truncated' }
+    }
+    if (result.terminated) {
+      const cause = result.info.failureCause
+      return { steps, end: cause != null ? cause : 'terminated' }
+    }
+  }
+}
@@ -0,0 +1,170 @@
+import { createEnv } from '../environments'
+import { random, seedRandom } from '../utils'
+import {
+  Env,
+  EnvInfo,
+  StepResult,
+  boxSpace,
+  discreteSpace,
+  getSpaceSize,
+} from './env'
+import { computeStepStats, evaluate } from './evaluation'
+import {
+  PolicyNetwork,
+  getPolicyHead,
+  getPolicyOutputSize,
+} from './policyNetwork'
+
+// How the episodes of `ScriptedEndsEnv` end.
+const EPISODE_ENDS: Array<{ truncated: boolean; info: EnvInfo }> = [
+  { truncated: false, info: { failureCause: 'position' } },
+  { truncated: false, info: { failureCause: 'angle' } },
+  { truncated: true, info: { failureCause: null } },
+  { truncated: false, info: { failureCause: 'position' } },
+  // An environment that does not report failure causes.
+  { truncated: false, info: {} },
+]
+
+/**
+ * An environment whose episode `i` lasts `i + 1` steps and ends as the `i`th
+ * of `EPISODE_ENDS`.
+ */
+class ScriptedEndsEnv extends Env {
+  public readonly observationSpace = boxSpace([-1], [1])
+  public readonly actionSpace = discreteSpace(2)
+  private episode = -1
+  private steps = 0
+
+  reset() {
+    this.episode++
+    this.steps = 0
+    return { observation: [0], info: {} }
+  }
+
+  step(action: number): StepResult {
+    this.steps++
+    const ends = this.steps === this.episode + 1
+    const { truncated, info } = EPISODE_ENDS[this.episode]
+    return {
+      observation: [0],
+      reward: 1,
+      terminated: ends && !truncated,
+      truncated: ends && truncated,
+      info: ends ? info : { failureCause: null },
+    }
+  }
+}
+
+/**
+ * Create an untrained policy network for an environment.
+ *
+ * @param {Env} env
+ */
+function createPolicyNetwork(env: Env) {
+  return new PolicyNetwork({
+    sizes: {
+      hiddenLayerSizes: [8],
+      inputSize: getSpaceSize(env.observationSpace),
+      outputSize: getPolicyOutputSize(env.actionSpace),
+    },
+    head: getPolicyHead(env.actionSpace),
+  })
+}
+
+describe('computeStepStats', () => {
+  it('computes the statistics and quantiles of the steps', () => {
+    // Sorted: 10, 20, 30, 40, 50. The 10th percentile is 0.4 of the way
+    // from 10 to 20, the 90th 0.6 of the way from 40 to 50.
+    const stats = computeStepStats([30, 10, 50, 20, 40])
+    expect(stats.mean).toEqual(30)
+    expect(stats.median).toEqual(30)
+    expect(stats.min).toEqual(10)
+    expect(stats.max).toEqual(50)
+    expect(stats.p10).toBeCloseTo(14, 10)
+    expect(stats.p90).toBeCloseTo(46, 10)
+  })
+
+  it('interpolates the median of an even number of episodes', () => {
+    const stats = computeStepStats([4, 1, 3, 2])
+    expect(stats.mean).toEqual(2.5)
+    expect(stats.median).toEqual(2.5)
+    expect(stats.p10).toBeCloseTo(1.3, 10)
+    expect(stats.p90).toBeCloseTo(3.7, 10)
+  })
+})
+
+describe('evaluate', () => {
+  afterEach(() => seedRandom(null))
+
+  it('plays the same episodes with the same seed', async () => {
+    seedRandom(0)
+    const env = createEnv('cart-pole', undefined, 100)
+    const policyNetwork = createPolicyNetwork(env)
+    // The actions are sampled, so the episodes depend on the seed.
+    const config = { numEpisodes: 4, seed: 7, greedy: false }
+    const result = await evaluate(policyNetwork, env, config)
+    expect((await evaluate(policyNetwork, env, config)).episodes).toEqual(
+      result.episodes
+    )
+    expect(
+      (await evaluate(policyNetwork, env, { ...config, seed: 8 })).episodes
+    ).not.toEqual(result.episodes)
+    policyNetwork.policyNet.dispose()
+  })
+
+  it('restores the random numbers from before', async () => {
+    const env = new ScriptedEndsEnv()
+    const policyNetwork = createPolicyNetwork(env)
+    seedRandom(3)
+    await evaluate(policyNetwork, env, {
+      numEpisodes: 2,
+      seed: 0,
+      greedy: false,
+    })
+    const next = random()
+    seedRandom(3)
+    expect(random()).toEqual(next)
+    policyNetwork.policyNet.dispose()
+  })
+
+  it('counts the ends of the episodes by failure cause', async () => {
+    const env = new ScriptedEndsEnv()
+    const policyNetwork = createPolicyNetwork(env)
+    const result = await evaluate(policyNetwork, env, {
+      numEpisodes: EPISODE_ENDS.length,
+      seed: 0,
+      greedy: true,
+    })
+    expect(result.episodes).toEqual([
+      { steps: 1, end: 'position' },
+      { steps: 2, end: 'angle' },
+      { steps: 3, end: 'truncated' },
+      { steps: 4, end: 'position' },
+      { steps: 5, end: 'terminated' },
+    ])
+    expect(result.endCounts).toEqual({
+      position: 2,
+      angle: 1,
+      truncated: 1,
+      terminated: 1,
+    })
+    expect(result.stats.mean).toEqual(3)
+    policyNetwork.policyNet.dispose()
+  })
+
+  it('stops early when asked to', async () => {
+    const env = new ScriptedEndsEnv()
+    const policyNetwork = createPolicyNetwork(env)
+    const episodeCounts: number[] = []
+    const result = await evaluate(
+      policyNetwork,
+      env,
+      { numEpisodes: EPISODE_ENDS.length, seed: 0, greedy: true },
+      (episodeCount) => episodeCounts.push(episodeCount),
+      () => episodeCounts.length === 2
+    )
+    expect(episodeCounts).toEqual([1, 2])
+    expect(result.episodes.length).toEqual(2)
+    policyNetwork.policyNet.dispose()
+  })
+})
@@ -1,13 +1,142 @@
 import * as tf from '@tensorflow/tfjs'
-import { PolicyNetwork } from './policyNetwork'
+import { loadValueOptimizer } from './algorithms'
+import { PretrainingRecord } from './demonstrations'
+import { createOptimizer, loadOptimizerState } from './optimizerState'
+import { DEFAULT_OPTIMIZER_CONFIG, OptimizerConfig } from './optimizers'
+import { PolicyHead, PolicyNetwork } from './policyNetwork'
+import { SaveableQNetwork } from './saveableQNetwork'
+import {
+  ModelMetadata,
+  exportModel,
+  getAgentType,
+  getHiddenLayerSizes,
+  importModel,
+  loadModel,
+  optimizerPath,
+  saveModel,
+  valueNetworkPath,
+  valueOptimizerPath,
+} from './storage'
+import { TrainingMetadata } from './trainingMetadata'
 
-// The IndexedDB path where the model of the policy network will be saved.
-const MODEL_SAVE_PATH_ = 'indexeddb://cart-pole-v1'
+export { SaveableQNetwork } from './saveableQNetwork'
+export {
+  AgentType,
+  DEFAULT_MODEL_NAME,
+  StoredModelInfo,
+  duplicateModel,
+  listModels,
+  migrateLegacyModel,
+  removeModel,
+  renameModel,
+  saveModelSummary,
+} from './storage'
+
+/**
+ * An agent that can be trained, tested, saved and loaded.
+ */
+export type SaveableAgent = SaveablePolicyNetwork | SaveableQNetwork
+
+/**
+ * Create the agent of a loaded model, as the kind of agent it was saved as.
+ *
+ * @param {tf.LayersModel} layersModel
+ * @param {ModelMetadata} metadata The metadata saved inside the model.
+ * @param {string | null} optimizerURL The URL of the stored optimizer state,
+ *   if any.
+ * @param {string | null} valueNetURL The URL of the stored value network of
+ *   a policy network, if any.
+ * @param {string | null} valueOptimizerURL The URL of the stored optimizer
+ *   state of the value network, if any.
+ */
+async function createAgent(
+  layersModel: tf.LayersModel,
+  metadata: ModelMetadata,
+  optimizerURL: string | null,
+  valueNetURL: string | null,
+  valueOptimizerURL: string | null
+): Promise<SaveableAgent> {
+  const agent =
+    getAgentType(metadata) === 'dqn'
+      ? SaveableQNetwork.fromModel(layersModel, metadata)
+      : SaveablePolicyNetwork.fromModel(layersModel, metadata)
+  if (agent instanceof SaveablePolicyNetwork && valueNetURL !== null) {
+    agent.valueNet = await tf.loadLayersModel(valueNetURL)
+    if (valueOptimizerURL !== null) {
+      agent.valueOptimizer = await loadValueOptimizer(valueOptimizerURL)
+    }
+  }
+  if (agent.trainingMetadata !== null && optimizerURL !== null) {
+    // The saved state only fits an optimizer of the same class.
+    const { learningRate, optimizer: optimizerConfig } =
+      agent.trainingMetadata.hyperparameters
+    const optimizer = await agent.getOptimizer(
+      learningRate,
+      optimizerConfig || DEFAULT_OPTIMIZER_CONFIG
+    )
+    await loadOptimizerState(optimizer, optimizerURL)
+  }
+  return agent
+}
+
+/**
+ * Load a named model from IndexedDB, whatever kind of agent it belongs to.
+ *
+ * @param {string} name Name of the model.
+ * @returns The loaded `SaveablePolicyNetwork` or `SaveableQNetwork`.
+ * @throws {Error} If no model with the name can be found in IndexedDB.
+ */
+export async function loadAgent(name: string) {
+  const {
+    layersModel,
+    metadata,
+    hasOptimizerState,
+    hasValueNetwork,
+    hasValueOptimizerState,
+  } = await loadModel(name)
+  return await createAgent(
+    layersModel,
+    metadata,
+    hasOptimizerState ? optimizerPath(name) : null,
+    hasValueNetwork ? valueNetworkPath(name) : null,
+    hasValueOptimizerState ? valueOptimizerPath(name) : null
+  )
+}
+
+/**
+ * Load a model from a bundle of user-selected files, whatever kind of agent
+ * it belongs to.
+ *
+ * @param {File[]} files See `SaveablePolicyNetwork.importModel()`.
+ * @returns The loaded `SaveablePolicyNetwork` or `SaveableQNetwork`.
+ */
+export async function importAgent(files: File[]) {
+  const { layersModel, metadata } = await importModel(files)
+  return await createAgent(layersModel, metadata, null, null, null)
+}
 
 /**
  * A subclass of PolicyNetwork that supports saving and loading.
  */
 export class SaveablePolicyNetwork extends PolicyNetwork {
+  // How this policy network has been trained so far, if known.
+  public trainingMetadata: TrainingMetadata | null
+  // How this policy network has been pretrained from demonstrations, if it
+  // has been.
+  public pretraining: PretrainingRecord | null
+  // The value network of the actor-critic or PPO trainer of this policy
+  // network, if any, kept so that training resumes with it, see
+  // `createTrainer()`.
+  public valueNet: tf.LayersModel | null
+  // The optimizer of `valueNet`, kept so that training resumes with its
+  // state, see `createTrainer()`.
+  public valueOptimizer: tf.Optimizer | null
+  // The optimizer that trains this policy network, kept across rounds of
+  // training so that its state (e.g., Adam's moment estimates) carries over.
+  private optimizer_: tf.Optimizer | null
+  private optimizerLearningRate_: number
+  private optimizerConfig_: OptimizerConfig
+
   /**
    * Constructor of SaveablePolicyNetwork
    *
@@ -16,6 +145,7 @@ export class SaveablePolicyNetwork extends PolicyNetwork {
   constructor({
     layersModel,
     sizes,
+    head,
   }: {
     layersModel?: tf.LayersModel
     sizes?: {
@@ -23,55 +153,172 @@ export class SaveablePolicyNetwork extends PolicyNetwork {
       inputSize: number
       outputSize: number
     }
+    head?: PolicyHead
   }) {
-    if (layersModel !== undefined) {
-      super({ layersModel })
-    } else if (sizes !== undefined) {
-      super({ sizes })
-    }
+    super({ layersModel, sizes, head })
+    this.trainingMetadata = null
+    this.pretraining = null
+    this.valueNet = null
+    this.valueOptimizer = null
+    this.optimizer_ = null
+    this.optimizerLearningRate_ = NaN
+    this.optimizerConfig_ = DEFAULT_OPTIMIZER_CONFIG
   }
 
   /**
-   * Save the model to IndexedDB.
+   * Create a policy network from a loaded model.
+   *
+   * @param {tf.LayersModel} layersModel
+   * @param {ModelMetadata} metadata The metadata saved inside the model.
    */
-  async saveModel() {
-    return await this.policyNet.save(MODEL_SAVE_PATH_)
+  static fromModel(layersModel: tf.LayersModel, metadata: ModelMetadata) {
+    const policyNet = new SaveablePolicyNetwork({
+      layersModel,
+      head: metadata.policyHead,
+    })
+    if (metadata.training != null) {
+      policyNet.trainingMetadata = metadata.training
+    }
+    if (metadata.pretraining != null) {
+      policyNet.pretraining = metadata.pretraining
+    }
+    return policyNet
   }
 
   /**
-   * Load the model fom IndexedDB.
+   * Get the optimizer to train this policy network with.
    *
-   * @returns The instance of loaded `SaveablePolicyNetwork`.
-   * @throws {Error} If no model can be found in IndexedDB.
+   * The same optimizer is returned for every round of training. If the
+   * learning rate or the optimizer changes, a new optimizer is created that
+   * takes over the state of the previous one, see `createOptimizer()`.
+   *
+   * @param {number} learningRate
+   * @param {OptimizerConfig} config The optimizer, Adam by default.
    */
-  static async loadModel() {
-    const modelsInfo = await tf.io.listModels()
-    if (MODEL_SAVE_PATH_ in modelsInfo) {
-      console.log(`Loading existing model...`)
-      const layersModel = await tf.loadLayersModel(MODEL_SAVE_PATH_)
-      console.log(`Loaded model from ${MODEL_SAVE_PATH_}`)
-      return new SaveablePolicyNetwork({ layersModel })
-    } else {
-      throw new Error(`Cannot find model at ${MODEL_SAVE_PATH_}.`)
+  async getOptimizer(
+    learningRate: number,
+    config: OptimizerConfig = DEFAULT_OPTIMIZER_CONFIG
+  ) {
+    if (
+      this.optimizer_ === null ||
+      learningRate !== this.optimizerLearningRate_ ||
+      config.name !== this.optimizerConfig_.name ||
+      config.momentum !== this.optimizerConfig_.momentum
+    ) {
+      this.optimizer_ = await createOptimizer(
+        config,
+        learningRate,
+        this.optimizer_
+      )
+      this.optimizerLearningRate_ = learningRate
+      this.optimizerConfig_ = config
     }
+    return this.optimizer_
   }
 
   /**
-   * Check the status of locally saved model.
+   * Dispose the model, the value network and the optimizers of this policy
+   * network.
+   */
+  dispose() {
+    this.policyNet.dispose()
+    if (this.valueNet !== null) {
+      this.valueNet.dispose()
+      this.valueNet = null
+    }
+    if (this.valueOptimizer !== null) {
+      this.valueOptimizer.dispose()
+      this.valueOptimizer = null
+    }
+    if (this.optimizer_ !== null) {
+      this.optimizer_.dispose()
+      this.optimizer_ = null
+    }
+  }
+
+  /**
+   * Save the model to IndexedDB under a name.
+   *
+   * An existing model with the same name is overwritten. The training
+   * metadata, the state of the optimizer, and the value network and the state
+   * of its optimizer are saved along with the model, so that training can be
+   * resumed after the model is loaded again.
+   *
+   * @param {string} name Name to save the model under.
+   */
+  async saveModel(name: string) {
+    return await saveModel(
+      this.policyNet,
+      name,
+      this.getModelMetadata(),
+      this.optimizer_,
+      this.valueNet,
+      this.valueOptimizer
+    )
+  }
+
+  /**
+   * Download the model as a bundle of files.
+   *
+   * The bundle consists of
+   *   - `${name}.json`: the topology and the weights manifest,
+   *   - `${name}.weights.bin`: the weight values,
+   *   - `${name}.metadata.json`: the training metadata, if any.
+   *
+   * @param {string} name Base name of the downloaded files.
+   */
+  async exportModel(name: string) {
+    return await exportModel(this.policyNet, name, this.getModelMetadata())
+  }
+
+  /**
+   * Load a model from a bundle of user-selected files.
    *
-   * @returns If the locally saved model exists, the model info as a JSON
-   *   object. Else, `undefined`.
+   * @param {File[]} files The files of a bundle created by `exportModel()`,
+   *   or by the Node.js training script. The training metadata file is
+   *   optional.
+   * @returns The instance of loaded `SaveablePolicyNetwork`.
+   * @throws {Error} If the topology or the weights file is missing, or if
+   *   the model belongs to another kind of agent.
    */
-  static async checkStoredModelStatus() {
-    const modelsInfo = await tf.io.listModels()
-    return modelsInfo[MODEL_SAVE_PATH_]
+  static async importModel(files: File[]) {
+    const agent = await importAgent(files)
+    if (!(agent instanceof SaveablePolicyNetwork)) {
+      agent.dispose()
+      throw new Error('The selected model is not a policy network.')
+    }
+    return agent
   }
 
   /**
-   * Remove the locally saved model from IndexedDB.
+   * Load a named model fom IndexedDB.
+   *
+   * @param {string} name Name of the model.
+   * @returns The instance of loaded `SaveablePolicyNetwork`.
+   * @throws {Error} If no model with the name can be found in IndexedDB, or
+   *   if the model belongs to another kind of agent.
    */
-  async removeModel() {
-    return await tf.io.removeModel(MODEL_SAVE_PATH_)
+  static async loadModel(name: string) {
+    const agent = await loadAgent(name)
+    if (!(agent instanceof SaveablePolicyNetwork)) {
+      agent.dispose()
+      throw new Error(`Model '${name}' is not a policy network.`)
+    }
+    return agent
+  }
+
+  private getModelMetadata(): ModelMetadata {
+    const metadata: ModelMetadata = {
+      agent: 'policy-network',
+      policyHead: this.head,
+    }
+    if (this.trainingMetadata !== null) {
+      metadata.training = this.trainingMetadata
+    }
+    if (this.pretraining !== null) {
+      metadata.pretraining = this.pretraining
+    }
+    return metadata
   }
 
   /**
@@ -82,12 +329,6 @@ export class SaveablePolicyNetwork extends PolicyNetwork {
    *   multiple hidden layers, return the sizes as an Array of numbers.
    */
   hiddenLayerSizes() {
-    const sizes: number | number[] = []
-    for (let i = 0; i < this.policyNet.layers.length - 1; ++i) {
-      // `units` does not exist on Layer (!?)
-      const layer = this.policyNet.layers[i] as any
-      sizes.push(layer.units)
-    }
-    return sizes.length === 1 ? sizes[0] : sizes
+    return getHiddenLayerSizes(this.policyNet)
   }
 }
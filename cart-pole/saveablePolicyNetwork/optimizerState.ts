@@ -0,0 +1,117 @@
+import * as tf from '@tensorflow/tfjs'
+
+import { OptimizerConfig } from './optimizers'
+
+/**
+ * Get the single IOHandler for a URL, e.g., `indexeddb://foo` or `file://foo`.
+ *
+ * @param {tf.io.IOHandler[]} handlers The handlers registered for the URL.
+ * @param {string} url
+ */
+function getHandler(handlers: tf.io.IOHandler[], url: string) {
+  if (handlers.length !== 1) {
+    throw new Error(
+      `Expected exactly one IOHandler for ${url}, found ${handlers.length}.`
+    )
+  }
+  return handlers[0]
+}
+
+/**
+ * Save the state of an optimizer, e.g., the moment estimates of Adam, so that
+ * training can later be resumed with `loadOptimizerState()`.
+ *
+ * The state is stored in the same format as the weights of a model, so it can
+ * be saved to any URL that a model can be saved to.
+ *
+ * @param {tf.Optimizer} optimizer The optimizer whose state is to be saved.
+ * @param {string} url The URL to save the state to.
+ */
+export async function saveOptimizerState(optimizer: tf.Optimizer, url: string) {
+  const { data, specs } = await tf.io.encodeWeights(
+    await optimizer.getWeights()
+  )
+  const handler = getHandler(tf.io.getSaveHandlers(url), url)
+  if (handler.save == null) {
+    throw new Error(`Cannot save to ${url}.`)
+  }
+  return await handler.save({
+    modelTopology: { optimizer: optimizer.getClassName() },
+    weightSpecs: specs,
+    weightData: data,
+  })
+}
+
+/**
+ * Restore the state of an optimizer saved with `saveOptimizerState()`.
+ *
+ * @param {tf.Optimizer} optimizer The optimizer to restore the state of. It
+ *   must be of the same class as the optimizer whose state was saved.
+ * @param {string} url The URL the state was saved to.
+ * @throws {Error} If the saved state belongs to a different optimizer class.
+ */
+export async function loadOptimizerState(optimizer: tf.Optimizer, url: string) {
+  const handler = getHandler(tf.io.getLoadHandlers(url), url)
+  if (handler.load == null) {
+    throw new Error(`Cannot load from ${url}.`)
+  }
+  const artifacts = await handler.load()
+  const topology = artifacts.modelTopology as { optimizer?: string }
+  if (topology.optimizer !== optimizer.getClassName()) {
+    throw new Error(
+      `Cannot restore the state of ${topology.optimizer} ` +
+        `into ${optimizer.getClassName()}.`
+    )
+  }
+  if (artifacts.weightSpecs == null || artifacts.weightData == null) {
+    throw new Error(`Found no optimizer state at ${url}.`)
+  }
+  const tensors = tf.io.decodeWeights(
+    artifacts.weightData,
+    artifacts.weightSpecs
+  )
+  // `setWeights()` relies on the order of the weights, which the specs keep.
+  await optimizer.setWeights(
+    artifacts.weightSpecs.map(({ name }) => ({ name, tensor: tensors[name] }))
+  )
+  tf.dispose(tensors)
+}
+
+/**
+ * Create an optimizer that takes over the state of another one, e.g., to
+ * change the learning rate between training iterations.
+ *
+ * @param {OptimizerConfig} config The optimizer to create.
+ * @param {number} learningRate Learning rate of the new optimizer.
+ * @param {tf.Optimizer | null} previous The optimizer whose state is taken
+ *   over, if any. It is disposed. The state of an optimizer of another class
+ *   can not be taken over, so the new optimizer starts afresh.
+ */
+export async function createOptimizer(
+  config: OptimizerConfig,
+  learningRate: number,
+  previous: tf.Optimizer | null
+) {
+  let optimizer: tf.Optimizer
+  switch (config.name) {
+    case 'adam':
+      optimizer = tf.train.adam(learningRate)
+      break
+    case 'rmsprop':
+      optimizer = tf.train.rmsprop(learningRate)
+      break
+    case 'sgd-momentum':
+      optimizer = tf.train.momentum(
+        learningRate,
+        config.momentum !== undefined ? config.momentum : 0.9
+      )
+      break
+  }
+  if (previous !== null) {
+    if (previous.getClassName() === optimizer.getClassName()) {
+      await optimizer.setWeights(await previous.getWeights())
+    }
+    previous.dispose()
+  }
+  return optimizer
+}
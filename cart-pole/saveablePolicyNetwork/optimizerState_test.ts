@@ -0,0 +1,90 @@
+import * as tf from '@tensorflow/tfjs'
+
+import { loadOptimizerState, saveOptimizerState } from './optimizerState'
+
+// The artifacts saved to 'memory://' URLs, which stand in for IndexedDB and
+// the file system.
+const savedArtifacts: { [url: string]: tf.io.ModelArtifacts } = {}
+
+/**
+ * Create an IORouter of the 'memory://' URLs.
+ *
+ * @param createHandler Creates the handler of a URL.
+ */
+function memoryRouter(createHandler: (url: string) => tf.io.IOHandler) {
+  // A router returns null for the URLs that it does not handle, which the
+  // typings of TensorFlow.js leave out.
+  return (url: string | string[]) =>
+    (typeof url === 'string' && url.indexOf('memory://') === 0
+      ? createHandler(url)
+      : null) as tf.io.IOHandler
+}
+
+tf.io.registerSaveRouter(
+  memoryRouter((url) =>
+    tf.io.withSaveHandler(async (artifacts) => {
+      savedArtifacts[url] = artifacts
+      return {
+        modelArtifactsInfo: tf.io.getModelArtifactsInfoForJSON(artifacts),
+      }
+    })
+  )
+)
+tf.io.registerLoadRouter(
+  memoryRouter((url) => tf.io.fromMemory(savedArtifacts[url]))
+)
+
+/**
+ * Take a step of an optimizer towards the minimum of `(x - 3)^2`.
+ */
+function step(optimizer: tf.Optimizer, x: tf.Variable) {
+  optimizer.minimize(() => x.sub(3).square().sum() as tf.Scalar, false, [x])
+}
+
+describe('saveOptimizerState', () => {
+  it('saves a state that loadOptimizerState restores', async () => {
+    const x = tf.variable(tf.tensor1d([0, 1]))
+    const optimizer = tf.train.adam(0.1)
+    for (let i = 0; i < 3; ++i) {
+      step(optimizer, x)
+    }
+    await saveOptimizerState(optimizer, 'memory://adam')
+
+    const restored = tf.train.adam(0.1)
+    await loadOptimizerState(restored, 'memory://adam')
+    const weights = await optimizer.getWeights()
+    const restoredWeights = await restored.getWeights()
+    expect(restoredWeights.length).toEqual(weights.length)
+    restoredWeights.forEach(({ tensor }, i) => {
+      expect(tensor.dataSync()).toEqual(weights[i].tensor.dataSync())
+    })
+
+    // The restored optimizer goes on as the saved one does.
+    const y = tf.variable(x.clone())
+    step(optimizer, x)
+    step(restored, y)
+    expect(y.dataSync()).toEqual(x.dataSync())
+    tf.dispose([x, y])
+    optimizer.dispose()
+    restored.dispose()
+  })
+
+  it('does not restore the state into an optimizer of another class', async () => {
+    const x = tf.variable(tf.tensor1d([0]))
+    const optimizer = tf.train.adam(0.1)
+    step(optimizer, x)
+    await saveOptimizerState(optimizer, 'memory://adam-only')
+    const rmsprop = tf.train.rmsprop(0.1)
+    let error: Error | null = null
+    try {
+      await loadOptimizerState(rmsprop, 'memory://adam-only')
+    } catch (err) {
+      error = err
+    }
+    expect(error).not.toBeNull()
+    expect((error as Error).message).toContain('Cannot restore')
+    x.dispose()
+    optimizer.dispose()
+    rmsprop.dispose()
+  })
+})
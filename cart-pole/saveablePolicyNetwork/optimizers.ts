@@ -0,0 +1,172 @@
+/**
+ * The optimizers that an agent can be trained with.
+ *
+ *   - 'adam': Adam.
+ *   - 'rmsprop': RMSProp.
+ *   - 'sgd-momentum': Stochastic gradient descent with momentum.
+ */
+export type OptimizerName = 'adam' | 'rmsprop' | 'sgd-momentum'
+
+export const OPTIMIZER_NAMES: OptimizerName[] = [
+  'adam',
+  'rmsprop',
+  'sgd-momentum',
+]
+
+/**
+ * Configuration of the optimizer of an agent. The learning rate is set apart,
+ * see `getScheduledLearningRate()`.
+ */
+export interface OptimizerConfig {
+  name: OptimizerName
+  // Only used by 'sgd-momentum'.
+  momentum?: number
+}
+
+export const DEFAULT_OPTIMIZER_CONFIG: OptimizerConfig = { name: 'adam' }
+
+/**
+ * How the learning rate changes over the training iterations.
+ *
+ *   - 'constant': The learning rate does not change.
+ *   - 'step': The learning rate is multiplied by `decayRate` every
+ *     `decayIterations` iterations.
+ *   - 'exponential': The learning rate is multiplied by `decayRate` over
+ *     every `decayIterations` iterations, a little at every iteration.
+ *   - 'cosine': The learning rate falls from its initial value to
+ *     `minLearningRate` along half a cosine over `decayIterations`
+ *     iterations, and stays there.
+ */
+export type LearningRateScheduleType =
+  | 'constant'
+  | 'step'
+  | 'exponential'
+  | 'cosine'
+
+export const LEARNING_RATE_SCHEDULE_TYPES: LearningRateScheduleType[] = [
+  'constant',
+  'step',
+  'exponential',
+  'cosine',
+]
+
+export interface LearningRateSchedule {
+  type: LearningRateScheduleType
+  // Used by 'step' and 'exponential'.
+  decayRate: number
+  // Used by 'step', 'exponential' and 'cosine'.
+  decayIterations: number
+  // Only used by 'cosine'.
+  minLearningRate: number
+}
+
+export const CONSTANT_LEARNING_RATE: LearningRateSchedule = {
+  type: 'constant',
+  decayRate: 1,
+  decayIterations: 1,
+  minLearningRate: 0,
+}
+
+/**
+ * Check that a string names an optimizer.
+ *
+ * @param {string} name
+ * @throws {Error} If `name` is not one of `OPTIMIZER_NAMES`.
+ */
+export function parseOptimizerName(name: string) {
+  if (OPTIMIZER_NAMES.indexOf(name as OptimizerName) === -1) {
+    throw new Error(
+      `Invalid optimizer: ${name}. ` +
+        `Expected one of ${OPTIMIZER_NAMES.join(', ')}.`
+    )
+  }
+  return name as OptimizerName
+}
+
+/**
+ * Check the configuration of an optimizer.
+ *
+ * @param {OptimizerConfig} config
+ * @throws {Error} If any of the settings is invalid.
+ */
+export function checkOptimizerConfig(config: OptimizerConfig) {
+  parseOptimizerName(config.name)
+  const { momentum } = config
+  if (
+    config.name === 'sgd-momentum' &&
+    !(momentum !== undefined && momentum >= 0 && momentum < 1)
+  ) {
+    throw new Error(`Invalid momentum: ${momentum}`)
+  }
+}
+
+/**
+ * Check a learning rate and its schedule.
+ *
+ * @param {number} learningRate The initial learning rate.
+ * @param {LearningRateSchedule} schedule
+ * @throws {Error} If any of the settings is invalid.
+ */
+export function checkLearningRateSchedule(
+  learningRate: number,
+  schedule: LearningRateSchedule
+) {
+  const { type, decayRate, decayIterations, minLearningRate } = schedule
+  if (!(learningRate > 0)) {
+    throw new Error(`Invalid learning rate: ${learningRate}`)
+  }
+  if (LEARNING_RATE_SCHEDULE_TYPES.indexOf(type) === -1) {
+    throw new Error(
+      `Invalid learning rate schedule: ${type}. ` +
+        `Expected one of ${LEARNING_RATE_SCHEDULE_TYPES.join(', ')}.`
+    )
+  }
+  if (type === 'constant') {
+    return
+  }
+  if (!(Number.isInteger(decayIterations) && decayIterations > 0)) {
+    throw new Error(`Invalid # of decay iterations: ${decayIterations}`)
+  }
+  if (type === 'cosine') {
+    if (!(minLearningRate >= 0 && minLearningRate <= learningRate)) {
+      throw new Error(`Invalid min. learning rate: ${minLearningRate}`)
+    }
+  } else if (!(decayRate > 0 && decayRate <= 1)) {
+    throw new Error(`Invalid learning rate decay rate: ${decayRate}`)
+  }
+}
+
+/**
+ * Get the learning rate of a training iteration.
+ *
+ * @param {number} learningRate The initial learning rate.
+ * @param {LearningRateSchedule} schedule
+ * @param {number} iteration The number of training iterations completed
+ *   before, over all the rounds of training, so that a schedule goes on where
+ *   the previous round of training stopped.
+ */
+export function getScheduledLearningRate(
+  learningRate: number,
+  schedule: LearningRateSchedule,
+  iteration: number
+) {
+  const { decayRate, decayIterations, minLearningRate } = schedule
+  switch (schedule.type) {
+    case 'constant':
+      return learningRate
+    case 'step':
+      return (
+        learningRate *
+        Math.pow(decayRate, Math.floor(iteration / decayIterations))
+      )
+    case 'exponential':
+      return learningRate * Math.pow(decayRate, iteration / decayIterations)
+    case 'cosine':
+      return (
+        minLearningRate +
+        ((learningRate - minLearningRate) *
+          (1 + Math.cos(Math.PI * Math.min(iteration / decayIterations, 1)))) /
+          2
+      )
+  }
+}
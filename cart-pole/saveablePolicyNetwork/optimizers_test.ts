@@ -0,0 +1,146 @@
+import {
+  CONSTANT_LEARNING_RATE,
+  LearningRateSchedule,
+  OptimizerConfig,
+  checkLearningRateSchedule,
+  checkOptimizerConfig,
+  getScheduledLearningRate,
+  parseOptimizerName,
+} from './optimizers'
+
+/**
+ * Get the learning rates of a schedule that starts at 0.1.
+ *
+ * @param {LearningRateSchedule} schedule
+ * @param {number[]} iterations
+ */
+function getLearningRates(
+  schedule: LearningRateSchedule,
+  iterations: number[]
+) {
+  return iterations.map((iteration) =>
+    getScheduledLearningRate(0.1, schedule, iteration)
+  )
+}
+
+function expectLearningRatesClose(actual: number[], expected: number[]) {
+  expect(actual.length).toEqual(expected.length)
+  actual.forEach((rate, i) => expect(rate).toBeCloseTo(expected[i], 10))
+}
+
+describe('getScheduledLearningRate', () => {
+  const schedule = { decayRate: 0.5, decayIterations: 10, minLearningRate: 0 }
+
+  it('keeps a constant learning rate', () => {
+    expectLearningRatesClose(
+      getLearningRates(CONSTANT_LEARNING_RATE, [0, 1, 100]),
+      [0.1, 0.1, 0.1]
+    )
+  })
+
+  it('decays the learning rate in steps', () => {
+    expectLearningRatesClose(
+      getLearningRates({ ...schedule, type: 'step' }, [0, 9, 10, 25]),
+      [0.1, 0.1, 0.05, 0.025]
+    )
+  })
+
+  it('decays the learning rate exponentially', () => {
+    expectLearningRatesClose(
+      getLearningRates({ ...schedule, type: 'exponential' }, [0, 5, 10, 20]),
+      [0.1, 0.1 * Math.sqrt(0.5), 0.05, 0.025]
+    )
+  })
+
+  it('anneals the learning rate along half a cosine', () => {
+    expectLearningRatesClose(
+      getLearningRates(
+        { ...schedule, type: 'cosine', minLearningRate: 0.01 },
+        [0, 5, 10, 20]
+      ),
+      // Halfway, the learning rate is the mean of the initial and the
+      // minimum, which it stays at after decayIterations.
+      [0.1, 0.055, 0.01, 0.01]
+    )
+  })
+})
+
+describe('parseOptimizerName', () => {
+  it('rejects unknown optimizers', () => {
+    expect(parseOptimizerName('rmsprop')).toEqual('rmsprop')
+    expect(() => parseOptimizerName('sgd')).toThrowError(
+      /Invalid optimizer: sgd/
+    )
+  })
+})
+
+describe('checkOptimizerConfig', () => {
+  it('rejects invalid momentums of SGD', () => {
+    expect(() => checkOptimizerConfig({ name: 'adam' })).not.toThrow()
+    expect(() =>
+      checkOptimizerConfig({ name: 'sgd-momentum', momentum: 0.9 })
+    ).not.toThrow()
+    const invalid: OptimizerConfig[] = [
+      { name: 'sgd-momentum' },
+      { name: 'sgd-momentum', momentum: -0.1 },
+      { name: 'sgd-momentum', momentum: 1 },
+    ]
+    for (const config of invalid) {
+      expect(() => checkOptimizerConfig(config)).toThrowError(
+        /Invalid momentum/
+      )
+    }
+    expect(() =>
+      checkOptimizerConfig({ name: 'nadam' } as unknown as OptimizerConfig)
+    ).toThrowError(/Invalid optimizer/)
+  })
+})
+
+describe('checkLearningRateSchedule', () => {
+  const schedule: LearningRateSchedule = {
+    type: 'step',
+    decayRate: 0.5,
+    decayIterations: 10,
+    minLearningRate: 0,
+  }
+
+  it('accepts valid schedules', () => {
+    expect(() => checkLearningRateSchedule(0.1, schedule)).not.toThrow()
+    expect(() =>
+      checkLearningRateSchedule(0.1, CONSTANT_LEARNING_RATE)
+    ).not.toThrow()
+    expect(() =>
+      checkLearningRateSchedule(0.1, {
+        ...schedule,
+        type: 'cosine',
+        minLearningRate: 0.1,
+      })
+    ).not.toThrow()
+  })
+
+  it('rejects invalid values', () => {
+    const invalid: Array<[number, Partial<LearningRateSchedule>, RegExp]> = [
+      [0, {}, /Invalid learning rate: 0/],
+      [
+        0.1,
+        { type: 'linear' } as unknown as LearningRateSchedule,
+        /Invalid learning rate schedule/,
+      ],
+      [0.1, { decayIterations: 0 }, /Invalid # of decay iterations/],
+      [0.1, { decayIterations: 1.5 }, /Invalid # of decay iterations/],
+      [0.1, { decayRate: 0 }, /Invalid learning rate decay rate/],
+      [
+        0.1,
+        { type: 'exponential', decayRate: 1.5 },
+        /Invalid learning rate decay rate/,
+      ],
+      [0.1, { type: 'cosine', minLearningRate: 0.2 }, /Invalid min/],
+      [0.1, { type: 'cosine', minLearningRate: -0.01 }, /Invalid min/],
+    ]
+    for (const [learningRate, changes, error] of invalid) {
+      expect(() =>
+        checkLearningRateSchedule(learningRate, { ...schedule, ...changes })
+      ).toThrowError(error)
+    }
+  })
+})
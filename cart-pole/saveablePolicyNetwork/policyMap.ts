@@ -0,0 +1,154 @@
+import * as tf from '@tensorflow/tfjs'
+
+import { BoxSpace } from './env'
+import { PolicyNetwork } from './policyNetwork'
+import { QNetwork } from './qNetwork'
+
+// The range of a policy map along the state variables whose observations are
+// unbounded, such as the velocities of the cart-pole.
+const UNBOUNDED_RANGE = 3
+
+/**
+ * Settings of a policy map: a map of the actions of an agent over a 2D grid
+ * of two of the state variables.
+ */
+export interface PolicyMapConfig {
+  // The indices of the state variables along the x and the y axis.
+  xIndex: number
+  yIndex: number
+  // The range `[min, max]` of every state variable.
+  ranges: Array<[number, number]>
+  // The values of the state variables that are not on the axes. The values
+  // at the indices of the axes are ignored.
+  state: number[]
+  // The number of grid points along each axis.
+  resolution: number
+}
+
+/**
+ * A policy map, see `computePolicyMap()`.
+ */
+export interface PolicyMap {
+  // The values of the state variables of the axes at the grid points.
+  xValues: number[]
+  yValues: number[]
+  // The values of the grid points in column-major order: `values[i][j]` is
+  // the value at `xValues[i]` and `yValues[j]`.
+  values: number[][]
+}
+
+/**
+ * Get the default ranges of the state variables of a policy map: the bounds
+ * of the observation space, or `[-3, 3]` for unbounded state variables.
+ *
+ * @param {BoxSpace} observationSpace
+ */
+export function getDefaultPolicyMapRanges(
+  observationSpace: BoxSpace
+): Array<[number, number]> {
+  const { low, high } = observationSpace
+  return low.map((l, i) => [
+    Number.isFinite(l) ? l : -UNBOUNDED_RANGE,
+    Number.isFinite(high[i]) ? high[i] : UNBOUNDED_RANGE,
+  ])
+}
+
+/**
+ * Check the settings of a policy map.
+ *
+ * @param {PolicyMapConfig} config
+ * @param {number} inputSize The number of state variables.
+ * @throws {Error} If any of the settings is invalid.
+ */
+export function checkPolicyMapConfig(
+  config: PolicyMapConfig,
+  inputSize: number
+) {
+  const { xIndex, yIndex, ranges, state, resolution } = config
+  for (const index of [xIndex, yIndex]) {
+    if (!(Number.isInteger(index) && index >= 0 && index < inputSize)) {
+      throw new Error(`Invalid state variable of policy map: ${index}`)
+    }
+  }
+  if (xIndex === yIndex) {
+    throw new Error('The axes of a policy map need different state variables')
+  }
+  if (
+    ranges.length !== inputSize ||
+    ranges.some(([min, max]) => !(min < max))
+  ) {
+    throw new Error(`Invalid ranges of policy map: ${JSON.stringify(ranges)}`)
+  }
+  if (state.length !== inputSize || !state.every(Number.isFinite)) {
+    throw new Error(`Invalid state of policy map: [${state}]`)
+  }
+  if (!(Number.isInteger(resolution) && resolution >= 2)) {
+    throw new Error(`Invalid resolution of policy map: ${resolution}`)
+  }
+}
+
+/**
+ * Compute a map of the actions of an agent over a 2D grid of two of the state
+ * variables, with the other state variables held at fixed values.
+ *
+ * The value of a grid point is
+ *   - for a policy network with discrete actions, the probability of action
+ *     0 (the leftward force, for the cart-pole),
+ *   - for a policy network with a Gaussian head, the mean action,
+ *   - for a Q-network, 1 if its greedy action is action 0, or else 0.
+ *
+ * All the grid points are evaluated with a single prediction.
+ *
+ * @param {PolicyNetwork | QNetwork} agent
+ * @param {PolicyMapConfig} config
+ */
+export function computePolicyMap(
+  agent: PolicyNetwork | QNetwork,
+  config: PolicyMapConfig
+): PolicyMap {
+  const { xIndex, yIndex, ranges, state, resolution } = config
+  checkPolicyMapConfig(config, state.length)
+  const xValues = linspace(ranges[xIndex], resolution)
+  const yValues = linspace(ranges[yIndex], resolution)
+  const inputs: number[][] = []
+  for (const x of xValues) {
+    for (const y of yValues) {
+      const input = state.slice()
+      input[xIndex] = x
+      input[yIndex] = y
+      inputs.push(input)
+    }
+  }
+
+  const flatValues = tf.tidy(() => {
+    const inputTensor = tf.tensor2d(inputs)
+    if (agent instanceof QNetwork) {
+      const actions = agent.getActions(inputTensor)
+      return Array.from(actions, (action) => (action === 0 ? 1 : 0))
+    }
+    const outputs = agent.policyNet.predict(inputTensor) as tf.Tensor2D
+    const values =
+      agent.head === 'gaussian'
+        ? agent.selectActions(outputs, { mode: 'argmax' })
+        : agent.actionProbabilities(outputs).slice([0, 0], [-1, 1])
+    return Array.from(values.dataSync())
+  })
+  const values: number[][] = []
+  for (let i = 0; i < resolution; ++i) {
+    values.push(flatValues.slice(i * resolution, (i + 1) * resolution))
+  }
+  return { xValues, yValues, values }
+}
+
+/**
+ * Get evenly spaced numbers over a range, including both of its ends.
+ *
+ * @param {[number, number]} range
+ * @param {number} num The number of numbers, at least 2.
+ */
+function linspace([min, max]: [number, number], num: number) {
+  return Array.from(
+    { length: num },
+    (_, i) => min + ((max - min) * i) / (num - 1)
+  )
+}
@@ -1,6 +1,164 @@
 import * as tf from '@tensorflow/tfjs'
 
-import { System } from './system'
+import { initializeWeights, random } from '../utils'
+import { Env, Space, VectorEnv, getSpaceSize } from './env'
+import { Episode, concatEpisodes, playEpisodes } from './rollouts'
+import { Trainer } from './trainer'
+
+/**
+ * The probability distribution of the actions of a policy network, whose
+ * parameters are the outputs of the network.
+ *
+ *   - 'bernoulli': Two discrete actions. The single output is the logit of the
+ *     probability of action 0.
+ *   - 'gaussian': One continuous action. The two outputs are the mean and the
+ *     log standard deviation of a normal distribution.
+ *   - 'categorical': Any number of discrete actions. The outputs are the
+ *     logits of a softmax over the actions, one per action.
+ */
+export type PolicyHead = 'bernoulli' | 'gaussian' | 'categorical'
+
+// The log standard deviation of a Gaussian head is clipped to this range, so
+// that a policy can neither collapse to a deterministic one nor explode.
+const MIN_LOG_STD = -5
+const MAX_LOG_STD = 2
+
+/**
+ * How a policy network selects its actions at inference time.
+ *
+ *   - 'sample': Sample the actions from their distribution, as in training.
+ *   - 'argmax': Take the most probable actions: the mean force, for a
+ *     Gaussian head.
+ *   - 'temperature': Sample the actions from their distribution, sharpened by
+ *     a temperature below 1 or flattened by one above 1. The logits are
+ *     divided by the temperature, or, for a Gaussian head, the standard
+ *     deviation is multiplied by it.
+ */
+export type InferenceMode = 'sample' | 'argmax' | 'temperature'
+
+export const INFERENCE_MODES: InferenceMode[] = [
+  'sample',
+  'argmax',
+  'temperature',
+]
+
+export interface InferenceOptions {
+  mode: InferenceMode
+  // The temperature of the 'temperature' mode: a positive number.
+  temperature?: number
+}
+
+/**
+ * Actions selected by a policy network.
+ */
+export interface ActionSelection {
+  actions: tf.TypedArray
+  // For every action, the probabilities of all the discrete actions that it
+  // was selected by, including the temperature. `null` for a Gaussian head.
+  probabilities: number[][] | null
+}
+
+/**
+ * Regularization and gradient clipping of the updates of
+ * `PolicyNetwork.trainOnEpisodes()`.
+ */
+export interface PolicyGradientConfig {
+  // Weight of the entropy bonus: the mean entropy of the policy, times this
+  // coefficient, is subtracted from the loss, which keeps the policy from
+  // becoming deterministic too early. 0 turns it off.
+  entropyCoefficient: number
+  // The gradients are scaled down together so that their global norm is at
+  // most this, if set.
+  gradientClipNorm: number | null
+  // Every value of the gradients is clipped to
+  // `[-gradientClipValue, gradientClipValue]`, if set. This comes before the
+  // clipping of the global norm.
+  gradientClipValue: number | null
+}
+
+export const DEFAULT_POLICY_GRADIENT_CONFIG: PolicyGradientConfig = {
+  entropyCoefficient: 0,
+  gradientClipNorm: null,
+  gradientClipValue: null,
+}
+
+/**
+ * Statistics of an update of a policy network by `trainOnEpisodes()`, for
+ * diagnosing a training run that stalls or collapses.
+ */
+export interface PolicyGradientStats {
+  // Mean entropy of the distributions of the actions over all the steps,
+  // before the update. It falls towards zero (or, for a Gaussian head, below
+  // zero) as the policy becomes deterministic.
+  entropy: number
+  // The loss, including the entropy bonus, before the update.
+  loss: number
+  // The global norm of the gradients of the loss, before they are clipped:
+  // the L2 norm of all of them concatenated.
+  gradientNorm: number
+  // Mean and standard deviation of the discounted rewards of all the steps,
+  // before they are normalized.
+  returnMean: number
+  returnStd: number
+  // The L2 norm of the weights of every layer (kernel and bias together)
+  // after the update, by the name of the layer.
+  weightNorms: { [layer: string]: number }
+}
+
+/**
+ * Get the temperature that inference options apply to the distribution of
+ * the actions: 1 for the modes other than 'temperature'.
+ *
+ * @param {InferenceOptions} options
+ * @throws {Error} For an invalid temperature.
+ */
+function getTemperature(options: InferenceOptions) {
+  if (options.mode !== 'temperature') {
+    return 1
+  }
+  const { temperature } = options
+  if (!(temperature !== undefined && temperature > 0)) {
+    throw new Error(`Invalid temperature: ${temperature}`)
+  }
+  return temperature
+}
+
+/**
+ * Get the head of a policy network that acts in an action space.
+ *
+ * @param {Space} actionSpace
+ * @throws {Error} For action spaces that are not supported.
+ */
+export function getPolicyHead(actionSpace: Space): PolicyHead {
+  if (actionSpace.type === 'discrete') {
+    // Two actions keep the single output of the original policy network.
+    return actionSpace.n === 2 ? 'bernoulli' : 'categorical'
+  }
+  if (actionSpace.type === 'box' && getSpaceSize(actionSpace) === 1) {
+    return 'gaussian'
+  }
+  throw new Error(
+    `Unsupported action space of policy network: ` +
+      `${JSON.stringify(actionSpace)}`
+  )
+}
+
+/**
+ * Get the number of outputs of a policy network that acts in an action space.
+ *
+ * @param {Space} actionSpace
+ * @throws {Error} For action spaces that are not supported.
+ */
+export function getPolicyOutputSize(actionSpace: Space) {
+  switch (getPolicyHead(actionSpace)) {
+    case 'bernoulli':
+      return 1
+    case 'gaussian':
+      return 2
+    case 'categorical':
+      return getSpaceSize(actionSpace)
+  }
+}
 
 /**
  * Policy network for controlling the cart-pole system.
@@ -10,10 +168,17 @@ import { System } from './system'
  * force and the observed system state is a four-dimensional vector, consisting
  * of cart position, cart velocity, pole angle and pole angular velocity.
  *
+ * With a 'gaussian' head, the action is a continuous force instead, see
+ * `PolicyHead`.
  */
-export class PolicyNetwork {
+export class PolicyNetwork implements Trainer {
   public policyNet: tf.Sequential | tf.LayersModel
-  private currentActions_: tf.TypedArray
+  public readonly head: PolicyHead
+  // The regularization and gradient clipping of `trainOnEpisodes()`, see
+  // `createTrainer()`.
+  public policyGradientConfig: PolicyGradientConfig
+  // The statistics of the most recent call to `trainOnEpisodes()`, if any.
+  public lastIterationStats: PolicyGradientStats | null
 
   /**
    * Constructor of PolicyNetwork.
@@ -24,10 +189,14 @@ export class PolicyNetwork {
    *     layer)
    *   - An Array of numbers (for any number of hidden layers).
    *   - An instance of tf.LayersModel.
+   * @param {PolicyHead} head The distribution of the actions. By default
+   *   (e.g., for models saved without their head), 'bernoulli' for a model
+   *   with one output, 'gaussian' for two outputs and 'categorical' for more.
    */
   constructor({
     layersModel,
     sizes,
+    head,
   }: {
     layersModel?: tf.LayersModel
     sizes?: {
@@ -35,8 +204,8 @@ export class PolicyNetwork {
       inputSize: number
       outputSize: number
     }
+    head?: PolicyHead
   }) {
-    this.currentActions_ = new Uint8Array()
     if (layersModel instanceof tf.LayersModel) {
       this.policyNet = layersModel
     } else if (sizes !== undefined) {
@@ -46,6 +215,30 @@ export class PolicyNetwork {
         `Unable to create instance of PolicyNetwork: Invalid params`
       )
     }
+    const outputSize = this.policyNet.outputs[0].shape[1] as number
+    if (head === undefined) {
+      head =
+        outputSize === 1
+          ? 'bernoulli'
+          : outputSize === 2
+          ? 'gaussian'
+          : 'categorical'
+    }
+    this.head = head
+    this.policyGradientConfig = DEFAULT_POLICY_GRADIENT_CONFIG
+    this.lastIterationStats = null
+    const isValidOutputSize =
+      head === 'bernoulli'
+        ? outputSize === 1
+        : head === 'gaussian'
+        ? outputSize === 2
+        : outputSize >= 2
+    if (!isValidOutputSize) {
+      throw new Error(
+        `A policy network with a ${this.head} head can not have ` +
+          `${outputSize} outputs.`
+      )
+    }
   }
 
   /**
@@ -82,82 +275,73 @@ export class PolicyNetwork {
     })
     // The last layer has ${outputSize} units.
     // The single output number will be converted to a probability of selecting the leftward-force action.
+    // (For a Gaussian head, the two outputs are the mean and the log standard deviation of the force,
+    // and for a categorical head, the outputs are the logits of the actions.)
     network.add(tf.layers.dense({ units: outputSize }))
+    initializeWeights(network)
     return network
   }
 
   /**
    * Train the policy network's model.
    *
-   * @param {System} cartPoleSystem The cart-pole system object to use during
-   *   training.
+   * @param {Env | VectorEnv} env The environment to use during training,
+   *   e.g., the cart-pole system. With a `VectorEnv`, the games are played in
+   *   parallel, see `trainOnEpisodes()`.
    * @param {tf.train.Optimizer} optimizer An instance of TensorFlow.js
    *   Optimizer to use for training.
    * @param {number} discountRate Reward discounting rate: a number between 0
    *   and 1.
    * @param {number} numGames Number of game to play for each model parameter
    *   update.
-   * @param {number} maxStepsPerGame Maximum number of steps to perform during
-   *   a game. If this number is reached, the game will end immediately.
    * @returns The number of steps completed in the `numGames` games
    *   in this round of training.
    */
 
-  async train<T extends System>(
-    cartPoleSystem: T,
+  async train<E extends Env | VectorEnv>(
+    env: E,
     optimizer: tf.Optimizer,
     discountRate: number,
     numGames: number,
-    maxStepsPerGame: number,
-    render: (system: T) => Promise<void>,
+    render: (env: E) => Promise<void>,
     onGameEnd: (gameCount: number, totalGames: number) => void
   ) {
-    const allGradients: { [name: string]: Array<tf.Tensor[]> } = {}
-    const allRewards: Array<number[]> = []
-    const gameSteps: Array<number> = []
-    onGameEnd(0, numGames)
-    for (let i = 0; i < numGames; ++i) {
-      // Randomly initialize the state of the cart-pole system at the beginning
-      // of every game.
-      cartPoleSystem.setRandomState()
-      const gameRewards: Array<number> = []
-      const gameGradients: { [name: string]: tf.Tensor[] } = {}
-      for (let j = 0; j < maxStepsPerGame; ++j) {
-        // For every step of the game, remember gradients of the policy
-        // network's weights with respect to the probability of the action
-        // choice that lead to the reward.
-        const gradients = tf.tidy(() => {
-          const inputTensor = cartPoleSystem.getStateTensor()
-          return this.getGradientsAndSaveActions(inputTensor).grads
-        })
-
-        this.pushGradients(gameGradients, gradients)
-        const action = this.currentActions_[0]
-        const isDone = cartPoleSystem.update(action)
-
-        await render(cartPoleSystem)
-
-        if (isDone) {
-          // When the game ends before max step count is reached, a reward of
-          // 0 is given.
-          gameRewards.push(0)
-          break
-        } else {
-          // As long as the game doesn't end, each step leads to a reward of 1.
-          // These reward values will later be "discounted", leading to
-          // higher reward values for longer-lasting games.
-          gameRewards.push(1)
-        }
-      }
-      onGameEnd(i + 1, numGames)
-      gameSteps.push(gameRewards.length)
-      this.pushGradients(allGradients, gameGradients)
-      allRewards.push(gameRewards)
-      await tf.nextFrame()
-    }
+    // Only the states, actions and rewards of the games are kept until the
+    // update, rather than the gradients of every step.
+    const episodes = await playEpisodes(env, this, numGames, render, onGameEnd)
+    this.trainOnEpisodes(episodes, optimizer, discountRate)
+    return episodes.map((episode) => episode.rewards.length)
+  }
 
-    tf.tidy(() => {
-      // The following line does three things:
+  /**
+   * Update the policy network's model with recorded games.
+   *
+   * This evaluates the policy network on the states of all the steps at once
+   * and computes the gradients of a single loss: the mean negative log
+   * probability of the actions, scaled by the discounted and normalized
+   * rewards. Its gradients are the mean over all the steps of the gradients
+   * of the negative log probabilities of the steps, each scaled by the
+   * normalized reward of its step, i.e., the REINFORCE policy gradient.
+   *
+   * The loss and the gradients are regularized and clipped as set by
+   * `policyGradientConfig`. The statistics of the update are kept in
+   * `lastIterationStats`.
+   *
+   * @param {Episode[]} episodes The recorded games.
+   * @param {tf.train.Optimizer} optimizer
+   * @param {number} discountRate
+   */
+  trainOnEpisodes(
+    episodes: Episode[],
+    optimizer: tf.Optimizer,
+    discountRate: number
+  ) {
+    this.lastIterationStats = tf.tidy(() => {
+      const { states: stateArrays, actions } = concatEpisodes(episodes)
+      const states = tf.tensor2d(stateArrays)
+      const actionsTensor = tf.tensor1d(actions)
+      const rewardSequences = episodes.map((episode) => episode.rewards)
+      // The following line does two things:
       // 1. Performs reward discounting, i.e., make recent rewards count more
       //    than rewards from the further past. The effect is that the reward
       //    values from a game with many steps become larger than the values
@@ -167,104 +351,307 @@ export class PolicyNetwork {
       //    the rewards. Together with step 1, this makes the rewards from
       //    long-lasting games positive and rewards from short-lasting
       //    negative.
-      // 3. Scale the gradients with the normalized reward values.
-      const normalizedRewards = discountAndNormalizeRewards(
-        allRewards,
-        discountRate
+      const normalizedRewards = tf.concat(
+        discountAndNormalizeRewards(rewardSequences, discountRate)
       )
-      // Add the scaled gradients to the weights of the policy network. This
-      // step makes the policy network more likely to make choices that lead
-      // to long-lasting games in the future (i.e., the crux of this RL
-      // algorithm.)
-      optimizer.applyGradients(
-        scaleAndAverageGradients(allGradients, normalizedRewards)
+      const returns = tf.moments(
+        tf.concat(
+          rewardSequences.map((rewards) =>
+            discountRewards(rewards, discountRate)
+          )
+        )
+      )
+      const entropy = tf.mean(
+        this.entropies(this.policyNet.predict(states) as tf.Tensor2D)
       )
+      const { entropyCoefficient, gradientClipNorm, gradientClipValue } =
+        this.policyGradientConfig
+      // Scaling the log probabilities with the normalized rewards makes the
+      // policy network more likely to make choices that lead to long-lasting
+      // games in the future (i.e., the crux of this RL algorithm.)
+      const { value: loss, grads } = tf.variableGrads(() => {
+        const outputs = this.policyNet.predict(states) as tf.Tensor2D
+        const logProbs = this.logProbabilities(outputs, actionsTensor)
+        const policyLoss = tf.mean(logProbs.neg().mul(normalizedRewards))
+        return entropyCoefficient > 0
+          ? policyLoss
+              .sub(tf.mean(this.entropies(outputs)).mul(entropyCoefficient))
+              .asScalar()
+          : policyLoss.asScalar()
+      })
+      const names = Object.keys(grads)
+      const gradientNorm = globalNorm(names.map((name) => grads[name]))
+      let clippedGrads = names.map((name) => grads[name])
+      if (gradientClipValue !== null) {
+        clippedGrads = clippedGrads.map((grad) =>
+          tf.clipByValue(grad, -gradientClipValue, gradientClipValue)
+        )
+      }
+      if (gradientClipNorm !== null) {
+        const norm = globalNorm(clippedGrads)
+        const scale = tf.div(
+          gradientClipNorm,
+          tf.maximum(norm, gradientClipNorm)
+        )
+        clippedGrads = clippedGrads.map((grad) => grad.mul(scale))
+      }
+      const clipped: tf.NamedTensorMap = {}
+      names.forEach((name, i) => (clipped[name] = clippedGrads[i]))
+      optimizer.applyGradients(clipped)
+
+      const weightNorms: { [layer: string]: number } = {}
+      for (const layer of this.policyNet.layers) {
+        const weights = layer.getWeights()
+        if (weights.length > 0) {
+          weightNorms[layer.name] = globalNorm(weights).dataSync()[0]
+        }
+      }
+      return {
+        entropy: entropy.dataSync()[0],
+        loss: loss.dataSync()[0],
+        gradientNorm: gradientNorm.dataSync()[0],
+        returnMean: returns.mean.dataSync()[0],
+        returnStd: tf.sqrt(returns.variance).dataSync()[0],
+        weightNorms,
+      }
     })
-    tf.dispose(allGradients)
-    return gameSteps
   }
 
-  getGradientsAndSaveActions(inputTensor: tf.Tensor2D) {
-    const f = () =>
-      tf.tidy(() => {
-        const [logits, actions] = this.getLogitsAndActions(inputTensor)
-        this.currentActions_ = actions.dataSync()
-        const labels = tf.sub(
-          1,
-          tf.tensor2d(this.currentActions_, actions.shape)
-        )
-        return tf.losses.sigmoidCrossEntropy(labels, logits).asScalar()
-      })
-    return tf.variableGrads(f)
+  /**
+   * Get policy-network outputs and the sampled actions based on state-tensor
+   * inputs.
+   *
+   * @param {tf.Tensor} inputs A tf.Tensor instance of shape `[batchSize, 4]`.
+   * @returns {[tf.Tensor, tf.Tensor]}
+   *   1. The outputs tensor, of shape `[batchSize, outputSize]`: the logits
+   *      for a Bernoulli or categorical head.
+   *   2. The actions tensor, of shape `[batchSize]`.
+   */
+  getLogitsAndActions(inputs: tf.Tensor2D): [tf.Tensor2D, tf.Tensor1D] {
+    return tf.tidy(() => {
+      const outputs = this.policyNet.predict(inputs) as tf.Tensor2D
+      return [outputs, this.selectActions(outputs)]
+    })
   }
 
   /**
-   * Get policy-network logits and the action based on state-tensor inputs.
+   * Select actions from the distributions given by policy-network outputs.
    *
-   * @param {tf.Tensor} inputs A tf.Tensor instance of shape `[1, 4]`.
-   * @returns {[tf.Tensor, tf.Tensor]}
-   *   1. The logits tensor, of shape `[1, 1]`.
-   *   2. The actions tensor, of shape `[1, 1]`.
+   * @param {tf.Tensor2D} outputs The outputs, of shape
+   *   `[batchSize, outputSize]`.
+   * @param {InferenceOptions} options How to select the actions. Sampled, by
+   *   default.
+   * @returns The actions, of shape `[batchSize]`.
+   */
+  selectActions(
+    outputs: tf.Tensor2D,
+    options: InferenceOptions = { mode: 'sample' }
+  ) {
+    const temperature = getTemperature(options)
+    return tf.tidy(() => {
+      if (this.head === 'gaussian') {
+        const [mean, logStd] = splitGaussianOutputs(outputs)
+        if (options.mode === 'argmax') {
+          return mean
+        }
+        // The seed makes the sampling follow `seedRandom()`.
+        const noise = tf.randomNormal(mean.shape, 0, 1, 'float32', random())
+        return mean.add(logStd.exp().mul(temperature).mul(noise)) as tf.Tensor1D
+      }
+      const probs = this.actionProbabilities(outputs, temperature)
+      if (options.mode === 'argmax') {
+        return probs.argMax(-1) as tf.Tensor1D
+      }
+      // The seed makes the sampling follow `seedRandom()`.
+      return tf
+        .multinomial(probs, 1, random(), true)
+        .reshape([-1]) as tf.Tensor1D
+    })
+  }
+
+  /**
+   * Compute the probabilities of the discrete actions under the
+   * distributions given by policy-network outputs.
+   *
+   * @param {tf.Tensor2D} outputs The outputs, of shape
+   *   `[batchSize, outputSize]`.
+   * @param {number} temperature The logits are divided by it.
+   * @returns The probabilities, of shape `[batchSize, numActions]`.
+   * @throws {Error} For a Gaussian head, whose actions are continuous.
    */
-  getLogitsAndActions(inputs: tf.Tensor2D): [tf.Tensor, tf.Tensor2D] {
+  actionProbabilities(outputs: tf.Tensor2D, temperature = 1) {
+    if (this.head === 'gaussian') {
+      throw new Error('A Gaussian policy has no action probabilities')
+    }
     return tf.tidy(() => {
-      const logits = this.policyNet.predict(inputs) as tf.Tensor2D
+      const logits = outputs.div(temperature) as tf.Tensor2D
+      if (this.head === 'categorical') {
+        return tf.softmax(logits)
+      }
 
-      // Get the probability of the leftward action, of shape `[1, 2]`.
+      // Get the probability of the leftward action, of shape `[batchSize, 1]`.
       const leftProb = tf.sigmoid(logits)
 
-      // Probabilites of the left and right actions, of shape `[1, 2]`.
-      const leftRightProbs = tf.concat2d(
-        [leftProb, tf.sub<tf.Tensor2D>(1, leftProb)],
-        1
-      )
+      // Probabilites of the left and right actions, of shape `[batchSize, 2]`.
+      return tf.concat2d([leftProb, tf.sub<tf.Tensor2D>(1, leftProb)], 1)
+    })
+  }
 
-      const actions: tf.Tensor2D = tf.multinomial(
-        leftRightProbs,
-        1,
+  /**
+   * Compute the log probabilities of actions under the distributions given by
+   * policy-network outputs.
+   *
+   * This is differentiable with respect to `outputs`, so it is the basis of
+   * the policy-gradient losses of all the trainers.
+   *
+   * @param {tf.Tensor2D} outputs The outputs, of shape
+   *   `[batchSize, outputSize]`.
+   * @param {tf.Tensor1D} actions The actions, of shape `[batchSize]`.
+   * @returns The log probabilities (densities, for a Gaussian head), of shape
+   *   `[batchSize]`.
+   */
+  logProbabilities(outputs: tf.Tensor2D, actions: tf.Tensor1D) {
+    if (this.head === 'gaussian') {
+      const [mean, logStd] = splitGaussianOutputs(outputs)
+      const z = actions.toFloat().sub(mean).div(logStd.exp())
+      return z
+        .square()
+        .mul(-0.5)
+        .sub(logStd)
+        .sub(0.5 * Math.log(2 * Math.PI)) as tf.Tensor1D
+    }
+    if (this.head === 'categorical') {
+      const actionMasks = tf.oneHot(actions.toInt(), outputs.shape[1])
+      return tf.logSoftmax(outputs).mul(actionMasks).sum(1) as tf.Tensor1D
+    }
+    // The label of action 0 is 1, since the logit is that of the probability
+    // of action 0.
+    const labels = tf.sub(1, actions.toFloat()).reshape([-1, 1])
+    return tf.losses
+      .sigmoidCrossEntropy(
+        labels,
+        outputs,
+        undefined,
         undefined,
-        true
-      ) as tf.Tensor2D
+        tf.Reduction.NONE
+      )
+      .neg()
+      .reshape([-1]) as tf.Tensor1D
+  }
 
-      return [logits, actions]
-    })
+  /**
+   * Compute the entropies of the distributions given by policy-network
+   * outputs.
+   *
+   * @param {tf.Tensor2D} outputs The outputs, of shape
+   *   `[batchSize, outputSize]`.
+   * @returns The entropies, of shape `[batchSize]`.
+   */
+  entropies(outputs: tf.Tensor2D) {
+    if (this.head === 'gaussian') {
+      const [_mean, logStd] = splitGaussianOutputs(outputs)
+      return logStd.add(0.5 * Math.log(2 * Math.PI * Math.E)) as tf.Tensor1D
+    }
+    if (this.head === 'categorical') {
+      const logProbs = tf.logSoftmax(outputs)
+      return tf.exp(logProbs).mul(logProbs).sum(1).neg() as tf.Tensor1D
+    }
+    // With p = sigmoid(logits): -log(p) = softplus(-logits) and
+    // -log(1 - p) = softplus(logits).
+    const p = tf.sigmoid(outputs)
+    return p
+      .mul(tf.softplus(outputs.neg()))
+      .add(tf.sub(1, p).mul(tf.softplus(outputs)))
+      .reshape([-1]) as tf.Tensor1D
   }
 
   /**
    * Get actions based on a state-tensor input.
    *
    * @param {tf.Tensor} inputs A tf.Tensor instance of shape `[batchSize, 4]`.
-   * @param {Float32Array} inputs The actions for the inputs, with length
-   *   `batchSize`.
+   * @param {InferenceOptions} options How to select the actions. Sampled, by
+   *   default, as in training.
+   * @returns The actions for the inputs, with length `batchSize`.
    */
-  getActions(inputs: tf.Tensor2D) {
-    const [_logits, actions] = this.getLogitsAndActions(inputs)
-    return actions.dataSync()
+  getActions(
+    inputs: tf.Tensor2D,
+    options: InferenceOptions = { mode: 'sample' }
+  ) {
+    return tf.tidy(() => {
+      const outputs = this.policyNet.predict(inputs) as tf.Tensor2D
+      return this.selectActions(outputs, options).dataSync()
+    })
   }
 
   /**
-   * Push a new dictionary of gradients into records.
+   * Get actions based on a state-tensor input, together with the
+   * probabilities that they were selected by.
    *
-   * @param {{[varName: string]: tf.Tensor[]}} record The record of variable
-   *   gradient: a map from variable name to the Array of gradient values for
-   *   the variable.
-   * @param {{[varName: string]: tf.Tensor}} gradients The new gradients to push
-   *   into `record`: a map from variable name to the gradient Tensor.
+   * @param {tf.Tensor} inputs A tf.Tensor instance of shape `[batchSize, 4]`.
+   * @param {InferenceOptions} options How to select the actions.
    */
-  pushGradients(
-    record: { [varName: string]: Array<tf.Tensor | tf.Tensor[]> },
-    gradients: { [varName: string]: tf.Tensor | tf.Tensor[] }
-  ) {
-    for (const key in gradients) {
-      if (key in record) {
-        record[key].push(gradients[key])
-      } else {
-        record[key] = [gradients[key]]
-      }
+  getActionsAndProbabilities(
+    inputs: tf.Tensor2D,
+    options: InferenceOptions = { mode: 'sample' }
+  ): ActionSelection {
+    const outputs = this.policyNet.predict(inputs) as tf.Tensor2D
+    const actionsTensor = this.selectActions(outputs, options)
+    const actions = actionsTensor.dataSync()
+    let probabilities: number[][] | null = null
+    if (this.head !== 'gaussian') {
+      const probs = this.actionProbabilities(outputs, getTemperature(options))
+      probabilities = probs.arraySync()
+      probs.dispose()
     }
+    tf.dispose([outputs, actionsTensor])
+    return { actions, probabilities }
   }
 }
 
+/**
+ * Split the outputs of a policy network with a Gaussian head.
+ *
+ * @param {tf.Tensor2D} outputs The outputs, of shape `[batchSize, 2]`.
+ * @returns The means and the clipped log standard deviations, both of shape
+ *   `[batchSize]`.
+ */
+function splitGaussianOutputs(outputs: tf.Tensor2D) {
+  const [mean, logStd] = tf.unstack(outputs, 1) as tf.Tensor1D[]
+  return [mean, tf.clipByValue(logStd, MIN_LOG_STD, MAX_LOG_STD)]
+}
+
+/**
+ * Check the regularization and gradient clipping of a policy network.
+ *
+ * @param {PolicyGradientConfig} config
+ * @throws {Error} If any of the settings is invalid.
+ */
+export function checkPolicyGradientConfig(config: PolicyGradientConfig) {
+  const { entropyCoefficient, gradientClipNorm, gradientClipValue } = config
+  if (!(entropyCoefficient >= 0)) {
+    throw new Error(`Invalid entropy coefficient: ${entropyCoefficient}`)
+  }
+  if (gradientClipNorm !== null && !(gradientClipNorm > 0)) {
+    throw new Error(`Invalid gradient clipping norm: ${gradientClipNorm}`)
+  }
+  if (gradientClipValue !== null && !(gradientClipValue > 0)) {
+    throw new Error(`Invalid gradient clipping value: ${gradientClipValue}`)
+  }
+}
+
+/**
+ * Compute the global norm of tensors: the L2 norm of all their values
+ * concatenated.
+ *
+ * @param {tf.Tensor[]} tensors
+ * @returns The global norm, as a scalar.
+ */
+function globalNorm(tensors: tf.Tensor[]) {
+  return tf.tidy(() =>
+    tf.sqrt(tf.addN(tensors.map((tensor) => tf.sum(tf.square(tensor)))))
+  )
+}
+
 /**
  * Discount the reward values.
  *
@@ -298,7 +685,7 @@ function discountRewards(rewards: number[], discountRate: number) {
  *   0.95.
  * @returns The discounted and normalize reward values as an Array of tf.Tensor.
  */
-function discountAndNormalizeRewards(
+export function discountAndNormalizeRewards(
   rewardSequences: Array<number[]>,
   discountRate: number
 ) {
@@ -316,51 +703,3 @@ function discountAndNormalizeRewards(
     return normalized
   })
 }
-
-/**
- * Scale the gradient values using normalized reward values and compute average.
- *
- * The gradient values are scaled by the normalized reward values. Then they
- * are averaged across all games and all steps.
- *
- * @param {{[varName: string]: tf.Tensor[][]}} allGradients A map from variable
- *   name to all the gradient values for the variable across all games and all
- *   steps.
- * @param {tf.Tensor[]} normalizedRewards An Array of normalized reward values
- *   for all the games. Each element of the Array is a 1D tf.Tensor of which
- *   the length equals the number of steps in the game.
- * @returns Scaled and averaged gradients for the variables.
- */
-function scaleAndAverageGradients(
-  allGradients: { [varName: string]: Array<tf.Tensor[]> },
-  normalizedRewards: tf.Tensor[]
-) {
-  return tf.tidy(() => {
-    const gradients: { [varName: string]: tf.Tensor } = {}
-    for (const varName in allGradients) {
-      gradients[varName] = tf.tidy(() => {
-        // Stack gradients together.
-        const varGradients = allGradients[varName].map((varGameGradients) =>
-          tf.stack(varGameGradients)
-        )
-        // Expand dimensions of reward tensors to prepare for multiplication
-        // with broadcasting.
-        const expandedDims: Array<number> = []
-        for (let i = 0; i < varGradients[0].rank - 1; ++i) {
-          expandedDims.push(1)
-        }
-        const reshapedNormalizedRewards = normalizedRewards.map((rs) =>
-          rs.reshape(rs.shape.concat(expandedDims))
-        )
-        for (let g = 0; g < varGradients.length; ++g) {
-          // This mul() call uses broadcasting.
-          varGradients[g] = varGradients[g].mul(reshapedNormalizedRewards[g])
-        }
-        // Concatenate the scaled gradients together, then average them across
-        // all the steps of all the games.
-        return tf.mean(tf.concat(varGradients, 0), 0)
-      })
-    }
-    return gradients
-  })
-}
@@ -0,0 +1,256 @@
+import * as tf from '@tensorflow/tfjs'
+
+import { createEnv, getSpaces } from '../environments'
+import { seedRandom } from '../utils'
+import { getSpaceSize } from './env'
+import {
+  DEFAULT_POLICY_GRADIENT_CONFIG,
+  PolicyGradientConfig,
+  PolicyHead,
+  PolicyNetwork,
+  checkPolicyGradientConfig,
+  discountAndNormalizeRewards,
+  getPolicyHead,
+  getPolicyOutputSize,
+} from './policyNetwork'
+import { Episode, playEpisodes } from './rollouts'
+
+/**
+ * Update a policy network the way it used to be before the batched loss of
+ * `trainOnEpisodes()`: with the gradients of every step, scaled by the
+ * normalized reward of the step and averaged over all the steps (see
+ * `benchmark.ts`).
+ */
+function trainPerStep(
+  policyNetwork: PolicyNetwork,
+  episodes: Episode[],
+  optimizer: tf.Optimizer,
+  discountRate: number
+) {
+  tf.tidy(() => {
+    const normalizedRewards = discountAndNormalizeRewards(
+      episodes.map((episode) => episode.rewards),
+      discountRate
+    )
+    const scaled: { [varName: string]: tf.Tensor[] } = {}
+    episodes.forEach((episode, i) => {
+      const rewards = normalizedRewards[i].dataSync()
+      episode.states.forEach((state, j) => {
+        const { grads } = tf.variableGrads(() => {
+          const outputs = policyNetwork.policyNet.predict(
+            tf.tensor2d([state])
+          ) as tf.Tensor2D
+          const logProbs = policyNetwork.logProbabilities(
+            outputs,
+            tf.tensor1d([episode.actions[j]])
+          )
+          return tf.mean(logProbs.neg()).asScalar()
+        })
+        for (const varName in grads) {
+          if (!(varName in scaled)) {
+            scaled[varName] = []
+          }
+          scaled[varName].push(grads[varName].mul(rewards[j]))
+        }
+      })
+    })
+    const gradients: { [varName: string]: tf.Tensor } = {}
+    for (const varName in scaled) {
+      gradients[varName] = tf.mean(tf.stack(scaled[varName]), 0)
+    }
+    optimizer.applyGradients(gradients)
+  })
+}
+
+/**
+ * Create a policy network of a head for inputs of size 1.
+ *
+ * @param {PolicyHead} head
+ * @param {number} outputSize
+ */
+function createPolicyNetwork(head: PolicyHead, outputSize: number) {
+  return new PolicyNetwork({
+    sizes: { hiddenLayerSizes: [4], inputSize: 1, outputSize },
+    head,
+  })
+}
+
+/**
+ * Compute the log probabilities and entropies of the distributions given by
+ * policy-network outputs.
+ *
+ * @param {PolicyNetwork} policyNetwork
+ * @param {number[][]} outputs
+ * @param {number[]} actions
+ */
+function getLogProbabilitiesAndEntropies(
+  policyNetwork: PolicyNetwork,
+  outputs: number[][],
+  actions: number[]
+) {
+  return tf.tidy(() => {
+    const outputsTensor = tf.tensor2d(outputs)
+    return {
+      logProbs: Array.from(
+        policyNetwork
+          .logProbabilities(outputsTensor, tf.tensor1d(actions))
+          .dataSync()
+      ),
+      entropies: Array.from(policyNetwork.entropies(outputsTensor).dataSync()),
+    }
+  })
+}
+
+function expectValuesClose(actual: number[], expected: number[]) {
+  expect(actual.length).toEqual(expected.length)
+  actual.forEach((x, i) => expect(x).toBeCloseTo(expected[i], 4))
+}
+
+describe('PolicyNetwork.logProbabilities', () => {
+  it('computes the densities and entropies of a Gaussian head', () => {
+    const policyNetwork = createPolicyNetwork('gaussian', 2)
+    // [mean, logStd]. The last two log standard deviations are clipped to
+    // -5 and 2.
+    const outputs = [
+      [0, 0],
+      [1, 0.5],
+      [0, -7],
+      [0.2, 3],
+    ]
+    const actions = [1, -0.5, 0.001, 1]
+    const clippedLogStds = [0, 0.5, -5, 2]
+    const { logProbs, entropies } = getLogProbabilitiesAndEntropies(
+      policyNetwork,
+      outputs,
+      actions
+    )
+    // log N(a; mean, std) = -((a - mean) / std)^2 / 2 - log(std)
+    //   - log(2 pi) / 2
+    expectValuesClose(
+      logProbs,
+      outputs.map(([mean], i) => {
+        const z = (actions[i] - mean) / Math.exp(clippedLogStds[i])
+        return -0.5 * z * z - clippedLogStds[i] - 0.5 * Math.log(2 * Math.PI)
+      })
+    )
+    // The entropy of N(mean, std) is log(std) + log(2 pi e) / 2.
+    expectValuesClose(
+      entropies,
+      clippedLogStds.map(
+        (logStd) => logStd + 0.5 * Math.log(2 * Math.PI * Math.E)
+      )
+    )
+    policyNetwork.policyNet.dispose()
+  })
+
+  it('computes the probabilities and entropies of a categorical head', () => {
+    const policyNetwork = createPolicyNetwork('categorical', 3)
+    const outputs = [
+      [1, 2, 3],
+      [0, 0, 0],
+      [-1, 0.5, 4],
+    ]
+    const actions = [2, 1, 0]
+    const { logProbs, entropies } = getLogProbabilitiesAndEntropies(
+      policyNetwork,
+      outputs,
+      actions
+    )
+    // The softmax of the logits.
+    const probs = outputs.map((logits) => {
+      const exps = logits.map(Math.exp)
+      const sum = exps.reduce((a, b) => a + b)
+      return exps.map((x) => x / sum)
+    })
+    expectValuesClose(
+      logProbs,
+      actions.map((action, i) => Math.log(probs[i][action]))
+    )
+    expectValuesClose(
+      entropies,
+      probs.map((p) => -p.reduce((sum, x) => sum + x * Math.log(x), 0))
+    )
+    // Uniform over 3 actions.
+    expect(entropies[1]).toBeCloseTo(Math.log(3), 4)
+    policyNetwork.policyNet.dispose()
+  })
+})
+
+describe('PolicyNetwork.trainOnEpisodes', () => {
+  afterEach(() => seedRandom(null))
+
+  it('updates the weights like the gradients of every step', async () => {
+    seedRandom(0)
+    const { actionSpace, observationSpace } = getSpaces('mountain-car')
+    const createPolicyNetwork = () =>
+      new PolicyNetwork({
+        sizes: {
+          hiddenLayerSizes: [16],
+          inputSize: getSpaceSize(observationSpace),
+          outputSize: getPolicyOutputSize(actionSpace),
+        },
+        head: getPolicyHead(actionSpace),
+      })
+    const batched = createPolicyNetwork()
+    const perStep = createPolicyNetwork()
+    perStep.policyNet.setWeights(batched.policyNet.getWeights())
+    const initialWeights = batched.policyNet
+      .getWeights()
+      .map((weight) => weight.dataSync().slice())
+    const env = createEnv('mountain-car', undefined, 100)
+    const episodes = await playEpisodes(
+      env,
+      batched,
+      4,
+      async () => {},
+      () => {}
+    )
+
+    const batchedOptimizer = tf.train.adam(0.05)
+    const perStepOptimizer = tf.train.adam(0.05)
+    batched.trainOnEpisodes(episodes, batchedOptimizer, 0.95)
+    trainPerStep(perStep, episodes, perStepOptimizer, 0.95)
+
+    // The two differ by the rounding of float32 only: about 1e-7.
+    const perStepWeights = perStep.policyNet.getWeights()
+    batched.policyNet.getWeights().forEach((weight, i) => {
+      const difference = tf.tidy(
+        () => weight.sub(perStepWeights[i]).abs().max().dataSync()[0]
+      )
+      expect(difference).toBeLessThan(1e-6)
+      expect(weight.dataSync()).not.toEqual(initialWeights[i])
+    })
+    batchedOptimizer.dispose()
+    perStepOptimizer.dispose()
+    batched.policyNet.dispose()
+    perStep.policyNet.dispose()
+  })
+})
+
+describe('checkPolicyGradientConfig', () => {
+  it('rejects invalid entropy coefficients and clipping', () => {
+    expect(() =>
+      checkPolicyGradientConfig({
+        entropyCoefficient: 0.01,
+        gradientClipNorm: 0.5,
+        gradientClipValue: 1,
+      })
+    ).not.toThrow()
+    const invalid: Array<[Partial<PolicyGradientConfig>, RegExp]> = [
+      [{ entropyCoefficient: -0.01 }, /Invalid entropy coefficient/],
+      [{ entropyCoefficient: NaN }, /Invalid entropy coefficient/],
+      [{ gradientClipNorm: 0 }, /Invalid gradient clipping norm/],
+      [{ gradientClipNorm: -1 }, /Invalid gradient clipping norm/],
+      [{ gradientClipValue: 0 }, /Invalid gradient clipping value/],
+      [{ gradientClipValue: NaN }, /Invalid gradient clipping value/],
+    ]
+    for (const [changes, error] of invalid) {
+      expect(() =>
+        checkPolicyGradientConfig({
+          ...DEFAULT_POLICY_GRADIENT_CONFIG,
+          ...changes,
+        })
+      ).toThrowError(error)
+    }
+  })
+})
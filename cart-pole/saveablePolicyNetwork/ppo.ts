@@ -0,0 +1,320 @@
+import * as tf from '@tensorflow/tfjs'
+
+import { shuffle } from '../utils'
+import { Env, VectorEnv, getSpaceSize } from './env'
+import { PolicyNetwork } from './policyNetwork'
+import {
+  concatEpisodes,
+  createValueNetwork,
+  estimateAdvantages,
+  normalize,
+  playEpisodes,
+} from './rollouts'
+import { Trainer } from './trainer'
+
+/**
+ * Statistics of a PPO training iteration.
+ */
+export interface PPOIterationStats {
+  // Approximate KL divergence between the policy before and after the
+  // iteration's updates, estimated as the mean of `log(p_old) - log(p_new)`
+  // over the rollouts.
+  approxKL: number
+  // Fraction of the steps of the rollouts whose probability ratio falls
+  // outside the clipping range after the iteration's updates.
+  clipFraction: number
+  // Losses of the updated networks on the rollouts.
+  policyLoss: number
+  valueLoss: number
+  entropy: number
+}
+
+/**
+ * Proximal Policy Optimization (PPO) trainer of a policy network.
+ *
+ * Every iteration collects rollouts with the current policy and then runs
+ * several epochs of minibatch updates of the clipped surrogate objective with
+ * an entropy bonus, and of the value loss of the value network that provides
+ * the baseline of the advantages.
+ *
+ * See: Schulman et al., "Proximal Policy Optimization Algorithms",
+ * https://arxiv.org/abs/1707.06347
+ */
+export class PPOTrainer implements Trainer {
+  public policyNetwork: PolicyNetwork
+  // Unless an existing one is given, created on first use, when the
+  // observation size is known.
+  public valueNet: tf.LayersModel | null
+  // The statistics of the most recent call to `train()`, if any.
+  public lastIterationStats: PPOIterationStats | null
+  // The optimizer of the value network, whose state is saved along with it.
+  public readonly valueOptimizer: tf.Optimizer
+  private valueHiddenLayerSizes: number[]
+  private gaeLambda: number
+  private clipRatio: number
+  private epochs: number
+  private minibatchSize: number
+  private entropyCoefficient: number
+
+  /**
+   * Constructor of PPOTrainer.
+   *
+   * @param {PolicyNetwork} policyNetwork The policy network to train.
+   * @param {number[]} valueHiddenLayerSizes Sizes of the hidden layers of the
+   *   value network.
+   * @param {number} valueLearningRate Learning rate of the value network.
+   * @param {number} gaeLambda Lambda of generalized advantage estimation: a
+   *   number between 0 and 1.
+   * @param {number} clipRatio The probability ratio between the new and the
+   *   old policy is clipped to `[1 - clipRatio, 1 + clipRatio]`.
+   * @param {number} epochs Number of passes over the rollouts per iteration.
+   * @param {number} minibatchSize Number of steps per minibatch update.
+   * @param {number} entropyCoefficient Weight of the entropy bonus.
+   * @param {tf.LayersModel | null} valueNet An existing value network to go
+   *   on training, e.g., a saved one. The trainer takes it over.
+   * @param {tf.Optimizer | null} valueOptimizer An optimizer of the value
+   *   network to use instead of an Adam optimizer with `valueLearningRate`,
+   *   e.g., one with a restored state. The trainer takes it over.
+   */
+  constructor({
+    policyNetwork,
+    valueHiddenLayerSizes,
+    valueLearningRate,
+    gaeLambda = 0.95,
+    clipRatio = 0.2,
+    epochs = 4,
+    minibatchSize = 64,
+    entropyCoefficient = 0.01,
+    valueNet = null,
+    valueOptimizer = null,
+  }: {
+    policyNetwork: PolicyNetwork
+    valueHiddenLayerSizes: number[]
+    valueLearningRate: number
+    gaeLambda?: number
+    clipRatio?: number
+    epochs?: number
+    minibatchSize?: number
+    entropyCoefficient?: number
+    valueNet?: tf.LayersModel | null
+    valueOptimizer?: tf.Optimizer | null
+  }) {
+    if (!(gaeLambda >= 0 && gaeLambda <= 1)) {
+      throw new Error(`Invalid GAE lambda: ${gaeLambda}`)
+    }
+    if (!(clipRatio > 0)) {
+      throw new Error(`Invalid clip ratio: ${clipRatio}`)
+    }
+    if (!(epochs > 0) || !(minibatchSize > 0)) {
+      throw new Error(
+        `Invalid epochs and minibatch size: ${epochs}, ${minibatchSize}`
+      )
+    }
+    this.policyNetwork = policyNetwork
+    this.valueNet = valueNet
+    this.lastIterationStats = null
+    this.valueHiddenLayerSizes = valueHiddenLayerSizes
+    this.valueOptimizer =
+      valueOptimizer !== null
+        ? valueOptimizer
+        : tf.train.adam(valueLearningRate)
+    this.gaeLambda = gaeLambda
+    this.clipRatio = clipRatio
+    this.epochs = epochs
+    this.minibatchSize = minibatchSize
+    this.entropyCoefficient = entropyCoefficient
+  }
+
+  /**
+   * Collect rollouts and update the policy network and the value network.
+   *
+   * See `Trainer.train()` for the parameters. The `optimizer` is used for the
+   * policy network; the value network has an optimizer of its own, so that
+   * the state of `optimizer` only ever covers the policy network.
+   */
+  async train<E extends Env | VectorEnv>(
+    env: E,
+    optimizer: tf.Optimizer,
+    discountRate: number,
+    numGames: number,
+    render: (env: E) => Promise<void>,
+    onGameEnd: (gameCount: number, totalGames: number) => void
+  ) {
+    const valueNet = this.getValueNet(getSpaceSize(env.observationSpace))
+    const episodes = await playEpisodes(
+      env,
+      this.policyNetwork,
+      numGames,
+      render,
+      onGameEnd
+    )
+
+    const { advantages, returns } = estimateAdvantages(
+      valueNet,
+      episodes,
+      discountRate,
+      this.gaeLambda
+    )
+    const { states: stateArrays, actions } = concatEpisodes(episodes)
+    const numSteps = actions.length
+
+    const states = tf.tensor2d(stateArrays)
+    const actionsTensor = tf.tensor1d(actions)
+    const normalizedAdvantages = tf.tidy(() =>
+      normalize(tf.tensor1d(advantages))
+    )
+    const returnsTensor = tf.tensor1d(returns)
+    const oldLogProbs = tf.tidy(() =>
+      this.policyNetwork.logProbabilities(
+        this.policyNetwork.policyNet.predict(states) as tf.Tensor2D,
+        actionsTensor
+      )
+    )
+
+    const policyVariables = getVariables(this.policyNetwork.policyNet)
+    const valueVariables = getVariables(valueNet)
+    const indices = Array.from({ length: numSteps }, (_, i) => i)
+    for (let epoch = 0; epoch < this.epochs; ++epoch) {
+      shuffle(indices)
+      for (let start = 0; start < numSteps; start += this.minibatchSize) {
+        tf.tidy(() => {
+          const batch = tf.tensor1d(
+            indices.slice(start, start + this.minibatchSize),
+            'int32'
+          )
+          const batchStates = states.gather(batch)
+          optimizer.minimize(
+            () => {
+              const { policyLoss, entropy } = this.computePolicyLosses(
+                batchStates,
+                actionsTensor.gather(batch),
+                normalizedAdvantages.gather(batch),
+                oldLogProbs.gather(batch)
+              )
+              return policyLoss
+                .sub(entropy.mul(this.entropyCoefficient))
+                .asScalar()
+            },
+            false,
+            policyVariables
+          )
+          this.valueOptimizer.minimize(
+            () =>
+              computeValueLoss(
+                valueNet,
+                batchStates,
+                returnsTensor.gather(batch)
+              ),
+            false,
+            valueVariables
+          )
+        })
+        await tf.nextFrame()
+      }
+    }
+
+    // Evaluate the updated networks on all the rollouts.
+    this.lastIterationStats = tf.tidy(() => {
+      const losses = this.computePolicyLosses(
+        states,
+        actionsTensor,
+        normalizedAdvantages,
+        oldLogProbs
+      )
+      const isClipped = tf.greater(tf.abs(losses.ratios.sub(1)), this.clipRatio)
+      return {
+        approxKL: oldLogProbs.sub(losses.logProbs).mean().dataSync()[0],
+        clipFraction: isClipped.cast('float32').mean().dataSync()[0],
+        policyLoss: losses.policyLoss.dataSync()[0],
+        valueLoss: computeValueLoss(
+          valueNet,
+          states,
+          returnsTensor
+        ).dataSync()[0],
+        entropy: losses.entropy.dataSync()[0],
+      }
+    })
+    tf.dispose([
+      states,
+      actionsTensor,
+      normalizedAdvantages,
+      returnsTensor,
+      oldLogProbs,
+    ])
+    return episodes.map((episode) => episode.rewards.length)
+  }
+
+  /**
+   * Compute the PPO losses of the policy on a batch of steps.
+   *
+   * @returns The clipped surrogate policy loss, the mean entropy of the
+   *   policy, and, for every step, the log probability of the action under
+   *   the current policy and its ratio to the probability under the old
+   *   policy.
+   */
+  private computePolicyLosses(
+    states: tf.Tensor2D,
+    actions: tf.Tensor1D,
+    advantages: tf.Tensor1D,
+    oldLogProbs: tf.Tensor1D
+  ) {
+    const outputs = this.policyNetwork.policyNet.predict(states) as tf.Tensor2D
+    const logProbs = this.policyNetwork.logProbabilities(outputs, actions)
+    const ratios = tf.exp(logProbs.sub(oldLogProbs))
+    const clippedRatios = tf.clipByValue(
+      ratios,
+      1 - this.clipRatio,
+      1 + this.clipRatio
+    )
+    const policyLoss = tf
+      .minimum(ratios.mul(advantages), clippedRatios.mul(advantages))
+      .mean()
+      .neg()
+    const entropy = this.policyNetwork.entropies(outputs).mean()
+    return { policyLoss, entropy, logProbs, ratios }
+  }
+
+  private getValueNet(inputSize: number) {
+    if (this.valueNet === null) {
+      this.valueNet = createValueNetwork(this.valueHiddenLayerSizes, inputSize)
+    }
+    return this.valueNet
+  }
+
+  /**
+   * Dispose the value network and its optimizer.
+   */
+  dispose() {
+    if (this.valueNet !== null) {
+      this.valueNet.dispose()
+      this.valueNet = null
+    }
+    this.valueOptimizer.dispose()
+  }
+}
+
+/**
+ * Compute the mean squared error of the value network on a batch of steps.
+ *
+ * @param {tf.LayersModel} valueNet
+ * @param {tf.Tensor2D} states
+ * @param {tf.Tensor1D} returns The returns that the values estimate.
+ */
+function computeValueLoss(
+  valueNet: tf.LayersModel,
+  states: tf.Tensor2D,
+  returns: tf.Tensor1D
+) {
+  const values = (valueNet.predict(states) as tf.Tensor2D).reshape([-1])
+  return tf.losses.meanSquaredError(returns, values).asScalar()
+}
+
+/**
+ * Get the trainable variables of a model, for an optimizer to update only
+ * those.
+ *
+ * @param {tf.LayersModel} model
+ */
+function getVariables(model: tf.LayersModel) {
+  return model.trainableWeights.map((weight) => weight.read() as tf.Variable)
+}
@@ -0,0 +1,61 @@
+import * as tf from '@tensorflow/tfjs'
+
+import { DEFAULT_CART_POLE_CONFIG } from '../cart_pole'
+import { createEnv } from '../environments'
+import { seedRandom } from '../utils'
+import { PolicyNetwork } from './policyNetwork'
+import { PPOTrainer } from './ppo'
+
+describe('PPOTrainer', () => {
+  afterEach(() => seedRandom(null))
+
+  it('updates the value network with an optimizer of its own', async () => {
+    seedRandom(1)
+    const policyNetwork = new PolicyNetwork({
+      sizes: { hiddenLayerSizes: 8, inputSize: 4, outputSize: 1 },
+    })
+    const trainer = new PPOTrainer({
+      policyNetwork,
+      valueHiddenLayerSizes: [8],
+      valueLearningRate: 0.01,
+      epochs: 2,
+      minibatchSize: 16,
+    })
+    const optimizer = tf.train.adam(0.01)
+    const env = createEnv('cart-pole', DEFAULT_CART_POLE_CONFIG, 20)
+    await trainer.train(
+      env,
+      optimizer,
+      0.95,
+      1,
+      async () => {},
+      () => {}
+    )
+    const valueNet = trainer.valueNet as tf.LayersModel
+    const valueWeights = valueNet.getWeights().map((w) => w.dataSync())
+    await trainer.train(
+      env,
+      optimizer,
+      0.95,
+      1,
+      async () => {},
+      () => {}
+    )
+
+    // The state of the optimizer, i.e., its iteration count and the moments
+    // of every variable, only covers the policy network...
+    const numPolicyVariables = policyNetwork.policyNet.trainableWeights.length
+    expect((await optimizer.getWeights()).length).toEqual(
+      1 + 2 * numPolicyVariables
+    )
+    // ...while the value network is trained all the same.
+    valueNet.getWeights().forEach((weight, i) => {
+      if (weight.rank === 2) {
+        expect(weight.dataSync()).not.toEqual(valueWeights[i])
+      }
+    })
+    optimizer.dispose()
+    trainer.dispose()
+    policyNetwork.policyNet.dispose()
+  })
+})
@@ -0,0 +1,437 @@
+import * as tf from '@tensorflow/tfjs'
+
+import { initializeWeights, random } from '../utils'
+import { Env, VectorEnv } from './env'
+import { ReplayMemory } from './replayMemory'
+import { Trainer } from './trainer'
+
+/**
+ * Configuration of the training of a Q-network.
+ */
+export interface DQNConfig {
+  // Maximal number of transitions kept in the replay buffer.
+  replayBufferSize: number
+  // Number of transitions sampled from the replay buffer for every update.
+  batchSize: number
+  // Number of steps between two copies of the online network's weights to
+  // the target network.
+  targetSyncEvery: number
+  // Exploration rate (the probability of taking a random action) is annealed
+  // linearly from `epsilonInit` to `epsilonFinal` over the first
+  // `epsilonDecaySteps` steps of training, and stays at `epsilonFinal`
+  // afterwards.
+  epsilonInit: number
+  epsilonFinal: number
+  epsilonDecaySteps: number
+  // Whether to compute the targets of the updates as in double DQN, i.e.,
+  // let the online network pick the best next action and the target network
+  // estimate its value.
+  doubleDQN: boolean
+}
+
+export const DEFAULT_DQN_CONFIG: DQNConfig = {
+  replayBufferSize: 10000,
+  batchSize: 64,
+  targetSyncEvery: 500,
+  epsilonInit: 1,
+  epsilonFinal: 0.01,
+  epsilonDecaySteps: 10000,
+  doubleDQN: true,
+}
+
+/**
+ * A step of a game, as stored in the replay buffer.
+ */
+interface Transition {
+  state: number[]
+  action: number
+  reward: number
+  nextState: number[]
+  // Whether the system failed in this step. No rewards follow a failure, so
+  // the value of `nextState` does not count towards the target.
+  done: boolean
+}
+
+/**
+ * Check that a DQN configuration is valid.
+ *
+ * @param {DQNConfig} config
+ * @throws {Error} If any field of `config` is out of range.
+ */
+function checkDQNConfig(config: DQNConfig) {
+  if (!(config.replayBufferSize > 0)) {
+    throw new Error(`Invalid replay buffer size: ${config.replayBufferSize}`)
+  }
+  if (!(config.batchSize > 0 && config.batchSize <= config.replayBufferSize)) {
+    throw new Error(
+      `Invalid batch size: ${config.batchSize} ` +
+        `(replay buffer size: ${config.replayBufferSize})`
+    )
+  }
+  if (!(config.targetSyncEvery > 0)) {
+    throw new Error(`Invalid target sync interval: ${config.targetSyncEvery}`)
+  }
+  for (const epsilon of [config.epsilonInit, config.epsilonFinal]) {
+    if (!(epsilon >= 0 && epsilon <= 1)) {
+      throw new Error(`Invalid epsilon: ${epsilon}`)
+    }
+  }
+  if (!(config.epsilonDecaySteps >= 0)) {
+    throw new Error(`Invalid epsilon decay steps: ${config.epsilonDecaySteps}`)
+  }
+}
+
+/**
+ * Deep Q-network (DQN) agent for systems with discrete actions.
+ *
+ * The network estimates the value (Q-value) of every action in the observed
+ * state of the system, and the agent takes the action with the highest value.
+ * It is trained by playing games with epsilon-greedy exploration and fitting
+ * the Q-values of batches of steps, sampled from a replay buffer, to their
+ * one-step temporal-difference targets. The targets are computed with a
+ * target network, a copy of the network that is only updated periodically.
+ *
+ * See: Mnih et al., "Human-level control through deep reinforcement
+ * learning", https://www.nature.com/articles/nature14236 and van Hasselt et
+ * al., "Deep Reinforcement Learning with Double Q-learning",
+ * https://arxiv.org/abs/1509.06461
+ */
+export class QNetwork implements Trainer {
+  public onlineNet: tf.Sequential | tf.LayersModel
+  public config: DQNConfig
+  // Number of steps played in training so far. It drives the annealing of
+  // epsilon and the sync of the target network.
+  public stepCount: number
+  // Created on first use and whenever the replay buffer size changes.
+  private replayMemory_: ReplayMemory<Transition> | null
+  // Created on first use.
+  private targetNet_: tf.LayersModel | null
+
+  /**
+   * Constructor of QNetwork.
+   *
+   * @param {tf.LayersModel} layersModel An existing model, e.g., a loaded one.
+   * @param sizes The sizes of a new model. `outputSize` is the number of
+   *   actions.
+   * @param {DQNConfig} config Defaults to `DEFAULT_DQN_CONFIG`.
+   */
+  constructor({
+    layersModel,
+    sizes,
+    config = DEFAULT_DQN_CONFIG,
+  }: {
+    layersModel?: tf.LayersModel
+    sizes?: {
+      hiddenLayerSizes: number | number[]
+      inputSize: number
+      outputSize: number
+    }
+    config?: DQNConfig
+  }) {
+    if (layersModel instanceof tf.LayersModel) {
+      this.onlineNet = layersModel
+    } else if (sizes !== undefined) {
+      this.onlineNet = createQNetwork(sizes)
+    } else {
+      throw new Error(`Unable to create instance of QNetwork: Invalid params`)
+    }
+    checkDQNConfig(config)
+    this.config = { ...config }
+    this.stepCount = 0
+    this.replayMemory_ = null
+    this.targetNet_ = null
+  }
+
+  /**
+   * Change the training configuration.
+   *
+   * The replay buffer is kept unless its size changes.
+   *
+   * @param {DQNConfig} config
+   */
+  setConfig(config: DQNConfig) {
+    checkDQNConfig(config)
+    if (
+      this.replayMemory_ !== null &&
+      this.replayMemory_.maxLen !== config.replayBufferSize
+    ) {
+      this.replayMemory_ = null
+    }
+    this.config = { ...config }
+  }
+
+  /**
+   * Get the current exploration rate.
+   */
+  getEpsilon() {
+    const { epsilonInit, epsilonFinal, epsilonDecaySteps } = this.config
+    if (this.stepCount >= epsilonDecaySteps) {
+      return epsilonFinal
+    }
+    return (
+      epsilonInit +
+      ((epsilonFinal - epsilonInit) * this.stepCount) / epsilonDecaySteps
+    )
+  }
+
+  /**
+   * Get the Q-values of all actions.
+   *
+   * @param {tf.Tensor} inputs A tf.Tensor instance of shape `[batchSize, 4]`.
+   * @returns The Q-values, of shape `[batchSize, numActions]`.
+   */
+  getQValues(inputs: tf.Tensor2D) {
+    return this.onlineNet.predict(inputs) as tf.Tensor2D
+  }
+
+  /**
+   * Get the greedy actions based on a state-tensor input.
+   *
+   * @param {tf.Tensor} inputs A tf.Tensor instance of shape `[batchSize, 4]`.
+   * @returns The actions with the highest Q-values for the inputs, with
+   *   length `batchSize`.
+   */
+  getActions(inputs: tf.Tensor2D) {
+    return tf.tidy(() => this.getQValues(inputs).argMax(-1).dataSync())
+  }
+
+  /**
+   * Train the Q-network.
+   *
+   * See `Trainer.train()` for the parameters. The network is updated after
+   * every step of every game, as soon as the replay buffer holds a batch.
+   * Since that update dominates the training time, the games are always
+   * played one after another, and a `VectorEnv` is not supported.
+   */
+  async train<E extends Env | VectorEnv>(
+    env: E,
+    optimizer: tf.Optimizer,
+    discountRate: number,
+    numGames: number,
+    render: (env: E) => Promise<void>,
+    onGameEnd: (gameCount: number, totalGames: number) => void
+  ) {
+    if (env instanceof VectorEnv) {
+      throw new Error('DQN training does not support vector environments.')
+    }
+    if (env.actionSpace.type !== 'discrete') {
+      throw new Error('DQN training only supports discrete actions.')
+    }
+    const singleEnv = env as Env
+    const replayMemory = this.getReplayMemory()
+    const numActions = this.numActions()
+    const gameSteps: number[] = []
+    onGameEnd(0, numGames)
+    for (let i = 0; i < numGames; ++i) {
+      let state = singleEnv.reset().observation
+      let steps = 0
+      for (;;) {
+        let action: number
+        if (random() < this.getEpsilon()) {
+          action = Math.floor(random() * numActions)
+        } else {
+          action = tf.tidy(() => this.getActions(tf.tensor2d([state]))[0])
+        }
+        const {
+          observation: nextState,
+          reward,
+          terminated,
+          truncated,
+        } = singleEnv.step(action)
+        await render(env)
+        steps++
+        // A truncated game didn't end in a terminal state, so its last step
+        // keeps the value of its next state.
+        replayMemory.append({
+          state,
+          action,
+          reward,
+          nextState,
+          done: terminated,
+        })
+        state = nextState
+        this.stepCount++
+        if (replayMemory.length >= this.config.batchSize) {
+          this.trainOnReplayBatch(optimizer, discountRate)
+        }
+        if (this.stepCount % this.config.targetSyncEvery === 0) {
+          this.syncTargetNetwork()
+        }
+        if (terminated || truncated) {
+          break
+        }
+      }
+      gameSteps.push(steps)
+      onGameEnd(i + 1, numGames)
+      await tf.nextFrame()
+    }
+    return gameSteps
+  }
+
+  /**
+   * Update the online network with a batch sampled from the replay buffer.
+   *
+   * @param {tf.Optimizer} optimizer
+   * @param {number} discountRate
+   */
+  private trainOnReplayBatch(optimizer: tf.Optimizer, discountRate: number) {
+    const batch = this.getReplayMemory().sample(this.config.batchSize)
+    const targetNet = this.getTargetNet()
+    const numActions = this.numActions()
+    tf.tidy(() => {
+      const states = tf.tensor2d(batch.map((t) => t.state))
+      const actionMasks = tf.oneHot(
+        tf.tensor1d(
+          batch.map((t) => t.action),
+          'int32'
+        ),
+        numActions
+      )
+      const rewards = tf.tensor1d(batch.map((t) => t.reward))
+      const nextStates = tf.tensor2d(batch.map((t) => t.nextState))
+      const notDone = tf.tensor1d(batch.map((t) => (t.done ? 0 : 1)))
+
+      const targets = computeDQNTargets(
+        rewards,
+        notDone,
+        targetNet.predict(nextStates) as tf.Tensor2D,
+        this.config.doubleDQN ? this.getQValues(nextStates) : null,
+        discountRate
+      )
+
+      optimizer.minimize(() => {
+        const qValues = (
+          this.onlineNet.apply(states, {
+            training: true,
+          }) as tf.Tensor2D
+        )
+          .mul(actionMasks)
+          .sum(-1)
+        return tf.losses.meanSquaredError(targets, qValues).asScalar()
+      })
+    })
+  }
+
+  /**
+   * Copy the weights of the online network to the target network.
+   */
+  syncTargetNetwork() {
+    this.getTargetNet().setWeights(this.onlineNet.getWeights())
+  }
+
+  private numActions() {
+    const outputShape = this.onlineNet.outputs[0].shape
+    return outputShape[outputShape.length - 1] as number
+  }
+
+  private getReplayMemory() {
+    if (this.replayMemory_ === null) {
+      this.replayMemory_ = new ReplayMemory(this.config.replayBufferSize)
+    }
+    return this.replayMemory_
+  }
+
+  private getTargetNet() {
+    if (this.targetNet_ === null) {
+      const inputShape = this.onlineNet.inputs[0].shape
+      this.targetNet_ = createQNetwork({
+        hiddenLayerSizes: this.onlineNet.layers
+          .slice(0, -1)
+          .map((layer) => layer.getConfig().units as number),
+        inputSize: inputShape[inputShape.length - 1] as number,
+        outputSize: this.numActions(),
+      })
+      // The target network is only updated by `syncTargetNetwork()`.
+      this.targetNet_.trainable = false
+      this.syncTargetNetwork()
+    }
+    return this.targetNet_
+  }
+
+  /**
+   * Dispose the online network and the target network.
+   */
+  dispose() {
+    this.onlineNet.dispose()
+    if (this.targetNet_ !== null) {
+      this.targetNet_.dispose()
+      this.targetNet_ = null
+    }
+    this.replayMemory_ = null
+  }
+}
+
+/**
+ * Compute the targets of the Q-values of a batch of transitions.
+ *
+ * @param {tf.Tensor1D} rewards The rewards of the transitions.
+ * @param {tf.Tensor1D} notDone 0 for the transitions in which the system
+ *   failed, 1 for the others.
+ * @param {tf.Tensor2D} nextQValues The Q-values of the next states by the
+ *   target network.
+ * @param {tf.Tensor2D | null} onlineNextQValues The Q-values of the next
+ *   states by the online network, which pick the next actions in double DQN.
+ *   `null` for DQN, where the next actions are the ones with the highest
+ *   `nextQValues`.
+ * @param {number} discountRate
+ * @returns The targets, of shape `[batchSize]`.
+ */
+export function computeDQNTargets(
+  rewards: tf.Tensor1D,
+  notDone: tf.Tensor1D,
+  nextQValues: tf.Tensor2D,
+  onlineNextQValues: tf.Tensor2D | null,
+  discountRate: number
+) {
+  return tf.tidy(() => {
+    let nextValues: tf.Tensor1D
+    if (onlineNextQValues !== null) {
+      const nextActions = onlineNextQValues.argMax(-1) as tf.Tensor1D
+      nextValues = nextQValues
+        .mul(tf.oneHot(nextActions, nextQValues.shape[1]))
+        .sum(-1)
+    } else {
+      nextValues = nextQValues.max(-1)
+    }
+    return rewards.add(nextValues.mul(notDone).mul(discountRate)) as tf.Tensor1D
+  })
+}
+
+/**
+ * Create the model of a Q-network.
+ *
+ * It has the same architecture as the model of a policy network, but its
+ * outputs are the Q-values of the actions.
+ *
+ * @param {number | number[]} hiddenLayerSizes Size of the hidden layer, as
+ *   a single number (for a single hidden layer) or an Array of numbers (for
+ *   any number of hidden layers).
+ * @param {number} inputSize Size of the state vector.
+ * @param {number} outputSize Number of actions.
+ */
+export function createQNetwork({
+  hiddenLayerSizes,
+  inputSize,
+  outputSize,
+}: {
+  hiddenLayerSizes: number | number[]
+  inputSize: number
+  outputSize: number
+}) {
+  if (!Array.isArray(hiddenLayerSizes)) {
+    hiddenLayerSizes = [hiddenLayerSizes]
+  }
+  const network = tf.sequential()
+  hiddenLayerSizes.forEach((hiddenLayerSize, i) => {
+    network.add(
+      tf.layers.dense({
+        units: hiddenLayerSize,
+        activation: 'elu',
+        inputShape: i === 0 ? [inputSize] : undefined,
+      })
+    )
+  })
+  network.add(tf.layers.dense({ units: outputSize }))
+  initializeWeights(network)
+  return network
+}
@@ -0,0 +1,140 @@
+import * as tf from '@tensorflow/tfjs'
+
+import { DEFAULT_CART_POLE_CONFIG } from '../cart_pole'
+import { createEnv } from '../environments'
+import { seedRandom, sum } from '../utils'
+import { DEFAULT_DQN_CONFIG, QNetwork, computeDQNTargets } from './qNetwork'
+
+function createQNetwork(config = DEFAULT_DQN_CONFIG) {
+  return new QNetwork({
+    sizes: { hiddenLayerSizes: 8, inputSize: 4, outputSize: 2 },
+    config,
+  })
+}
+
+function expectWeightsEqual(a: tf.LayersModel, b: tf.LayersModel) {
+  const weightsA = a.getWeights()
+  const weightsB = b.getWeights()
+  expect(weightsA.length).toEqual(weightsB.length)
+  weightsA.forEach((weight, i) => {
+    expect(Array.from(weight.dataSync())).toEqual(
+      Array.from(weightsB[i].dataSync())
+    )
+  })
+}
+
+describe('QNetwork', () => {
+  afterEach(() => seedRandom(null))
+
+  it('anneals epsilon linearly, and keeps it at its final value', () => {
+    const qNetwork = createQNetwork({
+      ...DEFAULT_DQN_CONFIG,
+      epsilonInit: 1,
+      epsilonFinal: 0.1,
+      epsilonDecaySteps: 100,
+    })
+    expect(qNetwork.getEpsilon()).toEqual(1)
+    qNetwork.stepCount = 50
+    expect(qNetwork.getEpsilon()).toBeCloseTo(0.55, 6)
+    qNetwork.stepCount = 100
+    expect(qNetwork.getEpsilon()).toBeCloseTo(0.1, 6)
+    qNetwork.stepCount = 1000
+    expect(qNetwork.getEpsilon()).toBeCloseTo(0.1, 6)
+    qNetwork.dispose()
+  })
+
+  it('starts at the final epsilon without decay steps', () => {
+    const qNetwork = createQNetwork({
+      ...DEFAULT_DQN_CONFIG,
+      epsilonFinal: 0.2,
+      epsilonDecaySteps: 0,
+    })
+    expect(qNetwork.getEpsilon()).toEqual(0.2)
+    qNetwork.dispose()
+  })
+
+  it('copies the online weights to the target network', () => {
+    seedRandom(1)
+    const qNetwork = createQNetwork()
+    qNetwork.syncTargetNetwork()
+    const targetNet = qNetwork['targetNet_'] as tf.LayersModel
+    expectWeightsEqual(targetNet, qNetwork.onlineNet)
+    qNetwork.onlineNet.setWeights(
+      qNetwork.onlineNet.getWeights().map((weight) => weight.add(1))
+    )
+    expect(targetNet.getWeights()[0].dataSync()[0]).not.toEqual(
+      qNetwork.onlineNet.getWeights()[0].dataSync()[0]
+    )
+    qNetwork.syncTargetNetwork()
+    expectWeightsEqual(targetNet, qNetwork.onlineNet)
+    qNetwork.dispose()
+  })
+
+  it('syncs the target network every targetSyncEvery steps', async () => {
+    seedRandom(1)
+    const qNetwork = createQNetwork({
+      ...DEFAULT_DQN_CONFIG,
+      batchSize: 4,
+      targetSyncEvery: 7,
+    })
+    // Create the target network before counting the syncs.
+    qNetwork.syncTargetNetwork()
+    const sync = spyOn(qNetwork, 'syncTargetNetwork').and.callThrough()
+    const env = createEnv('cart-pole', DEFAULT_CART_POLE_CONFIG, 20)
+    const optimizer = tf.train.sgd(0.01)
+    const gameSteps = await qNetwork.train(
+      env,
+      optimizer,
+      0.95,
+      3,
+      async () => {},
+      () => {}
+    )
+    expect(qNetwork.stepCount).toEqual(sum(gameSteps))
+    expect(sync).toHaveBeenCalledTimes(Math.floor(sum(gameSteps) / 7))
+    optimizer.dispose()
+    qNetwork.dispose()
+  })
+})
+
+describe('computeDQNTargets', () => {
+  const rewards = () => tf.tensor1d([1, 1, 1])
+  const notDone = () => tf.tensor1d([1, 1, 0])
+  // The Q-values of the next states by the target network...
+  const nextQValues = () =>
+    tf.tensor2d([
+      [1, 5],
+      [2, 3],
+      [4, 6],
+    ])
+  // ...and by the online network, which disagree on the best next action of
+  // the first state.
+  const onlineNextQValues = () =>
+    tf.tensor2d([
+      [4, 0],
+      [0, 1],
+      [0, 1],
+    ])
+
+  it('takes the best next action of the target network in DQN', () => {
+    const targets = computeDQNTargets(
+      rewards(),
+      notDone(),
+      nextQValues(),
+      null,
+      0.5
+    )
+    expect(Array.from(targets.dataSync())).toEqual([3.5, 2.5, 1])
+  })
+
+  it('takes the best next action of the online network in double DQN', () => {
+    const targets = computeDQNTargets(
+      rewards(),
+      notDone(),
+      nextQValues(),
+      onlineNextQValues(),
+      0.5
+    )
+    expect(Array.from(targets.dataSync())).toEqual([1.5, 2.5, 1])
+  })
+})
@@ -0,0 +1,68 @@
+import { shuffle } from '../utils'
+
+/**
+ * Replay buffer for DQN training.
+ *
+ * Once the buffer is full, every appended item replaces the oldest one.
+ */
+export class ReplayMemory<T> {
+  public maxLen: number
+  public length: number
+  private buffer_: Array<T | null>
+  private index_: number
+
+  /**
+   * Constructor of ReplayMemory.
+   *
+   * @param {number} maxLen Maximal buffer length.
+   */
+  constructor(maxLen: number) {
+    if (!(maxLen > 0)) {
+      throw new Error(`Invalid replay buffer size: ${maxLen}`)
+    }
+    this.maxLen = maxLen
+    this.length = 0
+    this.buffer_ = new Array(maxLen).fill(null)
+    this.index_ = 0
+  }
+
+  /**
+   * Append an item to the replay buffer.
+   *
+   * @param {T} item The item to append.
+   */
+  append(item: T) {
+    this.buffer_[this.index_] = item
+    this.length = Math.min(this.length + 1, this.maxLen)
+    this.index_ = (this.index_ + 1) % this.maxLen
+  }
+
+  /**
+   * Randomly sample a batch of items from the replay buffer.
+   *
+   * The sampling is done *without* replacement.
+   *
+   * @param {number} batchSize Size of the batch.
+   * @returns Sampled items.
+   * @throws {Error} If the buffer holds fewer than `batchSize` items.
+   */
+  sample(batchSize: number) {
+    if (batchSize > this.length) {
+      throw new Error(
+        `batchSize (${batchSize}) exceeds buffer length (${this.length})`
+      )
+    }
+    const indices = Array.from({ length: this.length }, (_, i) => i)
+    shuffle(indices)
+    return indices.slice(0, batchSize).map((i) => this.buffer_[i] as T)
+  }
+
+  /**
+   * Remove all items from the replay buffer.
+   */
+  clear() {
+    this.buffer_.fill(null)
+    this.length = 0
+    this.index_ = 0
+  }
+}
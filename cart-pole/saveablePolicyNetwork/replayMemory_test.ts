@@ -0,0 +1,69 @@
+import { seedRandom } from '../utils'
+import { ReplayMemory } from './replayMemory'
+
+describe('ReplayMemory', () => {
+  afterEach(() => seedRandom(null))
+
+  it('does not go over its capacity', () => {
+    const memory = new ReplayMemory<number>(3)
+    expect(memory.length).toEqual(0)
+    memory.append(10)
+    memory.append(20)
+    expect(memory.length).toEqual(2)
+    memory.append(30)
+    memory.append(40)
+    memory.append(50)
+    expect(memory.length).toEqual(3)
+  })
+
+  it('replaces the oldest items once it is full', () => {
+    const memory = new ReplayMemory<number>(3)
+    ;[10, 20, 30, 40, 50].forEach((item) => memory.append(item))
+    expect(memory.sample(3).sort()).toEqual([30, 40, 50])
+  })
+
+  it('samples without replacement', () => {
+    const memory = new ReplayMemory<number>(5)
+    ;[10, 20, 30, 40, 50].forEach((item) => memory.append(item))
+    for (let i = 0; i < 10; ++i) {
+      const batch = memory.sample(4)
+      expect(batch.length).toEqual(4)
+      batch.forEach((item) => {
+        expect([10, 20, 30, 40, 50]).toContain(item)
+      })
+      expect(new Set(batch).size).toEqual(batch.length)
+    }
+  })
+
+  it('samples with the seeded random numbers', () => {
+    const memory = new ReplayMemory<number>(10)
+    for (let i = 0; i < 10; ++i) {
+      memory.append(i)
+    }
+    seedRandom(42)
+    const batch = memory.sample(5)
+    seedRandom(42)
+    expect(memory.sample(5)).toEqual(batch)
+  })
+
+  it('throws if the batch is larger than its length', () => {
+    const memory = new ReplayMemory<number>(5)
+    memory.append(10)
+    memory.append(20)
+    expect(() => memory.sample(3)).toThrowError(/exceeds buffer length/)
+  })
+
+  it('is empty after clear()', () => {
+    const memory = new ReplayMemory<number>(5)
+    memory.append(10)
+    memory.clear()
+    expect(memory.length).toEqual(0)
+    expect(() => memory.sample(1)).toThrowError(/exceeds buffer length/)
+  })
+
+  it('throws on an invalid capacity', () => {
+    expect(() => new ReplayMemory<number>(0)).toThrowError(
+      /Invalid replay buffer size/
+    )
+  })
+})
@@ -0,0 +1,379 @@
+import {
+  BoxSpace,
+  Env,
+  ResetResult,
+  Space,
+  StepResult,
+  VectorEnv,
+  VectorStepResult,
+} from './env'
+
+/**
+ * The built-in terms of reward shaping.
+ *
+ *   - 'center': Penalizes the distance of the cart from the center of its
+ *     track, `|x|`. Needs a state variable named 'x'.
+ *   - 'angle': Penalizes the angle of the pole, `|theta|`. Needs a state
+ *     variable named 'theta' (or 'theta1', the lower pole of the
+ *     double-pendulum cart).
+ *   - 'action-switch': Penalizes switching actions: 1 for every change of a
+ *     discrete action, or the size of the change of a continuous action.
+ */
+export type RewardTermName = 'center' | 'angle' | 'action-switch'
+
+export const REWARD_TERM_NAMES: RewardTermName[] = [
+  'center',
+  'angle',
+  'action-switch',
+]
+
+/**
+ * A step of an environment, as seen by a reward term.
+ */
+export interface Transition {
+  observation: number[]
+  action: number
+  // The action of the previous step of the episode, `null` in its first step.
+  previousAction: number | null
+  nextObservation: number[]
+}
+
+/**
+ * A reward term: a function of a step whose weighted value is added to the
+ * reward of the environment.
+ */
+export type RewardTerm = (transition: Transition) => number
+
+/**
+ * Creates a reward term for an environment, from the names of the state
+ * variables of its observations and its action space.
+ *
+ * @throws {Error} If the term does not apply to the environment.
+ */
+export type RewardTermFactory = (
+  observationNames: string[],
+  actionSpace: Space
+) => RewardTerm
+
+/**
+ * A term of reward shaping and its weight.
+ */
+export interface RewardTermConfig {
+  // A built-in term, or one added with `registerRewardTerm()`.
+  name: RewardTermName | string
+  // The reward of every step changes by `weight` times the term, i.e., a
+  // positive weight makes the built-in terms penalties.
+  weight: number
+}
+
+/**
+ * The reward shaping of an environment: the terms added to its rewards.
+ */
+export interface RewardShapingConfig {
+  terms: RewardTermConfig[]
+}
+
+// The factories of the reward terms by name: the built-in terms and those
+// added with `registerRewardTerm()`.
+const REWARD_TERMS: { [name: string]: RewardTermFactory } = {
+  center: (observationNames) => {
+    const i = findStateVariable(observationNames, ['x'], 'center')
+    return ({ nextObservation }) => -Math.abs(nextObservation[i])
+  },
+  angle: (observationNames) => {
+    const i = findStateVariable(observationNames, ['theta', 'theta1'], 'angle')
+    return ({ nextObservation }) => -Math.abs(nextObservation[i])
+  },
+  'action-switch':
+    (_observationNames, actionSpace) =>
+    ({ action, previousAction }) => {
+      if (previousAction === null) {
+        return 0
+      }
+      if (actionSpace.type === 'box') {
+        return -Math.abs(action - previousAction)
+      }
+      return action !== previousAction ? -1 : 0
+    },
+}
+
+/**
+ * Add a reward term that reward shaping configs can name, next to the
+ * built-in ones.
+ *
+ * Terms are registered per JavaScript context: a term used in training in the
+ * worker has to be registered in the worker, too.
+ *
+ * @param {string} name The name of the term in `RewardTermConfig`.
+ * @param {RewardTermFactory} factory
+ * @throws {Error} If a term of the name exists already.
+ */
+export function registerRewardTerm(name: string, factory: RewardTermFactory) {
+  if (typeof name !== 'string' || name === '') {
+    throw new Error(`Invalid name of reward term: ${name}`)
+  }
+  if (Object.prototype.hasOwnProperty.call(REWARD_TERMS, name)) {
+    throw new Error(`The reward term '${name}' exists already`)
+  }
+  REWARD_TERMS[name] = factory
+}
+
+/**
+ * Get the names of the reward terms: the built-in ones, followed by those
+ * added with `registerRewardTerm()`.
+ */
+export function getRewardTermNames() {
+  return Object.keys(REWARD_TERMS)
+}
+
+/**
+ * Find the index of the state variable of a reward term.
+ *
+ * @param {string[]} observationNames The names of the state variables.
+ * @param {string[]} names The accepted names of the state variable.
+ * @param {string} termName
+ * @throws {Error} If there is no state variable of any of the names.
+ */
+function findStateVariable(
+  observationNames: string[],
+  names: string[],
+  termName: string
+) {
+  for (const name of names) {
+    const i = observationNames.indexOf(name)
+    if (i !== -1) {
+      return i
+    }
+  }
+  throw new Error(
+    `The reward term '${termName}' needs a state variable named ` +
+      `${names.join(' or ')}, but the environment has ${observationNames.join(
+        ', '
+      )}`
+  )
+}
+
+/**
+ * Check reward shaping.
+ *
+ * @param {RewardShapingConfig} config
+ * @throws {Error} For unknown terms or invalid weights.
+ */
+export function checkRewardShapingConfig(config: RewardShapingConfig) {
+  if (config == null || !Array.isArray(config.terms)) {
+    throw new Error(`Invalid reward shaping: ${JSON.stringify(config)}`)
+  }
+  for (const { name, weight } of config.terms) {
+    if (!Object.prototype.hasOwnProperty.call(REWARD_TERMS, name)) {
+      throw new Error(
+        `Invalid reward term: ${name}. ` +
+          `Expected one of ${getRewardTermNames().join(', ')}.`
+      )
+    }
+    if (!Number.isFinite(weight)) {
+      throw new Error(`Invalid weight of reward term '${name}': ${weight}`)
+    }
+  }
+}
+
+/**
+ * Compute the reward shaping of a step.
+ *
+ * @param {Array<[RewardTerm, number]>} terms The terms and their weights.
+ * @param {Transition} transition
+ */
+function shapeReward(
+  terms: Array<[RewardTerm, number]>,
+  transition: Transition
+) {
+  let shaping = 0
+  for (const [term, weight] of terms) {
+    shaping += weight * term(transition)
+  }
+  return shaping
+}
+
+/**
+ * Create the terms of reward shaping for an environment.
+ *
+ * @param {RewardShapingConfig} config
+ * @param {string[]} observationNames
+ * @param {Space} actionSpace
+ */
+function createRewardTerms(
+  config: RewardShapingConfig,
+  observationNames: string[],
+  actionSpace: Space
+): Array<[RewardTerm, number]> {
+  checkRewardShapingConfig(config)
+  return config.terms.map(({ name, weight }) => [
+    REWARD_TERMS[name](observationNames, actionSpace),
+    weight,
+  ])
+}
+
+/**
+ * The wrapper of an `Env` that adds reward shaping to its rewards.
+ *
+ * The observations, terminations and truncations of the environment stay the
+ * same.
+ */
+export class RewardShapingEnv extends Env {
+  public readonly env: Env
+  public readonly observationSpace: BoxSpace
+  public readonly actionSpace: Space
+  private terms: Array<[RewardTerm, number]>
+  private observation: number[]
+  private previousAction: number | null
+
+  /**
+   * Constructor of RewardShapingEnv.
+   *
+   * @param {Env} env The environment to wrap.
+   * @param {RewardShapingConfig} config
+   * @param {string[]} observationNames The names of the state variables of
+   *   the observations of `env`, see `getObservationNames()`.
+   * @throws {Error} If a term of `config` does not apply to `env`.
+   */
+  constructor(
+    env: Env,
+    config: RewardShapingConfig,
+    observationNames: string[]
+  ) {
+    super()
+    this.env = env
+    this.observationSpace = env.observationSpace
+    this.actionSpace = env.actionSpace
+    this.terms = createRewardTerms(config, observationNames, env.actionSpace)
+    this.observation = []
+    this.previousAction = null
+  }
+
+  reset(): ResetResult {
+    const result = this.env.reset()
+    this.observation = result.observation
+    this.previousAction = null
+    return result
+  }
+
+  step(action: number): StepResult {
+    const result = this.env.step(action)
+    const shaping = shapeReward(this.terms, {
+      observation: this.observation,
+      action,
+      previousAction: this.previousAction,
+      nextObservation: result.observation,
+    })
+    this.observation = result.observation
+    this.previousAction = action
+    return { ...result, reward: result.reward + shaping }
+  }
+
+  render(canvas: HTMLCanvasElement) {
+    this.env.render(canvas)
+  }
+}
+
+/**
+ * The wrapper of a `VectorEnv` that adds reward shaping to its rewards, like
+ * `RewardShapingEnv`.
+ */
+export class RewardShapingVectorEnv extends VectorEnv {
+  public readonly env: VectorEnv
+  public readonly numEnvs: number
+  public readonly observationSpace: BoxSpace
+  public readonly actionSpace: Space
+  private terms: Array<[RewardTerm, number]>
+  private observations: number[][]
+  private previousActions: Array<number | null>
+
+  /**
+   * Constructor of RewardShapingVectorEnv.
+   *
+   * @param {VectorEnv} env The environments to wrap.
+   * @param {RewardShapingConfig} config
+   * @param {string[]} observationNames See `RewardShapingEnv`.
+   * @throws {Error} If a term of `config` does not apply to `env`.
+   */
+  constructor(
+    env: VectorEnv,
+    config: RewardShapingConfig,
+    observationNames: string[]
+  ) {
+    super()
+    this.env = env
+    this.numEnvs = env.numEnvs
+    this.observationSpace = env.observationSpace
+    this.actionSpace = env.actionSpace
+    this.terms = createRewardTerms(config, observationNames, env.actionSpace)
+    this.observations = []
+    this.previousActions = new Array(env.numEnvs).fill(null)
+  }
+
+  reset() {
+    this.observations = this.env.reset()
+    this.previousActions.fill(null)
+    return this.observations
+  }
+
+  step(actions: ArrayLike<number>): VectorStepResult {
+    const result = this.env.step(actions)
+    const rewards = result.rewards.map((reward, i) => {
+      const finalObservation = result.finalObservations[i]
+      const shaping = shapeReward(this.terms, {
+        observation: this.observations[i],
+        action: actions[i],
+        previousAction: this.previousActions[i],
+        // The observations of the environments whose episode ended are
+        // those of their next episodes.
+        nextObservation:
+          finalObservation !== null ? finalObservation : result.observations[i],
+      })
+      this.previousActions[i] = finalObservation !== null ? null : actions[i]
+      return reward + shaping
+    })
+    this.observations = result.observations
+    return { ...result, rewards }
+  }
+
+  render(canvas: HTMLCanvasElement) {
+    this.env.render(canvas)
+  }
+}
+
+/**
+ * Add reward shaping to the rewards of an environment.
+ *
+ * @param {Env | VectorEnv} env
+ * @param {RewardShapingConfig} config
+ * @param {string[]} observationNames See `RewardShapingEnv`.
+ * @returns `env` itself if `config` has no terms, or else a wrapper of it.
+ */
+export function shapeRewards(
+  env: Env,
+  config: RewardShapingConfig,
+  observationNames: string[]
+): Env
+export function shapeRewards(
+  env: VectorEnv,
+  config: RewardShapingConfig,
+  observationNames: string[]
+): VectorEnv
+export function shapeRewards(
+  env: Env | VectorEnv,
+  config: RewardShapingConfig,
+  observationNames: string[]
+): Env | VectorEnv
+export function shapeRewards(
+  env: Env | VectorEnv,
+  config: RewardShapingConfig,
+  observationNames: string[]
+) {
+  checkRewardShapingConfig(config)
+  if (config.terms.length === 0) {
+    return env
+  }
+  return env instanceof VectorEnv
+    ? new RewardShapingVectorEnv(env, config, observationNames)
+    : new RewardShapingEnv(env, config, observationNames)
+}
@@ -0,0 +1,323 @@
+import {
+  Env,
+  Space,
+  StepResult,
+  VectorEnv,
+  VectorStepResult,
+  boxSpace,
+  discreteSpace,
+} from './env'
+import {
+  RewardShapingConfig,
+  RewardShapingEnv,
+  RewardShapingVectorEnv,
+  checkRewardShapingConfig,
+  registerRewardTerm,
+  shapeRewards,
+} from './rewardShaping'
+
+const OBSERVATION_NAMES = ['x', 'theta']
+
+// The observations of the episode of `ScriptedEnv`: [x, theta].
+const OBSERVATIONS = [
+  [0, 0],
+  [0.5, -0.1],
+  [-1, 0.2],
+  [2, -0.3],
+]
+
+/**
+ * An environment that plays the same episode of `OBSERVATIONS` whatever the
+ * actions, with a reward of 1 for every step.
+ */
+class ScriptedEnv extends Env {
+  public readonly observationSpace = boxSpace(
+    [-Infinity, -Infinity],
+    [Infinity, Infinity]
+  )
+  public readonly actionSpace: Space
+  private steps = 0
+
+  constructor(actionSpace: Space = discreteSpace(2)) {
+    super()
+    this.actionSpace = actionSpace
+  }
+
+  reset() {
+    this.steps = 0
+    return { observation: OBSERVATIONS[0], info: {} }
+  }
+
+  step(action: number): StepResult {
+    this.steps++
+    return {
+      observation: OBSERVATIONS[this.steps],
+      reward: 1,
+      terminated: this.steps === OBSERVATIONS.length - 1,
+      truncated: false,
+      info: {},
+    }
+  }
+}
+
+/**
+ * A vector of environments that returns the given results of its steps in
+ * turn.
+ */
+class ScriptedVectorEnv extends VectorEnv {
+  public readonly numEnvs: number
+  public readonly observationSpace = boxSpace(
+    [-Infinity, -Infinity],
+    [Infinity, Infinity]
+  )
+  public readonly actionSpace = discreteSpace(2)
+  private initialObservations: number[][]
+  private results: VectorStepResult[]
+  private steps = 0
+
+  constructor(initialObservations: number[][], results: VectorStepResult[]) {
+    super()
+    this.numEnvs = initialObservations.length
+    this.initialObservations = initialObservations
+    this.results = results
+  }
+
+  reset() {
+    this.steps = 0
+    return this.initialObservations
+  }
+
+  step(actions: ArrayLike<number>) {
+    return this.results[this.steps++]
+  }
+}
+
+/**
+ * Play the episode of `ScriptedEnv` with reward shaping.
+ *
+ * @param {RewardShapingConfig} config
+ * @param {number[]} actions The actions of the steps of the episode.
+ * @param {Space} actionSpace
+ * @returns The shaped rewards of the steps.
+ */
+function playShapedEpisode(
+  config: RewardShapingConfig,
+  actions: number[],
+  actionSpace?: Space
+) {
+  const env = new RewardShapingEnv(
+    new ScriptedEnv(actionSpace),
+    config,
+    OBSERVATION_NAMES
+  )
+  env.reset()
+  return actions.map((action) => env.step(action).reward)
+}
+
+function expectRewardsClose(actual: number[], expected: number[]) {
+  expect(actual.length).toEqual(expected.length)
+  actual.forEach((reward, i) => expect(reward).toBeCloseTo(expected[i], 10))
+}
+
+describe('RewardShapingEnv', () => {
+  it('penalizes the distance of the cart from the center', () => {
+    const rewards = playShapedEpisode(
+      { terms: [{ name: 'center', weight: 1 }] },
+      [0, 0, 0]
+    )
+    // 1 - |x| of the next observations.
+    expectRewardsClose(rewards, [0.5, 0, -1])
+  })
+
+  it('penalizes the angle of the pole', () => {
+    const rewards = playShapedEpisode(
+      { terms: [{ name: 'angle', weight: 1 }] },
+      [0, 0, 0]
+    )
+    // 1 - |theta| of the next observations.
+    expectRewardsClose(rewards, [0.9, 0.8, 0.7])
+  })
+
+  it('penalizes switching discrete actions', () => {
+    const rewards = playShapedEpisode(
+      { terms: [{ name: 'action-switch', weight: 1 }] },
+      [0, 1, 1]
+    )
+    expectRewardsClose(rewards, [1, 0, 1])
+  })
+
+  it('penalizes the size of the change of continuous actions', () => {
+    const rewards = playShapedEpisode(
+      { terms: [{ name: 'action-switch', weight: 1 }] },
+      [0.5, -0.5, 1],
+      boxSpace([-1], [1])
+    )
+    expectRewardsClose(rewards, [1, 0, -0.5])
+  })
+
+  it('adds up the weighted terms', () => {
+    const rewards = playShapedEpisode(
+      {
+        terms: [
+          { name: 'center', weight: 0.1 },
+          { name: 'angle', weight: 2 },
+          { name: 'action-switch', weight: 0.5 },
+        ],
+      },
+      [0, 1, 1]
+    )
+    // 1 - 0.1 * |x| - 2 * |theta| - 0.5 * (switched ? 1 : 0)
+    expectRewardsClose(rewards, [0.75, 0, 0.2])
+  })
+
+  it('does not penalize the first action of an episode', () => {
+    const env = new RewardShapingEnv(
+      new ScriptedEnv(),
+      { terms: [{ name: 'action-switch', weight: 1 }] },
+      OBSERVATION_NAMES
+    )
+    env.reset()
+    env.step(0)
+    env.reset()
+    expect(env.step(1).reward).toEqual(1)
+  })
+
+  it('keeps the observations and the end of the episode', () => {
+    const env = new RewardShapingEnv(
+      new ScriptedEnv(),
+      { terms: [{ name: 'center', weight: 1 }] },
+      OBSERVATION_NAMES
+    )
+    expect(env.reset().observation).toEqual(OBSERVATIONS[0])
+    const results = [0, 0, 0].map((action) => env.step(action))
+    expect(results.map((result) => result.observation)).toEqual(
+      OBSERVATIONS.slice(1)
+    )
+    expect(results.map((result) => result.terminated)).toEqual([
+      false,
+      false,
+      true,
+    ])
+  })
+
+  it('takes the angle of the lower pole of a double pendulum', () => {
+    const env = new RewardShapingEnv(
+      new ScriptedEnv(),
+      { terms: [{ name: 'angle', weight: 1 }] },
+      ['x', 'theta1']
+    )
+    env.reset()
+    expect(env.step(0).reward).toBeCloseTo(0.9, 10)
+  })
+
+  it('rejects a term without its state variable', () => {
+    expect(
+      () =>
+        new RewardShapingEnv(
+          new ScriptedEnv(),
+          { terms: [{ name: 'center', weight: 1 }] },
+          ['position', 'theta']
+        )
+    ).toThrowError(/needs a state variable named x/)
+  })
+})
+
+describe('RewardShapingVectorEnv', () => {
+  it('shapes the rewards of the final observations of ended episodes', () => {
+    const env = new RewardShapingVectorEnv(
+      new ScriptedVectorEnv(
+        [
+          [0, 0],
+          [0, 0],
+        ],
+        [
+          {
+            // The episode of the second environment ends in [2, 0], and its
+            // next one starts in [0.5, 0].
+            observations: [
+              [1, 0],
+              [0.5, 0],
+            ],
+            rewards: [1, 1],
+            terminated: [false, true],
+            truncated: [false, false],
+            infos: [{}, {}],
+            finalObservations: [null, [2, 0]],
+          },
+          {
+            observations: [
+              [-3, 0],
+              [0.25, 0],
+            ],
+            rewards: [1, 1],
+            terminated: [false, false],
+            truncated: [false, false],
+            infos: [{}, {}],
+            finalObservations: [null, null],
+          },
+        ]
+      ),
+      {
+        terms: [
+          { name: 'center', weight: 1 },
+          { name: 'action-switch', weight: 1 },
+        ],
+      },
+      OBSERVATION_NAMES
+    )
+    env.reset()
+    expectRewardsClose(env.step([0, 0]).rewards, [0, -1])
+    // The action of the second environment is the first of its new episode.
+    expectRewardsClose(env.step([1, 1]).rewards, [-3, 0.75])
+  })
+})
+
+describe('shapeRewards', () => {
+  it('returns an environment without terms as it is', () => {
+    const env = new ScriptedEnv()
+    expect(shapeRewards(env, { terms: [] }, OBSERVATION_NAMES)).toBe(env)
+    expect(
+      shapeRewards(
+        env,
+        { terms: [{ name: 'center', weight: 1 }] },
+        OBSERVATION_NAMES
+      )
+    ).toEqual(jasmine.any(RewardShapingEnv))
+  })
+})
+
+describe('checkRewardShapingConfig', () => {
+  it('rejects unknown terms and invalid weights', () => {
+    expect(() =>
+      checkRewardShapingConfig({ terms: [{ name: 'speed', weight: 1 }] })
+    ).toThrowError(/Invalid reward term: speed/)
+    expect(() =>
+      checkRewardShapingConfig({ terms: [{ name: 'center', weight: NaN }] })
+    ).toThrowError(/Invalid weight/)
+    expect(() =>
+      checkRewardShapingConfig({} as RewardShapingConfig)
+    ).toThrowError(/Invalid reward shaping/)
+  })
+})
+
+describe('registerRewardTerm', () => {
+  it('adds a term that configs can name', () => {
+    // Penalizes the speed of the cart, |x' - x|.
+    registerRewardTerm('test-speed', (observationNames) => {
+      const i = observationNames.indexOf('x')
+      return ({ observation, nextObservation }) =>
+        -Math.abs(nextObservation[i] - observation[i])
+    })
+    const rewards = playShapedEpisode(
+      { terms: [{ name: 'test-speed', weight: 1 }] },
+      [0, 0, 0]
+    )
+    expectRewardsClose(rewards, [0.5, -0.5, -2])
+  })
+
+  it('rejects the names of existing terms', () => {
+    expect(() => registerRewardTerm('center', () => () => 0)).toThrowError(
+      /exists already/
+    )
+  })
+})
@@ -0,0 +1,285 @@
+import * as tf from '@tensorflow/tfjs'
+
+import { initializeWeights } from '../utils'
+import { Env, VectorEnv } from './env'
+import { PolicyNetwork } from './policyNetwork'
+
+/**
+ * A game played by a policy network, as recorded for on-policy training.
+ */
+export interface Episode {
+  // The observed state before every step.
+  states: number[][]
+  // The action taken at every step.
+  actions: number[]
+  // The reward received for every step.
+  rewards: number[]
+  // The observed state after the last step.
+  finalState: number[]
+  // Whether the game was terminated by the environment (as opposed to
+  // truncated, e.g., because the maximum number of steps was reached).
+  terminated: boolean
+}
+
+/**
+ * Create the record of a game that has not started yet.
+ */
+function createEpisode(): Episode {
+  return {
+    states: [],
+    actions: [],
+    rewards: [],
+    finalState: [],
+    terminated: false,
+  }
+}
+
+/**
+ * Let a policy network play games and record them.
+ *
+ * See `Trainer.train()` for the parameters. The games are played one after
+ * another in an `Env`, or in parallel in a `VectorEnv` (see
+ * `playVectorEpisodes()`).
+ *
+ * @returns The recorded games.
+ */
+export async function playEpisodes<E extends Env | VectorEnv>(
+  env: E,
+  policyNetwork: PolicyNetwork,
+  numGames: number,
+  render: (env: E) => Promise<void>,
+  onGameEnd: (gameCount: number, totalGames: number) => void
+) {
+  if (env instanceof VectorEnv) {
+    return await playVectorEpisodes(
+      env,
+      policyNetwork,
+      numGames,
+      render,
+      onGameEnd
+    )
+  }
+  const singleEnv = env as Env
+  const episodes: Episode[] = []
+  onGameEnd(0, numGames)
+  for (let i = 0; i < numGames; ++i) {
+    const episode = createEpisode()
+    let { observation } = singleEnv.reset()
+    for (;;) {
+      const action = tf.tidy(
+        () => policyNetwork.getActions(tf.tensor2d([observation]))[0]
+      )
+      episode.states.push(observation)
+      episode.actions.push(action)
+      const result = singleEnv.step(action)
+      observation = result.observation
+      await render(env)
+      episode.rewards.push(result.reward)
+      if (result.terminated || result.truncated) {
+        episode.terminated = result.terminated
+        break
+      }
+    }
+    episode.finalState = observation
+    episodes.push(episode)
+    onGameEnd(i + 1, numGames)
+    await tf.nextFrame()
+  }
+  return episodes
+}
+
+/**
+ * Let a policy network play games in all the environments of a `VectorEnv`
+ * in parallel and record them.
+ *
+ * Every step, the actions in all the environments are chosen with a single
+ * prediction of the policy network. An environment whose game has ended
+ * starts the next game, until `numGames` games have been started; the
+ * remaining games are then played to their end, so that long games are not
+ * left out.
+ *
+ * See `Trainer.train()` for the parameters.
+ *
+ * @returns The recorded games, in the order in which they ended.
+ */
+export async function playVectorEpisodes<E extends VectorEnv>(
+  env: E,
+  policyNetwork: PolicyNetwork,
+  numGames: number,
+  render: (env: E) => Promise<void>,
+  onGameEnd: (gameCount: number, totalGames: number) => void
+) {
+  const episodes: Episode[] = []
+  // The game each environment is playing, or null if it is idle because all
+  // the games have been started.
+  const currentEpisodes: Array<Episode | null> = []
+  for (let i = 0; i < env.numEnvs; ++i) {
+    currentEpisodes.push(i < numGames ? createEpisode() : null)
+  }
+  let gamesStarted = currentEpisodes.filter((e) => e !== null).length
+  let observations = env.reset()
+  onGameEnd(0, numGames)
+  while (episodes.length < numGames) {
+    const actions = Array.from(
+      tf.tidy(() => policyNetwork.getActions(tf.tensor2d(observations)))
+    )
+    const result = env.step(actions)
+    await render(env)
+
+    let anyGameEnded = false
+    for (let i = 0; i < env.numEnvs; ++i) {
+      const episode = currentEpisodes[i]
+      if (episode === null) {
+        continue
+      }
+      episode.states.push(observations[i])
+      episode.actions.push(actions[i])
+      episode.rewards.push(result.rewards[i])
+      if (result.terminated[i] || result.truncated[i]) {
+        episode.terminated = result.terminated[i]
+        episode.finalState = result.finalObservations[i] as number[]
+        episodes.push(episode)
+        onGameEnd(episodes.length, numGames)
+        anyGameEnded = true
+        currentEpisodes[i] = gamesStarted < numGames ? createEpisode() : null
+        if (gamesStarted < numGames) {
+          gamesStarted++
+        }
+      }
+    }
+    observations = result.observations
+    if (anyGameEnded) {
+      await tf.nextFrame()
+    }
+  }
+  return episodes
+}
+
+/**
+ * Concatenate the states and actions of recorded games.
+ *
+ * @param {Episode[]} episodes
+ * @returns The states as an Array of state vectors and the actions as an
+ *   Array of numbers, in the order in which they were recorded.
+ */
+export function concatEpisodes(episodes: Episode[]) {
+  const states: number[][] = []
+  const actions: number[] = []
+  for (const episode of episodes) {
+    states.push(...episode.states)
+    actions.push(...episode.actions)
+  }
+  return { states, actions }
+}
+
+/**
+ * Create a network that estimates the value (i.e., the expected discounted
+ * return) of a state.
+ *
+ * @param {number[]} hiddenLayerSizes Sizes of the hidden layers.
+ * @param {number} inputSize Size of the state vector.
+ */
+export function createValueNetwork(
+  hiddenLayerSizes: number[],
+  inputSize: number
+) {
+  const network = tf.sequential()
+  hiddenLayerSizes.forEach((hiddenLayerSize, i) => {
+    network.add(
+      tf.layers.dense({
+        units: hiddenLayerSize,
+        activation: 'elu',
+        inputShape: i === 0 ? [inputSize] : undefined,
+      })
+    )
+  })
+  // The single output is the estimated value of the input state.
+  network.add(tf.layers.dense({ units: 1 }))
+  initializeWeights(network)
+  return network
+}
+
+/**
+ * Compute advantages with generalized advantage estimation (GAE).
+ *
+ * See: Schulman et al., "High-Dimensional Continuous Control Using
+ * Generalized Advantage Estimation", https://arxiv.org/abs/1506.02438
+ *
+ * @param {number[]} rewards The rewards of the steps of a game.
+ * @param {number[]} values The estimated values of the states before the
+ *   steps of the game, plus that of the state after the last step (which has
+ *   to be 0 if the game was terminated).
+ * @param {number} discountRate Reward discount rate (gamma).
+ * @param {number} gaeLambda GAE lambda: 0 gives one-step temporal-difference
+ *   advantages, 1 gives Monte-Carlo returns minus the value baseline.
+ * @returns The advantage and the value target (return) of every step.
+ */
+export function computeGAE(
+  rewards: number[],
+  values: number[],
+  discountRate: number,
+  gaeLambda: number
+) {
+  const advantages: number[] = new Array(rewards.length)
+  const returns: number[] = new Array(rewards.length)
+  let advantage = 0
+  for (let t = rewards.length - 1; t >= 0; --t) {
+    const delta = rewards[t] + discountRate * values[t + 1] - values[t]
+    advantage = delta + discountRate * gaeLambda * advantage
+    advantages[t] = advantage
+    returns[t] = advantage + values[t]
+  }
+  return { advantages, returns }
+}
+
+/**
+ * Estimate the value of every state of recorded games and compute the
+ * advantages and value targets from them.
+ *
+ * @param {tf.LayersModel} valueNet The network that estimates state values.
+ * @param {Episode[]} episodes The recorded games.
+ * @param {number} discountRate Reward discount rate (gamma).
+ * @param {number} gaeLambda See `computeGAE()`.
+ * @returns The advantage and the value target of every step of every game, in
+ *   the same order as the states returned by `concatEpisodes()`.
+ */
+export function estimateAdvantages(
+  valueNet: tf.LayersModel,
+  episodes: Episode[],
+  discountRate: number,
+  gaeLambda: number
+) {
+  const advantages: number[] = []
+  const returns: number[] = []
+  for (const episode of episodes) {
+    const values = tf.tidy(() =>
+      Array.from(
+        (
+          valueNet.predict(
+            tf.tensor2d(episode.states.concat([episode.finalState]))
+          ) as tf.Tensor2D
+        ).dataSync()
+      )
+    )
+    if (episode.terminated) {
+      // No rewards follow a terminal state.
+      values[values.length - 1] = 0
+    }
+    const gae = computeGAE(episode.rewards, values, discountRate, gaeLambda)
+    advantages.push(...gae.advantages)
+    returns.push(...gae.returns)
+  }
+  return { advantages, returns }
+}
+
+/**
+ * Normalize values to a mean of 0 and a standard deviation of 1.
+ *
+ * @param {tf.Tensor1D} xs
+ */
+export function normalize(xs: tf.Tensor1D) {
+  return tf.tidy(() => {
+    const { mean, variance } = tf.moments(xs)
+    return xs.sub(mean).div(tf.sqrt(variance).add(1e-8)) as tf.Tensor1D
+  })
+}
@@ -0,0 +1,93 @@
+import * as tf from '@tensorflow/tfjs'
+
+import { Episode, computeGAE, estimateAdvantages } from './rollouts'
+
+const DISCOUNT_RATE = 0.9
+const GAE_LAMBDA = 0.8
+
+// The rewards of a game of three steps, and the values of the states before
+// them.
+const REWARDS = [1, 1, 1]
+const VALUES = [0.5, 1, 2]
+
+function expectValuesClose(actual: number[], expected: number[]) {
+  expect(actual.length).toEqual(expected.length)
+  actual.forEach((x, i) => expect(x).toBeCloseTo(expected[i], 5))
+}
+
+describe('computeGAE', () => {
+  it('computes the advantages of a terminated game', () => {
+    // No rewards follow the terminal state, so its value is 0. The
+    // temporal-difference errors are
+    //   delta_2 = 1 + 0.9 * 0 - 2 = -1
+    //   delta_1 = 1 + 0.9 * 2 - 1 = 1.8
+    //   delta_0 = 1 + 0.9 * 1 - 0.5 = 1.4
+    // and with gamma * lambda = 0.72,
+    //   A_2 = -1
+    //   A_1 = 1.8 + 0.72 * -1 = 1.08
+    //   A_0 = 1.4 + 0.72 * 1.08 = 2.1776
+    const { advantages, returns } = computeGAE(
+      REWARDS,
+      VALUES.concat([0]),
+      DISCOUNT_RATE,
+      GAE_LAMBDA
+    )
+    expectValuesClose(advantages, [2.1776, 1.08, -1])
+    expectValuesClose(returns, [2.6776, 2.08, 1])
+  })
+
+  it('bootstraps a truncated game from the value of its last state', () => {
+    // Like the terminated game, except for
+    //   delta_2 = 1 + 0.9 * 3 - 2 = 1.7
+    //   A_1 = 1.8 + 0.72 * 1.7 = 3.024
+    //   A_0 = 1.4 + 0.72 * 3.024 = 3.57728
+    const { advantages, returns } = computeGAE(
+      REWARDS,
+      VALUES.concat([3]),
+      DISCOUNT_RATE,
+      GAE_LAMBDA
+    )
+    expectValuesClose(advantages, [3.57728, 3.024, 1.7])
+    expectValuesClose(returns, [4.07728, 4.024, 3.7])
+  })
+
+  it('gives the discounted returns minus the values for lambda 1', () => {
+    // The discounted returns are 2.71, 1.9 and 1.
+    const { advantages, returns } = computeGAE(
+      REWARDS,
+      VALUES.concat([0]),
+      DISCOUNT_RATE,
+      1
+    )
+    expectValuesClose(advantages, [2.21, 0.9, -1])
+    expectValuesClose(returns, [2.71, 1.9, 1])
+  })
+})
+
+describe('estimateAdvantages', () => {
+  it('ignores the value of the final state of terminated games only', () => {
+    // A value network whose estimate of a state is the state itself.
+    const valueNet = tf.sequential({
+      layers: [tf.layers.dense({ units: 1, inputShape: [1] })],
+    })
+    const weights = [tf.tensor2d([[1]]), tf.tensor1d([0])]
+    valueNet.setWeights(weights)
+    tf.dispose(weights)
+    const episode = (terminated: boolean): Episode => ({
+      states: VALUES.map((value) => [value]),
+      actions: [0, 0, 0],
+      rewards: REWARDS,
+      finalState: [3],
+      terminated,
+    })
+    const { advantages, returns } = estimateAdvantages(
+      valueNet,
+      [episode(true), episode(false)],
+      DISCOUNT_RATE,
+      GAE_LAMBDA
+    )
+    expectValuesClose(advantages, [2.1776, 1.08, -1, 3.57728, 3.024, 1.7])
+    expectValuesClose(returns, [2.6776, 2.08, 1, 4.07728, 4.024, 3.7])
+    valueNet.dispose()
+  })
+})
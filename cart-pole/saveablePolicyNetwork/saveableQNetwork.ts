@@ -0,0 +1,159 @@
+import * as tf from '@tensorflow/tfjs'
+
+import { createOptimizer } from './optimizerState'
+import { DEFAULT_OPTIMIZER_CONFIG, OptimizerConfig } from './optimizers'
+import { DQNConfig, QNetwork } from './qNetwork'
+import {
+  ModelMetadata,
+  exportModel,
+  getHiddenLayerSizes,
+  saveModel,
+} from './storage'
+import { TrainingMetadata } from './trainingMetadata'
+
+/**
+ * A subclass of QNetwork that supports saving and loading.
+ *
+ * Q-networks are stored alongside policy networks, under the same names, and
+ * saved the same way as `SaveablePolicyNetwork`. The DQN configuration and
+ * the number of steps trained so far (which drives the annealing of epsilon)
+ * are saved along with the model. The replay buffer and the target network
+ * are not: they are rebuilt when training resumes.
+ */
+export class SaveableQNetwork extends QNetwork {
+  // How this Q-network has been trained so far, if known.
+  public trainingMetadata: TrainingMetadata | null
+  // The optimizer that trains this Q-network, kept across rounds of training
+  // so that its state (e.g., Adam's moment estimates) carries over.
+  private optimizer_: tf.Optimizer | null
+  private optimizerLearningRate_: number
+  private optimizerConfig_: OptimizerConfig
+
+  /**
+   * Constructor of SaveableQNetwork.
+   *
+   * See `QNetwork` for the parameters.
+   */
+  constructor(args: {
+    layersModel?: tf.LayersModel
+    sizes?: {
+      hiddenLayerSizes: number | number[]
+      inputSize: number
+      outputSize: number
+    }
+    config?: DQNConfig
+  }) {
+    super(args)
+    this.trainingMetadata = null
+    this.optimizer_ = null
+    this.optimizerLearningRate_ = NaN
+    this.optimizerConfig_ = DEFAULT_OPTIMIZER_CONFIG
+  }
+
+  /**
+   * Create a Q-network from a loaded model.
+   *
+   * @param {tf.LayersModel} layersModel
+   * @param {ModelMetadata} metadata The metadata saved inside the model.
+   */
+  static fromModel(layersModel: tf.LayersModel, metadata: ModelMetadata) {
+    const qNet = new SaveableQNetwork({
+      layersModel,
+      config: metadata.dqn != null ? metadata.dqn.config : undefined,
+    })
+    if (metadata.dqn != null) {
+      qNet.stepCount = metadata.dqn.stepCount
+    }
+    if (metadata.training != null) {
+      qNet.trainingMetadata = metadata.training
+    }
+    return qNet
+  }
+
+  /**
+   * Get the optimizer to train this Q-network with.
+   *
+   * See `SaveablePolicyNetwork.getOptimizer()`.
+   *
+   * @param {number} learningRate
+   * @param {OptimizerConfig} config The optimizer, Adam by default.
+   */
+  async getOptimizer(
+    learningRate: number,
+    config: OptimizerConfig = DEFAULT_OPTIMIZER_CONFIG
+  ) {
+    if (
+      this.optimizer_ === null ||
+      learningRate !== this.optimizerLearningRate_ ||
+      config.name !== this.optimizerConfig_.name ||
+      config.momentum !== this.optimizerConfig_.momentum
+    ) {
+      this.optimizer_ = await createOptimizer(
+        config,
+        learningRate,
+        this.optimizer_
+      )
+      this.optimizerLearningRate_ = learningRate
+      this.optimizerConfig_ = config
+    }
+    return this.optimizer_
+  }
+
+  /**
+   * Dispose the networks and the optimizer of this Q-network.
+   */
+  dispose() {
+    super.dispose()
+    if (this.optimizer_ !== null) {
+      this.optimizer_.dispose()
+      this.optimizer_ = null
+    }
+  }
+
+  /**
+   * Save the model to IndexedDB under a name.
+   *
+   * See `SaveablePolicyNetwork.saveModel()`.
+   *
+   * @param {string} name Name to save the model under.
+   */
+  async saveModel(name: string) {
+    return await saveModel(
+      this.onlineNet,
+      name,
+      this.getModelMetadata(),
+      this.optimizer_
+    )
+  }
+
+  /**
+   * Download the model as a bundle of files.
+   *
+   * See `SaveablePolicyNetwork.exportModel()`.
+   *
+   * @param {string} name Base name of the downloaded files.
+   */
+  async exportModel(name: string) {
+    return await exportModel(this.onlineNet, name, this.getModelMetadata())
+  }
+
+  private getModelMetadata(): ModelMetadata {
+    const metadata: ModelMetadata = {
+      agent: 'dqn',
+      dqn: { config: this.config, stepCount: this.stepCount },
+    }
+    if (this.trainingMetadata !== null) {
+      metadata.training = this.trainingMetadata
+    }
+    return metadata
+  }
+
+  /**
+   * Get the sizes of the hidden layers.
+   *
+   * See `SaveablePolicyNetwork.hiddenLayerSizes()`.
+   */
+  hiddenLayerSizes() {
+    return getHiddenLayerSizes(this.onlineNet)
+  }
+}
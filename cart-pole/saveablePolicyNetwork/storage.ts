@@ -0,0 +1,617 @@
+import * as tf from '@tensorflow/tfjs'
+
+import { PretrainingRecord } from './demonstrations'
+import { saveOptimizerState } from './optimizerState'
+import { PolicyHead } from './policyNetwork'
+import { DQNConfig } from './qNetwork'
+import { TrainingMetadata, parseTrainingMetadata } from './trainingMetadata'
+
+// The IndexedDB path prefix under which named models are saved.
+const MODEL_SAVE_PATH_PREFIX_ = 'indexeddb://cart-pole-model/'
+
+// The IndexedDB path prefix under which the optimizer states of named models
+// are saved.
+const OPTIMIZER_SAVE_PATH_PREFIX_ = 'indexeddb://cart-pole-optimizer/'
+
+// The IndexedDB path prefix under which the value networks of the trainers of
+// named policy networks (actor-critic and PPO) are saved.
+const VALUE_NETWORK_SAVE_PATH_PREFIX_ = 'indexeddb://cart-pole-value-network/'
+
+// The IndexedDB path prefix under which the optimizer states of the value
+// networks of named policy networks are saved.
+const VALUE_OPTIMIZER_SAVE_PATH_PREFIX_ =
+  'indexeddb://cart-pole-value-optimizer/'
+
+// The localStorage key prefix under which the summaries of named models are
+// kept, so that the models do not have to be loaded to be listed.
+const MODEL_SUMMARY_KEY_PREFIX_ = 'cart-pole-model-summary/'
+
+// The single IndexedDB slot used by earlier versions of this example.
+const LEGACY_MODEL_SAVE_PATH_ = 'indexeddb://cart-pole-v1'
+
+// The name under which a model found in the legacy slot is kept.
+export const DEFAULT_MODEL_NAME = 'cart-pole-v1'
+
+// Suffix of the sidecar file that holds the training metadata of an exported
+// model.
+const METADATA_FILE_SUFFIX_ = '.metadata.json'
+
+/**
+ * The kinds of agents whose models can be stored.
+ */
+export type AgentType = 'policy-network' | 'dqn'
+
+/**
+ * Metadata saved inside a model (as its user-defined metadata).
+ */
+export interface ModelMetadata {
+  // Absent for policy networks, which were the only kind of agent before.
+  agent?: AgentType
+  // The distribution of the actions of a policy network. Absent for models
+  // saved before the head was recorded, whose head follows from the number
+  // of outputs.
+  policyHead?: PolicyHead
+  training?: TrainingMetadata
+  // Only present for policy networks pretrained from demonstrations.
+  pretraining?: PretrainingRecord
+  // Only present for 'dqn'.
+  dqn?: {
+    config: DQNConfig
+    stepCount: number
+  }
+}
+
+/**
+ * What the list of stored models shows about a model, besides its name and
+ * date.
+ */
+interface ModelSummary {
+  agentType: AgentType
+  hiddenLayerSizes: number | number[]
+}
+
+/**
+ * Summary of a model stored in IndexedDB.
+ */
+export interface StoredModelInfo extends ModelSummary {
+  name: string
+  dateSaved: Date
+}
+
+/**
+ * Get the IndexedDB path of a named model.
+ *
+ * @param {string} name Name of the model.
+ * @returns The IndexedDB path of the model.
+ * @throws {Error} If `name` is empty or contains a slash.
+ */
+function modelPath(name: string) {
+  if (name.length === 0 || name.indexOf('/') !== -1) {
+    throw new Error(`Invalid model name: '${name}'`)
+  }
+  return MODEL_SAVE_PATH_PREFIX_ + name
+}
+
+/**
+ * Get the IndexedDB path of the optimizer state of a named model.
+ *
+ * @param {string} name Name of the model.
+ * @returns The IndexedDB path of the optimizer state.
+ */
+export function optimizerPath(name: string) {
+  return (
+    OPTIMIZER_SAVE_PATH_PREFIX_ +
+    modelPath(name).slice(MODEL_SAVE_PATH_PREFIX_.length)
+  )
+}
+
+/**
+ * Get the IndexedDB path of the value network of a named policy network.
+ *
+ * @param {string} name Name of the model.
+ * @returns The IndexedDB path of the value network.
+ */
+export function valueNetworkPath(name: string) {
+  return (
+    VALUE_NETWORK_SAVE_PATH_PREFIX_ +
+    modelPath(name).slice(MODEL_SAVE_PATH_PREFIX_.length)
+  )
+}
+
+/**
+ * Get the IndexedDB path of the optimizer state of the value network of a
+ * named policy network.
+ *
+ * @param {string} name Name of the model.
+ * @returns The IndexedDB path of the optimizer state.
+ */
+export function valueOptimizerPath(name: string) {
+  return (
+    VALUE_OPTIMIZER_SAVE_PATH_PREFIX_ +
+    modelPath(name).slice(MODEL_SAVE_PATH_PREFIX_.length)
+  )
+}
+
+/**
+ * Get the IndexedDB paths of what is saved along with a named model, see
+ * `saveModel()`.
+ *
+ * @param {string} name Name of the model.
+ */
+function companionPaths(name: string) {
+  return [optimizerPath(name), valueNetworkPath(name), valueOptimizerPath(name)]
+}
+
+/**
+ * Trigger the browser download of a JSON file.
+ *
+ * @param {any} json The object to serialize.
+ * @param {string} fileName Name of the downloaded file.
+ */
+export function downloadJSON(json: any, fileName: string) {
+  downloadText(JSON.stringify(json, null, 2), fileName, 'application/json')
+}
+
+/**
+ * Trigger the browser download of a text file.
+ *
+ * @param {string} text The content of the file.
+ * @param {string} fileName Name of the downloaded file.
+ * @param {string} type The MIME type of the file, e.g., 'text/csv'.
+ */
+export function downloadText(text: string, fileName: string, type: string) {
+  const blob = new Blob([text], { type })
+  const url = window.URL.createObjectURL(blob)
+  const anchor = document.createElement('a')
+  anchor.download = fileName
+  anchor.href = url
+  anchor.click()
+  window.URL.revokeObjectURL(url)
+}
+
+/**
+ * Read the text content of a user-selected file.
+ *
+ * @param {File} file
+ */
+export function readFileAsText(file: File) {
+  return new Promise<string>((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(reader.result as string)
+    reader.onerror = () => reject(reader.error)
+    reader.readAsText(file)
+  })
+}
+
+/**
+ * Get the metadata saved inside a model.
+ *
+ * @param {tf.LayersModel} layersModel
+ */
+export function getModelMetadata(layersModel: tf.LayersModel): ModelMetadata {
+  const userDefinedMetadata = layersModel.getUserDefinedMetadata() as
+    | ModelMetadata
+    | undefined
+  if (userDefinedMetadata == null) {
+    return {}
+  }
+  const metadata = { ...userDefinedMetadata }
+  if (metadata.training != null) {
+    metadata.training = parseTrainingMetadata(metadata.training)
+  }
+  return metadata
+}
+
+/**
+ * Get the kind of agent a model belongs to.
+ *
+ * @param {ModelMetadata} metadata The metadata saved inside the model.
+ */
+export function getAgentType(metadata: ModelMetadata): AgentType {
+  return metadata.agent || 'policy-network'
+}
+
+/**
+ * Get the sizes of the hidden layers of a model.
+ *
+ * @param {tf.LayersModel} layersModel
+ * @returns If the model has only one hidden layer,
+ *   return the size of the layer as a single number. If the model has
+ *   multiple hidden layers, return the sizes as an Array of numbers.
+ */
+export function getHiddenLayerSizes(layersModel: tf.LayersModel) {
+  const sizes: number | number[] = []
+  for (let i = 0; i < layersModel.layers.length - 1; ++i) {
+    // `units` does not exist on Layer (!?)
+    const layer = layersModel.layers[i] as any
+    sizes.push(layer.units)
+  }
+  return sizes.length === 1 ? sizes[0] : sizes
+}
+
+/**
+ * Get the localStorage that keeps the summaries of the models.
+ *
+ * @returns The localStorage, or `null` where there is none, e.g., in the
+ *   training worker, which saves models without their summaries.
+ */
+function getSummaryStorage(): Storage | null {
+  return typeof window !== 'undefined' ? window.localStorage : null
+}
+
+/**
+ * Get the localStorage key of the summary of a named model.
+ *
+ * @param {string} name Name of the model.
+ */
+function modelSummaryKey(name: string) {
+  return MODEL_SUMMARY_KEY_PREFIX_ + name
+}
+
+/**
+ * Keep the summary of a model saved under a name, see `readModelSummary()`.
+ *
+ * `saveModel()` does not, so that models can be saved where there is no
+ * localStorage: the page keeps the summary of a model when it saves it, and
+ * when the training worker reports that it has saved it.
+ *
+ * @param {string} name Name of the model.
+ * @param {tf.LayersModel} layersModel The saved model, with its metadata.
+ */
+export function saveModelSummary(name: string, layersModel: tf.LayersModel) {
+  const storage = getSummaryStorage()
+  if (storage === null) {
+    return
+  }
+  const summary: ModelSummary = {
+    agentType: getAgentType(getModelMetadata(layersModel)),
+    hiddenLayerSizes: getHiddenLayerSizes(layersModel),
+  }
+  storage.setItem(modelSummaryKey(name), JSON.stringify(summary))
+}
+
+/**
+ * Read the summary of a named model.
+ *
+ * @param {string} name Name of the model.
+ * @returns The summary, or `null` if there is none, e.g., for models saved
+ *   before the summaries were kept, or where there is no localStorage.
+ */
+function readModelSummary(name: string): ModelSummary | null {
+  const storage = getSummaryStorage()
+  const json = storage !== null ? storage.getItem(modelSummaryKey(name)) : null
+  if (json === null) {
+    return null
+  }
+  try {
+    const summary = JSON.parse(json)
+    return summary != null &&
+      typeof summary.agentType === 'string' &&
+      summary.hiddenLayerSizes != null
+      ? (summary as ModelSummary)
+      : null
+  } catch (err) {
+    return null
+  }
+}
+
+/**
+ * Save a model to IndexedDB under a name.
+ *
+ * An existing model with the same name is overwritten. The metadata, the
+ * state of the optimizer, and the value network of the trainer and the state
+ * of its optimizer are saved along with the model, so that training can be resumed after the model is loaded
+ * again. The summary of the model is not, see `saveModelSummary()`.
+ *
+ * @param {tf.LayersModel} layersModel
+ * @param {string} name Name to save the model under.
+ * @param {ModelMetadata} metadata
+ * @param {tf.Optimizer | null} optimizer The optimizer that trains the model,
+ *   if any.
+ * @param {tf.LayersModel | null} valueNet The value network of the trainer
+ *   of a policy network, if any.
+ * @param {tf.Optimizer | null} valueOptimizer The optimizer of `valueNet`,
+ *   if any.
+ */
+export async function saveModel(
+  layersModel: tf.LayersModel,
+  name: string,
+  metadata: ModelMetadata,
+  optimizer: tf.Optimizer | null,
+  valueNet: tf.LayersModel | null = null,
+  valueOptimizer: tf.Optimizer | null = null
+) {
+  layersModel.setUserDefinedMetadata(metadata)
+  const modelsInfo = await tf.io.listModels()
+  // Do not leave the optimizer state or the value network of an overwritten
+  // model, or the optimizer state of its value network, behind.
+  if (optimizer !== null) {
+    await saveOptimizerState(optimizer, optimizerPath(name))
+  } else if (optimizerPath(name) in modelsInfo) {
+    await tf.io.removeModel(optimizerPath(name))
+  }
+  if (valueNet !== null) {
+    await valueNet.save(valueNetworkPath(name))
+  } else if (valueNetworkPath(name) in modelsInfo) {
+    await tf.io.removeModel(valueNetworkPath(name))
+  }
+  if (valueNet !== null && valueOptimizer !== null) {
+    await saveOptimizerState(valueOptimizer, valueOptimizerPath(name))
+  } else if (valueOptimizerPath(name) in modelsInfo) {
+    await tf.io.removeModel(valueOptimizerPath(name))
+  }
+  return await layersModel.save(modelPath(name))
+}
+
+/**
+ * Load a named model from IndexedDB.
+ *
+ * @param {string} name Name of the model.
+ * @returns The loaded model, the metadata saved inside it, and whether an
+ *   optimizer state (see `loadOptimizerState()`), a value network and the
+ *   optimizer state of the value network are stored along with it.
+ * @throws {Error} If no model with the name can be found in IndexedDB.
+ */
+export async function loadModel(name: string) {
+  const path = modelPath(name)
+  const modelsInfo = await tf.io.listModels()
+  if (!(path in modelsInfo)) {
+    throw new Error(`Cannot find model at ${path}.`)
+  }
+  console.log(`Loading existing model...`)
+  const layersModel = await tf.loadLayersModel(path)
+  console.log(`Loaded model from ${path}`)
+  return {
+    layersModel,
+    metadata: getModelMetadata(layersModel),
+    hasOptimizerState: optimizerPath(name) in modelsInfo,
+    hasValueNetwork: valueNetworkPath(name) in modelsInfo,
+    hasValueOptimizerState: valueOptimizerPath(name) in modelsInfo,
+  }
+}
+
+/**
+ * Download a model as a bundle of files.
+ *
+ * The bundle consists of
+ *   - `${name}.json`: the topology, the weights manifest and the metadata,
+ *   - `${name}.weights.bin`: the weight values,
+ *   - `${name}.metadata.json`: the training metadata, if any.
+ *
+ * @param {tf.LayersModel} layersModel
+ * @param {string} name Base name of the downloaded files.
+ * @param {ModelMetadata} metadata
+ */
+export async function exportModel(
+  layersModel: tf.LayersModel,
+  name: string,
+  metadata: ModelMetadata
+) {
+  layersModel.setUserDefinedMetadata(metadata)
+  // `downloads://` leaves out the user-defined metadata, which tells the
+  // kind of agent, so the model JSON file is assembled here.
+  const result = await layersModel.save(
+    tf.io.withSaveHandler(async (artifacts) => {
+      const weightsFileName = `${name}.weights.bin`
+      downloadJSON(
+        {
+          modelTopology: artifacts.modelTopology,
+          format: artifacts.format,
+          generatedBy: artifacts.generatedBy,
+          convertedBy: artifacts.convertedBy,
+          weightsManifest: [
+            {
+              paths: [`./${weightsFileName}`],
+              weights: artifacts.weightSpecs,
+            },
+          ],
+          userDefinedMetadata: artifacts.userDefinedMetadata,
+        },
+        `${name}.json`
+      )
+      const weightsURL = window.URL.createObjectURL(
+        new Blob([artifacts.weightData as ArrayBuffer], {
+          type: 'application/octet-stream',
+        })
+      )
+      const anchor = document.createElement('a')
+      anchor.download = weightsFileName
+      anchor.href = weightsURL
+      anchor.click()
+      window.URL.revokeObjectURL(weightsURL)
+      return {
+        modelArtifactsInfo: tf.io.getModelArtifactsInfoForJSON(artifacts),
+      }
+    })
+  )
+  if (metadata.training != null) {
+    downloadJSON(metadata.training, name + METADATA_FILE_SUFFIX_)
+  }
+  return result
+}
+
+/**
+ * Load a model from a bundle of user-selected files.
+ *
+ * @param {File[]} files The files of a bundle created by `exportModel()`,
+ *   or by the Node.js training script. The training metadata file is
+ *   optional.
+ * @returns The loaded model and the metadata saved inside it, with the
+ *   training metadata of the sidecar file, if any.
+ * @throws {Error} If the topology or the weights file is missing.
+ */
+export async function importModel(files: File[]) {
+  const metadataFile = files.find((file) =>
+    file.name.endsWith(METADATA_FILE_SUFFIX_)
+  )
+  const modelFiles = files.filter((file) => file !== metadataFile)
+  const jsonFile = modelFiles.find((file) => file.name.endsWith('.json'))
+  const weightsFiles = modelFiles.filter((file) => file !== jsonFile)
+  if (jsonFile === undefined || weightsFiles.length === 0) {
+    throw new Error(
+      'Please select the model JSON file and the weights file(s) ' +
+        '(and optionally the training metadata file).'
+    )
+  }
+  const layersModel = await tf.loadLayersModel(
+    tf.io.browserFiles([jsonFile, ...weightsFiles])
+  )
+  const metadata = getModelMetadata(layersModel)
+  if (metadataFile !== undefined) {
+    metadata.training = parseTrainingMetadata(
+      JSON.parse(await readFileAsText(metadataFile))
+    )
+  }
+  return { layersModel, metadata }
+}
+
+/**
+ * List the models stored in IndexedDB.
+ *
+ * @returns The info of every stored model, most recently saved first.
+ */
+export async function listModels() {
+  const modelsInfo = await tf.io.listModels()
+  const storedModels: StoredModelInfo[] = []
+  for (const path in modelsInfo) {
+    if (path.indexOf(MODEL_SAVE_PATH_PREFIX_) !== 0) {
+      continue
+    }
+    const name = path.slice(MODEL_SAVE_PATH_PREFIX_.length)
+    let summary = readModelSummary(name)
+    if (summary === null) {
+      // A model without a summary has to be loaded, once, to find out its
+      // kind and hidden layer sizes.
+      const layersModel = await tf.loadLayersModel(path)
+      summary = {
+        agentType: getAgentType(getModelMetadata(layersModel)),
+        hiddenLayerSizes: getHiddenLayerSizes(layersModel),
+      }
+      saveModelSummary(name, layersModel)
+      layersModel.dispose()
+    }
+    storedModels.push({
+      name,
+      ...summary,
+      dateSaved: new Date(modelsInfo[path].dateSaved),
+    })
+  }
+  return storedModels.sort(
+    (a, b) => b.dateSaved.getTime() - a.dateSaved.getTime()
+  )
+}
+
+/**
+ * Rename a stored model.
+ *
+ * @param {string} name Current name of the model.
+ * @param {string} newName New name of the model.
+ * @throws {Error} If a model named `newName` already exists.
+ */
+export async function renameModel(name: string, newName: string) {
+  await assertModelDoesNotExist(newName)
+  // The model is moved first, so that a failed move does not leave the
+  // optimizer state or the value network under the new name without their
+  // model.
+  const result = await tf.io.moveModel(modelPath(name), modelPath(newName))
+  const modelsInfo = await tf.io.listModels()
+  const paths = companionPaths(name)
+  const newPaths = companionPaths(newName)
+  for (let i = 0; i < paths.length; ++i) {
+    if (paths[i] in modelsInfo) {
+      await tf.io.moveModel(paths[i], newPaths[i])
+    }
+  }
+  moveModelSummary(name, newName, true)
+  return result
+}
+
+/**
+ * Move or copy the summary of a named model along with the model.
+ *
+ * @param {string} name Name of the model.
+ * @param {string} newName Name of the moved or copied model.
+ * @param {boolean} removeOld Whether the summary under `name` is removed.
+ */
+function moveModelSummary(name: string, newName: string, removeOld: boolean) {
+  const storage = getSummaryStorage()
+  if (storage === null) {
+    return
+  }
+  const json = storage.getItem(modelSummaryKey(name))
+  if (json === null) {
+    // `listModels()` writes the summary when it is missing.
+    storage.removeItem(modelSummaryKey(newName))
+  } else {
+    storage.setItem(modelSummaryKey(newName), json)
+  }
+  if (removeOld) {
+    storage.removeItem(modelSummaryKey(name))
+  }
+}
+
+/**
+ * Store a copy of a stored model under a new name.
+ *
+ * @param {string} name Name of the model to copy.
+ * @param {string} newName Name of the copy.
+ * @throws {Error} If a model named `newName` already exists.
+ */
+export async function duplicateModel(name: string, newName: string) {
+  await assertModelDoesNotExist(newName)
+  const modelsInfo = await tf.io.listModels()
+  const paths = companionPaths(name)
+  const newPaths = companionPaths(newName)
+  for (let i = 0; i < paths.length; ++i) {
+    if (paths[i] in modelsInfo) {
+      await tf.io.copyModel(paths[i], newPaths[i])
+    }
+  }
+  const result = await tf.io.copyModel(modelPath(name), modelPath(newName))
+  moveModelSummary(name, newName, false)
+  return result
+}
+
+/**
+ * Remove a named model from IndexedDB.
+ *
+ * @param {string} name Name of the model.
+ */
+export async function removeModel(name: string) {
+  const modelsInfo = await tf.io.listModels()
+  for (const path of companionPaths(name)) {
+    if (path in modelsInfo) {
+      await tf.io.removeModel(path)
+    }
+  }
+  const result = await tf.io.removeModel(modelPath(name))
+  const storage = getSummaryStorage()
+  if (storage !== null) {
+    storage.removeItem(modelSummaryKey(name))
+  }
+  return result
+}
+
+/**
+ * Move a model saved by earlier versions of this example, which always used
+ * a single IndexedDB slot, to the slot of `DEFAULT_MODEL_NAME`.
+ */
+export async function migrateLegacyModel() {
+  const modelsInfo = await tf.io.listModels()
+  if (
+    LEGACY_MODEL_SAVE_PATH_ in modelsInfo &&
+    !(modelPath(DEFAULT_MODEL_NAME) in modelsInfo)
+  ) {
+    await tf.io.moveModel(
+      LEGACY_MODEL_SAVE_PATH_,
+      modelPath(DEFAULT_MODEL_NAME)
+    )
+  }
+}
+
+async function assertModelDoesNotExist(name: string) {
+  const modelsInfo = await tf.io.listModels()
+  if (modelPath(name) in modelsInfo) {
+    throw new Error(`A model named '${name}' already exists.`)
+  }
+}
@@ -0,0 +1,38 @@
+import { createValueNetwork } from './rollouts'
+import { saveModelSummary } from './storage'
+
+// The global scope of Node.js, which has no window unless a test gives it one.
+const globalScope = global as unknown as {
+  window?: { localStorage: Pick<Storage, 'getItem' | 'setItem'> }
+}
+
+describe('saveModelSummary', () => {
+  afterEach(() => delete globalScope.window)
+
+  it('does nothing where there is no localStorage', () => {
+    const model = createValueNetwork([8], 4)
+    model.setUserDefinedMetadata({ agent: 'dqn' })
+    expect(typeof window).toEqual('undefined')
+    expect(() => saveModelSummary('model', model)).not.toThrow()
+    model.dispose()
+  })
+
+  it('keeps the agent type and hidden layer sizes of a model', () => {
+    const items: { [key: string]: string } = {}
+    globalScope.window = {
+      localStorage: {
+        getItem: (key) => (key in items ? items[key] : null),
+        setItem: (key, value) => (items[key] = value),
+      },
+    }
+    const model = createValueNetwork([8, 6], 4)
+    model.setUserDefinedMetadata({ agent: 'dqn' })
+    saveModelSummary('model', model)
+    expect(Object.keys(items).length).toEqual(1)
+    expect(JSON.parse(items[Object.keys(items)[0]])).toEqual({
+      agentType: 'dqn',
+      hiddenLayerSizes: [8, 6],
+    })
+    model.dispose()
+  })
+})
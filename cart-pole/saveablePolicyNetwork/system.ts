@@ -1,7 +1,37 @@
 import * as tf from '@tensorflow/tfjs'
 
+import { BoxSpace, EnvInfo, Space } from './env'
+
 export abstract class System {
+  // The space of the state vectors of `getStateTensor()`.
+  abstract readonly observationSpace: BoxSpace
+  // The space of the actions of `update()`.
+  abstract readonly actionSpace: Space
+  // The reward of every step that does not end the game (the step that does
+  // is rewarded with 0). 1 suits systems that have to be kept from failing,
+  // where longer games are better; -1 suits systems that have to reach a
+  // goal, where shorter games are better.
+  abstract readonly stepReward: number
   abstract setRandomState(): void
   abstract getStateTensor(): tf.Tensor2D
   abstract update(action: number): boolean
 }
+
+/**
+ * A system that provides auxiliary information about its state, like the
+ * failure cause of the `CartPole`.
+ */
+interface WithInfo {
+  getInfo(): EnvInfo
+}
+
+/**
+ * Get the auxiliary information about the state of a system, if it provides
+ * any.
+ *
+ * @param {object} system
+ */
+export function getSystemInfo(system: object): EnvInfo {
+  const withInfo = system as Partial<WithInfo>
+  return typeof withInfo.getInfo === 'function' ? withInfo.getInfo() : {}
+}
@@ -0,0 +1,191 @@
+import { BatchSystem } from './batchSystem'
+import {
+  BoxSpace,
+  Env,
+  ResetResult,
+  Space,
+  StepResult,
+  VectorEnv,
+  VectorStepResult,
+} from './env'
+import { System, getSystemInfo } from './system'
+
+/**
+ * A system that can be rendered, like the `RenderableSystem`s of the page.
+ */
+interface Renderable {
+  render(canvas: HTMLCanvasElement): void
+}
+
+function isRenderable(system: object): system is Renderable {
+  return typeof (system as Partial<Renderable>).render === 'function'
+}
+
+/**
+ * Get the current state of a system as an Array of numbers.
+ *
+ * @param {System} system
+ */
+function getState(system: System) {
+  const stateTensor = system.getStateTensor()
+  const state = Array.from(stateTensor.dataSync())
+  stateTensor.dispose()
+  return state
+}
+
+/**
+ * Check a limit of the number of steps of an episode.
+ *
+ * @param {number} maxEpisodeSteps A positive integer, or Infinity.
+ */
+function checkMaxEpisodeSteps(maxEpisodeSteps: number) {
+  if (
+    !(
+      maxEpisodeSteps === Infinity ||
+      (Number.isInteger(maxEpisodeSteps) && maxEpisodeSteps > 0)
+    )
+  ) {
+    throw new Error(`Invalid max. steps per episode: ${maxEpisodeSteps}`)
+  }
+}
+
+/**
+ * The adapter that turns a `System` into an `Env`.
+ *
+ * Every step is rewarded with the step reward of the system, except the step
+ * in which `System.update()` returns true, which is rewarded with 0 and
+ * terminates the episode. Episodes are truncated after `maxEpisodeSteps`
+ * steps. The `info` of every step comes from the `getInfo()` method of the
+ * system, if it has one.
+ */
+export class SystemEnv<S extends System = System> extends Env {
+  public readonly system: S
+  public readonly observationSpace: BoxSpace
+  public readonly actionSpace: Space
+  private maxEpisodeSteps: number
+  private steps_: number
+
+  /**
+   * Constructor of SystemEnv.
+   *
+   * @param {System} system The system to adapt.
+   * @param {number} maxEpisodeSteps The number of steps after which an
+   *   episode is truncated. Unlimited by default.
+   */
+  constructor(system: S, maxEpisodeSteps = Infinity) {
+    super()
+    checkMaxEpisodeSteps(maxEpisodeSteps)
+    this.system = system
+    this.observationSpace = system.observationSpace
+    this.actionSpace = system.actionSpace
+    this.maxEpisodeSteps = maxEpisodeSteps
+    this.steps_ = 0
+  }
+
+  reset(): ResetResult {
+    this.system.setRandomState()
+    this.steps_ = 0
+    return {
+      observation: getState(this.system),
+      info: getSystemInfo(this.system),
+    }
+  }
+
+  step(action: number): StepResult {
+    const isDone = this.system.update(action)
+    this.steps_++
+    return {
+      observation: getState(this.system),
+      reward: isDone ? 0 : this.system.stepReward,
+      terminated: isDone,
+      truncated: !isDone && this.steps_ >= this.maxEpisodeSteps,
+      info: getSystemInfo(this.system),
+    }
+  }
+
+  render(canvas: HTMLCanvasElement) {
+    if (isRenderable(this.system)) {
+      this.system.render(canvas)
+    }
+  }
+}
+
+/**
+ * The adapter that turns a `BatchSystem` into a `VectorEnv`, with the same
+ * rewards, truncation and infos as `SystemEnv`.
+ */
+export class BatchSystemEnv<
+  B extends BatchSystem = BatchSystem
+> extends VectorEnv {
+  public readonly batchSystem: B
+  public readonly numEnvs: number
+  public readonly observationSpace: BoxSpace
+  public readonly actionSpace: Space
+  private maxEpisodeSteps: number
+  // The number of steps of the current episode of every system.
+  private steps_: number[]
+
+  /**
+   * Constructor of BatchSystemEnv.
+   *
+   * @param {BatchSystem} batchSystem The batch of systems to adapt.
+   * @param {number} maxEpisodeSteps The number of steps after which an
+   *   episode is truncated. Unlimited by default.
+   */
+  constructor(batchSystem: B, maxEpisodeSteps = Infinity) {
+    super()
+    checkMaxEpisodeSteps(maxEpisodeSteps)
+    this.batchSystem = batchSystem
+    this.numEnvs = batchSystem.size
+    this.observationSpace = batchSystem.observationSpace
+    this.actionSpace = batchSystem.actionSpace
+    this.maxEpisodeSteps = maxEpisodeSteps
+    this.steps_ = new Array(batchSystem.size).fill(0)
+  }
+
+  reset() {
+    this.batchSystem.setRandomState()
+    this.steps_.fill(0)
+    return this.getStates()
+  }
+
+  step(actions: ArrayLike<number>): VectorStepResult {
+    const { done, finalStates, infos } = this.batchSystem.update(actions)
+    const states = this.getStates()
+    const truncated: boolean[] = []
+    const finalObservations = finalStates.slice()
+    for (let i = 0; i < this.numEnvs; ++i) {
+      this.steps_[i]++
+      truncated.push(!done[i] && this.steps_[i] >= this.maxEpisodeSteps)
+      if (truncated[i]) {
+        // Failed systems have been reset by the batch already.
+        finalObservations[i] = states[i]
+        this.batchSystem.setRandomState(i)
+      }
+      if (done[i] || truncated[i]) {
+        this.steps_[i] = 0
+      }
+    }
+    return {
+      observations: truncated.some((t) => t) ? this.getStates() : states,
+      rewards: done.map((isDone) => (isDone ? 0 : this.batchSystem.stepReward)),
+      terminated: done,
+      truncated,
+      infos,
+      finalObservations,
+    }
+  }
+
+  render(canvas: HTMLCanvasElement) {
+    if (isRenderable(this.batchSystem)) {
+      this.batchSystem.render(canvas)
+    }
+  }
+
+  private getStates() {
+    const stateTensor = this.batchSystem.getStateTensor()
+    const states = stateTensor.arraySync()
+    stateTensor.dispose()
+    return states
+  }
+}
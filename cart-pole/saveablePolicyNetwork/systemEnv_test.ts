@@ -0,0 +1,174 @@
+import * as tf from '@tensorflow/tfjs'
+
+import { BatchRenderableSystem } from '../batch_renderable_system'
+import { createVectorEnv } from '../environments'
+import { RenderableSystem } from '../renderableSystem'
+import { seedRandom } from '../utils'
+import { boxSpace, discreteSpace } from './env'
+import { BatchSystemEnv, SystemEnv } from './systemEnv'
+
+/**
+ * A system whose state is the number of steps since it was reset, and which
+ * fails when it is given the action 1.
+ */
+class StepCounter extends RenderableSystem {
+  public readonly observationSpace = boxSpace([0], [Infinity])
+  public readonly actionSpace = discreteSpace(2)
+  public readonly stepReward = 1
+  private steps = 0
+
+  setRandomState() {
+    this.steps = 0
+  }
+
+  getState() {
+    return [this.steps]
+  }
+
+  getStateTensor() {
+    return tf.tensor2d([this.getState()])
+  }
+
+  update(action: number) {
+    this.steps++
+    return action === 1
+  }
+
+  getInfo() {
+    return { steps: this.steps }
+  }
+
+  getSnapshot() {
+    return this.getState()
+  }
+
+  setSnapshot(snapshot: number[]) {
+    this.steps = snapshot[0]
+  }
+
+  render(canvas: HTMLCanvasElement) {}
+}
+
+describe('SystemEnv', () => {
+  it('terminates an episode when the system fails', () => {
+    const env = new SystemEnv(new StepCounter(), 3)
+    expect(env.reset()).toEqual({ observation: [0], info: { steps: 0 } })
+    expect(env.step(0)).toEqual({
+      observation: [1],
+      reward: 1,
+      terminated: false,
+      truncated: false,
+      info: { steps: 1 },
+    })
+    expect(env.step(1)).toEqual({
+      observation: [2],
+      reward: 0,
+      terminated: true,
+      truncated: false,
+      info: { steps: 2 },
+    })
+  })
+
+  it('truncates an episode after maxEpisodeSteps steps', () => {
+    const env = new SystemEnv(new StepCounter(), 2)
+    env.reset()
+    expect(env.step(0).truncated).toBe(false)
+    const result = env.step(0)
+    expect(result.terminated).toBe(false)
+    expect(result.truncated).toBe(true)
+    expect(result.reward).toEqual(1)
+    env.reset()
+    expect(env.step(0).truncated).toBe(false)
+  })
+
+  it('terminates rather than truncates at the last step', () => {
+    const env = new SystemEnv(new StepCounter(), 1)
+    env.reset()
+    const result = env.step(1)
+    expect(result.terminated).toBe(true)
+    expect(result.truncated).toBe(false)
+  })
+
+  it('throws on an invalid limit of steps', () => {
+    expect(() => new SystemEnv(new StepCounter(), 0)).toThrowError(
+      /Invalid max. steps per episode/
+    )
+  })
+})
+
+describe('BatchSystemEnv', () => {
+  function createEnv(maxEpisodeSteps: number) {
+    return new BatchSystemEnv(
+      new BatchRenderableSystem(2, () => new StepCounter()),
+      maxEpisodeSteps
+    )
+  }
+
+  afterEach(() => seedRandom(null))
+
+  it('resets a terminated environment automatically', () => {
+    const env = createEnv(Infinity)
+    expect(env.reset()).toEqual([[0], [0]])
+    env.step([0, 0])
+    const result = env.step([1, 0])
+    expect(result.observations).toEqual([[0], [2]])
+    expect(result.rewards).toEqual([0, 1])
+    expect(result.terminated).toEqual([true, false])
+    expect(result.truncated).toEqual([false, false])
+    expect(result.finalObservations).toEqual([[2], null])
+    expect(env.step([0, 0]).observations).toEqual([[1], [3]])
+  })
+
+  it('resets a truncated environment automatically', () => {
+    const env = createEnv(3)
+    env.reset()
+    env.step([0, 0])
+    // The first environment starts a new episode...
+    env.step([1, 0])
+    // ...so that only the second one reaches the limit of steps.
+    const result = env.step([0, 0])
+    expect(result.observations).toEqual([[1], [0]])
+    expect(result.rewards).toEqual([1, 1])
+    expect(result.terminated).toEqual([false, false])
+    expect(result.truncated).toEqual([false, true])
+    expect(result.finalObservations).toEqual([null, [3]])
+    expect(env.step([0, 0]).truncated).toEqual([false, false])
+  })
+
+  it('terminates rather than truncates at the last step', () => {
+    const env = createEnv(1)
+    env.reset()
+    const result = env.step([1, 0])
+    expect(result.terminated).toEqual([true, false])
+    expect(result.truncated).toEqual([false, true])
+    expect(result.finalObservations).toEqual([[1], [1]])
+  })
+
+  it('forwards the info of every system before it is reset', () => {
+    const env = createEnv(2)
+    env.reset()
+    expect(env.step([1, 0]).infos).toEqual([{ steps: 1 }, { steps: 1 }])
+    expect(env.step([0, 0]).infos).toEqual([{ steps: 1 }, { steps: 2 }])
+  })
+
+  it('forwards the failure causes of the cart-poles', () => {
+    seedRandom(1)
+    const env = createVectorEnv('cart-pole', 3)
+    env.reset()
+    let failures = 0
+    for (let i = 0; i < 200; ++i) {
+      const { terminated, infos } = env.step([0, 0, 1])
+      terminated.forEach((isTerminated, j) => {
+        if (isTerminated) {
+          expect<string | null | undefined>(['position', 'angle']).toContain(
+            infos[j].failureCause
+          )
+          failures++
+        } else {
+          expect(infos[j].failureCause).toBeNull()
+        }
+      })
+    }
+    expect(failures).toBeGreaterThan(0)
+  })
+})
@@ -0,0 +1,38 @@
+import * as tf from '@tensorflow/tfjs'
+
+import { Env, VectorEnv } from './env'
+
+/**
+ * An object that can train an agent by letting it play games in an `Env`.
+ *
+ * `PolicyNetwork` (REINFORCE) and the other training algorithms all implement
+ * this interface, so that the UI and the Node.js training script can switch
+ * between them.
+ */
+export interface Trainer {
+  /**
+   * Play a number of games and update the agent's model(s).
+   *
+   * @param {Env | VectorEnv} env The environment to use during training.
+   *   With a `VectorEnv`, the games are played in parallel in all of its
+   *   environments. The environment has to end every game, e.g., by
+   *   truncating it after a maximum number of steps.
+   * @param {tf.train.Optimizer} optimizer An instance of TensorFlow.js
+   *   Optimizer to use for training.
+   * @param {number} discountRate Reward discounting rate: a number between 0
+   *   and 1.
+   * @param {number} numGames Number of game to play for each model parameter
+   *   update.
+   * @param render Called after every step of every game.
+   * @param onGameEnd Called before the first and after every game.
+   * @returns The number of steps completed in each of the `numGames` games.
+   */
+  train<E extends Env | VectorEnv>(
+    env: E,
+    optimizer: tf.Optimizer,
+    discountRate: number,
+    numGames: number,
+    render: (env: E) => Promise<void>,
+    onGameEnd: (gameCount: number, totalGames: number) => void
+  ): Promise<number[]>
+}
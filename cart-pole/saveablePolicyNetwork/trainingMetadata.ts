@@ -0,0 +1,218 @@
+import { CartPoleConfig } from '../cart_pole'
+import { EnvironmentName } from '../environments'
+import { mean } from '../utils'
+import { TrainingAlgorithm } from './algorithms'
+import { StepStats, computeStepStats } from './evaluation'
+import { LearningRateSchedule, OptimizerConfig } from './optimizers'
+import { PolicyGradientStats } from './policyNetwork'
+import { RewardShapingConfig } from './rewardShaping'
+
+/**
+ * Hyperparameters used to train a policy network.
+ */
+export interface TrainingHyperparameters {
+  discountRate: number
+  // The initial learning rate, see `learningRateSchedule`.
+  learningRate: number
+  gamesPerIteration: number
+  // The seed passed to `seedRandom()`, if the training was seeded.
+  seed?: number
+  // The environment that the agent was trained on. Absent in the metadata of
+  // models trained before the environment could be chosen, which means
+  // 'cart-pole'.
+  environment?: EnvironmentName
+  // The physics of the cart-poles played during training. Absent in the
+  // metadata of models trained before the physics could be configured, which
+  // means `DEFAULT_CART_POLE_CONFIG`.
+  physics?: CartPoleConfig
+  // The reward shaping of the training. Absent if the rewards were those of
+  // the environment.
+  rewardShaping?: RewardShapingConfig
+  // Absent in the metadata of models trained before the algorithm could be
+  // chosen, which means 'reinforce'. Q-networks are always trained with
+  // 'dqn', whose configuration is saved along with the Q-network.
+  algorithm?: TrainingAlgorithm | 'dqn'
+  // Absent in the metadata of models trained before the optimizer could be
+  // chosen, which means Adam. The state of the optimizer is stored along with
+  // the model, and only fits an optimizer of the same kind.
+  optimizer?: OptimizerConfig
+  // Absent if the learning rate was constant.
+  learningRateSchedule?: LearningRateSchedule
+  // Only present for 'reinforce'. The gradient clipping is absent if the
+  // gradients were not clipped.
+  entropyCoefficient?: number
+  gradientClipNorm?: number
+  gradientClipValue?: number
+  // Only present for 'actor-critic' and 'ppo'.
+  criticLearningRate?: number
+  gaeLambda?: number
+  // Only present for 'ppo'.
+  clipRatio?: number
+  epochs?: number
+  minibatchSize?: number
+}
+
+/**
+ * Diagnostics of a training iteration.
+ */
+export interface IterationDiagnostics {
+  // The number of the iteration, counting the iterations of all the rounds of
+  // training from 1, as `meanStepsHistory` does.
+  iteration: number
+  // The distribution of the number of steps of the games of the iteration.
+  episodeLengths: StepStats
+  // The statistics of the update. Only present for 'reinforce'.
+  update?: PolicyGradientStats
+}
+
+/**
+ * Record of how a policy network has been trained so far.
+ *
+ * This is saved along with the policy network, so that a model moved to
+ * another machine still tells how it came about.
+ */
+export interface TrainingMetadata {
+  // The hyperparameters of the most recent round of training.
+  hyperparameters: TrainingHyperparameters
+  // Number of training iterations completed so far.
+  iterations: number
+  // Mean steps per game of every completed training iteration.
+  meanStepsHistory: number[]
+  // Diagnostics of every completed training iteration. Absent in the metadata
+  // of models trained before the diagnostics were recorded, whose earlier
+  // iterations have no diagnostics.
+  diagnosticsHistory?: IterationDiagnostics[]
+}
+
+/**
+ * Create the metadata of a policy network that has not been trained yet.
+ *
+ * @param {TrainingHyperparameters} hyperparameters
+ */
+export function createTrainingMetadata(
+  hyperparameters: TrainingHyperparameters
+): TrainingMetadata {
+  return {
+    hyperparameters,
+    iterations: 0,
+    meanStepsHistory: [],
+    diagnosticsHistory: [],
+  }
+}
+
+/**
+ * Record a completed training iteration.
+ *
+ * @param {TrainingMetadata} metadata The metadata to update in place.
+ * @param {number[]} gameSteps The number of steps of every game played in the
+ *   iteration.
+ * @param {PolicyGradientStats | null} update The statistics of the update of
+ *   the iteration, if the trainer reports them.
+ */
+export function recordTrainingIteration(
+  metadata: TrainingMetadata,
+  gameSteps: number[],
+  update: PolicyGradientStats | null = null
+) {
+  metadata.iterations++
+  metadata.meanStepsHistory.push(mean(gameSteps))
+  const diagnostics: IterationDiagnostics = {
+    iteration: metadata.iterations,
+    episodeLengths: computeStepStats(gameSteps),
+  }
+  if (update !== null) {
+    diagnostics.update = update
+  }
+  if (metadata.diagnosticsHistory === undefined) {
+    metadata.diagnosticsHistory = []
+  }
+  metadata.diagnosticsHistory.push(diagnostics)
+}
+
+/**
+ * Format the diagnostics of the training iterations as CSV, with a row per
+ * iteration and a column per value.
+ *
+ * The values that an iteration lacks, e.g., the statistics of the update for
+ * trainers other than 'reinforce', are left empty.
+ *
+ * @param {IterationDiagnostics[]} diagnosticsHistory
+ * @returns The CSV text, including the header row.
+ */
+export function formatDiagnosticsAsCSV(
+  diagnosticsHistory: IterationDiagnostics[]
+) {
+  const layers: string[] = []
+  for (const { update } of diagnosticsHistory) {
+    if (update !== undefined) {
+      for (const layer of Object.keys(update.weightNorms)) {
+        if (layers.indexOf(layer) < 0) {
+          layers.push(layer)
+        }
+      }
+    }
+  }
+  const stepStatNames: Array<keyof StepStats> = [
+    'mean',
+    'median',
+    'min',
+    'max',
+    'p10',
+    'p90',
+  ]
+  const updateStatNames: Array<keyof PolicyGradientStats> = [
+    'entropy',
+    'loss',
+    'gradientNorm',
+    'returnMean',
+    'returnStd',
+  ]
+  const header = ['iteration']
+    .concat(stepStatNames.map((name) => `episodeLength_${name}`))
+    .concat(updateStatNames)
+    .concat(layers.map((layer) => `weightNorm_${layer}`))
+  const rows = diagnosticsHistory.map(({ iteration, episodeLengths, update }) =>
+    [iteration]
+      .concat(stepStatNames.map((name) => episodeLengths[name]))
+      .map(String)
+      .concat(
+        updateStatNames.map((name) =>
+          update === undefined ? '' : String(update[name])
+        )
+      )
+      .concat(
+        layers.map((layer) =>
+          update === undefined || !(layer in update.weightNorms)
+            ? ''
+            : String(update.weightNorms[layer])
+        )
+      )
+  )
+  return [header]
+    .concat(rows)
+    .map((row) => row.join(','))
+    .join('\n')
+}
+
+/**
+ * Check that a parsed JSON object is valid training metadata.
+ *
+ * @param {any} json The parsed JSON object.
+ * @returns `json`, typed as `TrainingMetadata`.
+ * @throws {Error} If `json` lacks any of the fields of `TrainingMetadata`.
+ */
+export function parseTrainingMetadata(json: any): TrainingMetadata {
+  if (
+    json == null ||
+    json.hyperparameters == null ||
+    typeof json.iterations !== 'number' ||
+    !Array.isArray(json.meanStepsHistory) ||
+    !(
+      json.diagnosticsHistory === undefined ||
+      Array.isArray(json.diagnosticsHistory)
+    )
+  ) {
+    throw new Error(`Invalid training metadata: ${JSON.stringify(json)}`)
+  }
+  return json as TrainingMetadata
+}
@@ -0,0 +1,114 @@
+import { PolicyGradientStats } from './policyNetwork'
+import {
+  IterationDiagnostics,
+  TrainingMetadata,
+  createTrainingMetadata,
+  formatDiagnosticsAsCSV,
+  recordTrainingIteration,
+} from './trainingMetadata'
+
+// The steps of the games of an iteration, whose 10th and 90th percentiles
+// fall on the 2nd and 10th of them.
+const GAME_STEPS = [110, 10, 20, 30, 40, 50, 60, 70, 80, 90, 100]
+
+const UPDATE: PolicyGradientStats = {
+  entropy: 0.5,
+  loss: -1.25,
+  gradientNorm: 2,
+  returnMean: 10,
+  returnStd: 3,
+  weightNorms: { dense_1: 4, dense_2: 1.5 },
+}
+
+function createMetadata() {
+  return createTrainingMetadata({
+    discountRate: 0.95,
+    learningRate: 0.01,
+    gamesPerIteration: GAME_STEPS.length,
+  })
+}
+
+function getDiagnostics(metadata: TrainingMetadata) {
+  return metadata.diagnosticsHistory as IterationDiagnostics[]
+}
+
+describe('recordTrainingIteration', () => {
+  it('records the steps and the diagnostics of every iteration', () => {
+    const metadata = createMetadata()
+    recordTrainingIteration(metadata, GAME_STEPS, UPDATE)
+    recordTrainingIteration(metadata, [5])
+    expect(metadata.iterations).toEqual(2)
+    expect(metadata.meanStepsHistory).toEqual([60, 5])
+    expect(metadata.diagnosticsHistory).toEqual([
+      {
+        iteration: 1,
+        episodeLengths: {
+          mean: 60,
+          median: 60,
+          min: 10,
+          max: 110,
+          p10: 20,
+          p90: 100,
+        },
+        update: UPDATE,
+      },
+      {
+        iteration: 2,
+        episodeLengths: { mean: 5, median: 5, min: 5, max: 5, p10: 5, p90: 5 },
+      },
+    ])
+  })
+
+  it('starts the diagnostics of metadata saved without them', () => {
+    const metadata: TrainingMetadata = {
+      hyperparameters: createMetadata().hyperparameters,
+      iterations: 3,
+      meanStepsHistory: [10, 20, 30],
+    }
+    recordTrainingIteration(metadata, [40])
+    expect(metadata.meanStepsHistory).toEqual([10, 20, 30, 40])
+    expect(getDiagnostics(metadata).map((d) => d.iteration)).toEqual([4])
+  })
+})
+
+describe('formatDiagnosticsAsCSV', () => {
+  it('formats a row per iteration under the header', () => {
+    const metadata = createMetadata()
+    recordTrainingIteration(metadata, GAME_STEPS, UPDATE)
+    expect(formatDiagnosticsAsCSV(getDiagnostics(metadata))).toEqual(
+      'iteration,episodeLength_mean,episodeLength_median,' +
+        'episodeLength_min,episodeLength_max,episodeLength_p10,' +
+        'episodeLength_p90,entropy,loss,gradientNorm,returnMean,returnStd,' +
+        'weightNorm_dense_1,weightNorm_dense_2\n' +
+        '1,60,60,10,110,20,100,0.5,-1.25,2,10,3,4,1.5'
+    )
+  })
+
+  it('leaves the values that an iteration lacks empty', () => {
+    const metadata = createMetadata()
+    recordTrainingIteration(metadata, GAME_STEPS, UPDATE)
+    recordTrainingIteration(metadata, [5])
+    recordTrainingIteration(metadata, [5], {
+      ...UPDATE,
+      weightNorms: { dense_1: 3.5, dense_3: 0.25 },
+    })
+    const lines = formatDiagnosticsAsCSV(getDiagnostics(metadata)).split('\n')
+    // The layers of all the iterations, in the order they first appear.
+    expect(lines[0]).toMatch(
+      /,weightNorm_dense_1,weightNorm_dense_2,weightNorm_dense_3$/
+    )
+    expect(lines.slice(1)).toEqual([
+      '1,60,60,10,110,20,100,0.5,-1.25,2,10,3,4,1.5,',
+      '2,5,5,5,5,5,5,,,,,,,,',
+      '3,5,5,5,5,5,5,0.5,-1.25,2,10,3,3.5,,0.25',
+    ])
+  })
+
+  it('formats only the header without iterations', () => {
+    expect(formatDiagnosticsAsCSV([])).toEqual(
+      'iteration,episodeLength_mean,episodeLength_median,' +
+        'episodeLength_min,episodeLength_max,episodeLength_p10,' +
+        'episodeLength_p90,entropy,loss,gradientNorm,returnMean,returnStd'
+    )
+  })
+})
@@ -0,0 +1,615 @@
+/**
+ * @license
+ * Copyright 2018 Google LLC. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ * =============================================================================
+ */
+
+/**
+ * Headless (Node.js) training of the cart-pole policy network.
+ *
+ * Usage:
+ *
+ *   yarn train --iterations 100 --savePath ./models/cart-pole
+ */
+
+import * as fs from 'fs'
+import { join } from 'path'
+
+import * as argparse from 'argparse'
+import * as tf from '@tensorflow/tfjs-node'
+
+import { parseCartPoleConfig } from './cart_pole'
+import {
+  ENVIRONMENT_NAMES,
+  createEnv,
+  createVectorEnv,
+  getObservationNames,
+  parseEnvironmentName,
+} from './environments'
+import {
+  TrainerConfig,
+  createTrainer,
+  getAlgorithmHyperparameters,
+  getValueNetwork,
+  getValueOptimizer,
+  loadValueOptimizer,
+  parseTrainingAlgorithm,
+} from './saveablePolicyNetwork/algorithms'
+import {
+  BehaviorCloningConfig,
+  PretrainingRecord,
+  parseDemonstrationDataset,
+  pretrainFromDemonstrations,
+} from './saveablePolicyNetwork/demonstrations'
+import { getSpaceSize } from './saveablePolicyNetwork/env'
+import {
+  createOptimizer,
+  loadOptimizerState,
+  saveOptimizerState,
+} from './saveablePolicyNetwork/optimizerState'
+import {
+  LEARNING_RATE_SCHEDULE_TYPES,
+  LearningRateSchedule,
+  OPTIMIZER_NAMES,
+  OptimizerConfig,
+  checkLearningRateSchedule,
+  checkOptimizerConfig,
+  getScheduledLearningRate,
+  parseOptimizerName,
+} from './saveablePolicyNetwork/optimizers'
+import {
+  PolicyNetwork,
+  getPolicyHead,
+  getPolicyOutputSize,
+} from './saveablePolicyNetwork/policyNetwork'
+import { PPOTrainer } from './saveablePolicyNetwork/ppo'
+import {
+  REWARD_TERM_NAMES,
+  RewardShapingConfig,
+  checkRewardShapingConfig,
+  shapeRewards,
+} from './saveablePolicyNetwork/rewardShaping'
+import {
+  ModelMetadata,
+  getModelMetadata,
+} from './saveablePolicyNetwork/storage'
+import {
+  TrainingMetadata,
+  createTrainingMetadata,
+  formatDiagnosticsAsCSV,
+  parseTrainingMetadata,
+  recordTrainingIteration,
+} from './saveablePolicyNetwork/trainingMetadata'
+import { mean, parseHiddenLayerSizes, seedRandom, sum } from './utils'
+
+export function parseArguments() {
+  const parser = new argparse.ArgumentParser({
+    description: 'Training script for the cart-pole policy network',
+  })
+  parser.addArgument('--iterations', {
+    type: 'int',
+    defaultValue: 20,
+    help: 'Number of training iterations.',
+  })
+  parser.addArgument('--gamesPerIteration', {
+    type: 'int',
+    defaultValue: 20,
+    help: 'Number of games to play for each model parameter update.',
+  })
+  parser.addArgument('--seed', {
+    type: 'int',
+    help:
+      'Seed of the random numbers of the experiment: the initial states of ' +
+      'the cart-poles, the sampling of actions and the initialization of ' +
+      'the weights. Runs with the same seed and settings reproduce the same ' +
+      'learning curve. Unseeded if omitted.',
+  })
+  parser.addArgument('--parallelGames', {
+    type: 'int',
+    defaultValue: 16,
+    help:
+      'Number of games to play side by side, sharing a single prediction ' +
+      'of the policy network per step. 1 plays games one at a time.',
+  })
+  parser.addArgument('--discountRate', {
+    type: 'float',
+    defaultValue: 0.95,
+    help: 'Reward discount rate: a number between 0 and 1.',
+  })
+  parser.addArgument('--learningRate', {
+    type: 'float',
+    defaultValue: 0.05,
+    help:
+      'Learning rate of the optimizer: the initial one, with ' +
+      '--learningRateSchedule.',
+  })
+  parser.addArgument('--optimizer', {
+    type: 'string',
+    defaultValue: 'adam',
+    choices: OPTIMIZER_NAMES,
+    help: 'The optimizer of the policy network.',
+  })
+  parser.addArgument('--momentum', {
+    type: 'float',
+    defaultValue: 0.9,
+    help: 'Momentum of the optimizer (sgd-momentum only).',
+  })
+  parser.addArgument('--learningRateSchedule', {
+    type: 'string',
+    defaultValue: 'constant',
+    choices: LEARNING_RATE_SCHEDULE_TYPES,
+    help:
+      'How the learning rate changes at every iteration, counting the ' +
+      'iterations of earlier runs with --resume.',
+  })
+  parser.addArgument('--learningRateDecayRate', {
+    type: 'float',
+    defaultValue: 0.5,
+    help:
+      'The learning rate is multiplied by this every ' +
+      '--learningRateDecayIterations iterations (step and exponential ' +
+      'schedules only).',
+  })
+  parser.addArgument('--learningRateDecayIterations', {
+    type: 'int',
+    defaultValue: 50,
+    help:
+      'Number of iterations per decay of the learning rate, or over which ' +
+      'the cosine schedule anneals it.',
+  })
+  parser.addArgument('--minLearningRate', {
+    type: 'float',
+    defaultValue: 0,
+    help: 'The final learning rate of the cosine schedule.',
+  })
+  parser.addArgument('--entropyCoefficient', {
+    type: 'float',
+    defaultValue: 0,
+    help:
+      'Weight of the entropy bonus subtracted from the loss (reinforce ' +
+      'only).',
+  })
+  parser.addArgument('--gradientClipNorm', {
+    type: 'float',
+    help:
+      'The gradients are scaled down so that their global norm is at most ' +
+      'this (reinforce only). Unclipped if omitted.',
+  })
+  parser.addArgument('--gradientClipValue', {
+    type: 'float',
+    help:
+      'Every value of the gradients is clipped to [-gradientClipValue, ' +
+      'gradientClipValue] (reinforce only). Unclipped if omitted.',
+  })
+  parser.addArgument('--algorithm', {
+    type: 'string',
+    defaultValue: 'reinforce',
+    choices: ['reinforce', 'actor-critic', 'ppo'],
+    help: 'Training algorithm.',
+  })
+  parser.addArgument('--criticLearningRate', {
+    type: 'float',
+    defaultValue: 0.01,
+    help: 'Learning rate of the value network (actor-critic and ppo only).',
+  })
+  parser.addArgument('--gaeLambda', {
+    type: 'float',
+    defaultValue: 0.95,
+    help:
+      'Lambda of generalized advantage estimation, between 0 and 1 ' +
+      '(actor-critic and ppo only).',
+  })
+  parser.addArgument('--clipRatio', {
+    type: 'float',
+    defaultValue: 0.2,
+    help:
+      'The probability ratio between the new and the old policy is ' +
+      'clipped to [1 - clipRatio, 1 + clipRatio] (ppo only).',
+  })
+  parser.addArgument('--epochs', {
+    type: 'int',
+    defaultValue: 4,
+    help: 'Number of passes over the rollouts per iteration (ppo only).',
+  })
+  parser.addArgument('--minibatchSize', {
+    type: 'int',
+    defaultValue: 64,
+    help: 'Number of steps per minibatch update (ppo only).',
+  })
+  parser.addArgument('--environment', {
+    type: 'string',
+    defaultValue: 'cart-pole',
+    choices: ENVIRONMENT_NAMES,
+    help: 'The system to train the policy network on.',
+  })
+  parser.addArgument('--physics', {
+    type: 'string',
+    defaultValue: '{}',
+    help:
+      'Physics of the cart-pole as a JSON object with any of the fields of ' +
+      'CartPoleConfig, e.g., \'{"integrator": "rk4", "length": 1}\'. ' +
+      'The other fields keep their default values. Cart-pole only.',
+  })
+  parser.addArgument('--rewardShaping', {
+    type: 'string',
+    defaultValue: '{"terms": []}',
+    help:
+      'Terms added to the rewards of the environment as a JSON object, e.g., ' +
+      '\'{"terms": [{"name": "center", "weight": 0.1}]}\'. ' +
+      `The terms are ${REWARD_TERM_NAMES.join(', ')}, see ` +
+      'saveablePolicyNetwork/rewardShaping.ts.',
+  })
+  parser.addArgument('--maxStepsPerGame', {
+    type: 'int',
+    defaultValue: 500,
+    help: 'Maximum number of steps to perform during a game.',
+  })
+  parser.addArgument('--hiddenLayerSizes', {
+    type: 'string',
+    defaultValue: '128',
+    help: 'Size(s) of the hidden layer(s), e.g., "128" or "32,64".',
+  })
+  parser.addArgument('--demonstrations', {
+    type: 'string',
+    help:
+      'Path of a demonstrations file saved by the browser page. The policy ' +
+      'network is pretrained on it by behavior cloning before the ' +
+      'reinforcement learning.',
+  })
+  parser.addArgument('--pretrainEpochs', {
+    type: 'int',
+    defaultValue: 20,
+    help: 'Number of passes over the demonstrations (with --demonstrations).',
+  })
+  parser.addArgument('--pretrainBatchSize', {
+    type: 'int',
+    defaultValue: 64,
+    help: 'Number of steps per pretraining update (with --demonstrations).',
+  })
+  parser.addArgument('--pretrainLearningRate', {
+    type: 'float',
+    defaultValue: 0.01,
+    help: 'Learning rate of the pretraining (with --demonstrations).',
+  })
+  parser.addArgument('--savePath', {
+    type: 'string',
+    defaultValue: './models/cart-pole',
+    help:
+      'Directory to which the policy network will be saved at the end ' +
+      'of every iteration, along with its training metadata, the ' +
+      'state of the optimizer, and the value network and the state of its ' +
+      'optimizer (actor-critic and ppo).',
+  })
+  parser.addArgument('--resume', {
+    action: 'storeTrue',
+    help:
+      'Continue training the policy network saved at --savePath, ' +
+      'including the state of its optimizer, and its value network and ' +
+      'the state of the optimizer of the value network, ' +
+      'instead of creating a new one. ' +
+      '--hiddenLayerSizes is ignored in this case.',
+  })
+  return parser.parseArgs()
+}
+
+async function main() {
+  const args = parseArguments()
+  console.log(`args: ${JSON.stringify(args, null, 2)}`)
+
+  if (!(args.iterations > 0)) {
+    throw new Error(`Invalid number of iterations: ${args.iterations}`)
+  }
+  if (!(args.gamesPerIteration > 0)) {
+    throw new Error(
+      `Invalid # of games per iterations: ${args.gamesPerIteration}`
+    )
+  }
+  if (!(args.maxStepsPerGame > 1)) {
+    throw new Error(`Invalid max. steps per game: ${args.maxStepsPerGame}`)
+  }
+  if (!(args.discountRate > 0 && args.discountRate < 1)) {
+    throw new Error(`Invalid discount rate: ${args.discountRate}`)
+  }
+
+  const modelURL = `file://${args.savePath}`
+  const optimizerURL = `file://${join(args.savePath, 'optimizer')}`
+  const valueNetPath = join(args.savePath, 'value-network')
+  const valueOptimizerPath = join(args.savePath, 'value-optimizer')
+  const metadataPath = join(args.savePath, 'model.metadata.json')
+  const diagnosticsPath = join(args.savePath, 'diagnostics.csv')
+  const algorithm = parseTrainingAlgorithm(args.algorithm)
+  const environment = parseEnvironmentName(args.environment)
+  const physics = parseCartPoleConfig(JSON.parse(args.physics))
+  const rewardShaping: RewardShapingConfig = JSON.parse(args.rewardShaping)
+  checkRewardShapingConfig(rewardShaping)
+  const seed: number | null = args.seed != null ? args.seed : null
+  const optimizerConfig: OptimizerConfig =
+    args.optimizer === 'sgd-momentum'
+      ? { name: args.optimizer, momentum: args.momentum }
+      : { name: parseOptimizerName(args.optimizer) }
+  checkOptimizerConfig(optimizerConfig)
+  const learningRateSchedule: LearningRateSchedule = {
+    type: args.learningRateSchedule,
+    decayRate: args.learningRateDecayRate,
+    decayIterations: args.learningRateDecayIterations,
+    minLearningRate: args.minLearningRate,
+  }
+  checkLearningRateSchedule(args.learningRate, learningRateSchedule)
+  // Seed before anything random happens, including the construction of the
+  // cart-poles.
+  seedRandom(seed)
+
+  const env = shapeRewards(
+    args.parallelGames > 1
+      ? createVectorEnv(
+          environment,
+          args.parallelGames,
+          physics,
+          args.maxStepsPerGame
+        )
+      : createEnv(environment, physics, args.maxStepsPerGame),
+    rewardShaping,
+    getObservationNames(environment)
+  )
+  const inputSize = getSpaceSize(env.observationSpace)
+  const head = getPolicyHead(env.actionSpace)
+  let optimizer = await createOptimizer(
+    optimizerConfig,
+    args.learningRate,
+    null
+  )
+  let optimizerLearningRate = args.learningRate
+  let policyNet: PolicyNetwork
+  let hiddenLayerSizes: number[]
+  let trainingMetadata: TrainingMetadata
+  let pretraining: PretrainingRecord | undefined
+  let valueNet: tf.LayersModel | null = null
+  let valueOptimizer: tf.Optimizer | null = null
+  if (args.resume) {
+    const layersModel = await tf.loadLayersModel(`${modelURL}/model.json`)
+    const savedMetadata = getModelMetadata(layersModel)
+    policyNet = new PolicyNetwork({
+      layersModel,
+      head: savedMetadata.policyHead,
+    })
+    pretraining = savedMetadata.pretraining
+    const savedInputSize = policyNet.policyNet.inputs[0].shape[1]
+    if (savedInputSize !== inputSize) {
+      throw new Error(
+        `The saved policy network takes ${savedInputSize} inputs, but the ` +
+          `${environment} environment has observations of size ${inputSize}.`
+      )
+    }
+    if (policyNet.head !== head) {
+      throw new Error(
+        `The saved policy network has a ${policyNet.head} head, but the ` +
+          `actions of the ${environment} environment need a ${head} head.`
+      )
+    }
+    // All but the output layer are hidden layers.
+    hiddenLayerSizes = policyNet.policyNet.layers
+      .slice(0, -1)
+      .map((layer) => layer.getConfig().units as number)
+    trainingMetadata = parseTrainingMetadata(
+      JSON.parse(fs.readFileSync(metadataPath, { encoding: 'utf-8' }))
+    )
+    await loadOptimizerState(optimizer, `${optimizerURL}/model.json`)
+    if (fs.existsSync(join(valueNetPath, 'model.json'))) {
+      valueNet = await tf.loadLayersModel(
+        `file://${join(valueNetPath, 'model.json')}`
+      )
+      if (fs.existsSync(join(valueOptimizerPath, 'model.json'))) {
+        valueOptimizer = await loadValueOptimizer(
+          `file://${join(valueOptimizerPath, 'model.json')}`
+        )
+      }
+    }
+    console.log(
+      `Resuming training after ${trainingMetadata.iterations} iteration(s)`
+    )
+  } else {
+    hiddenLayerSizes = parseHiddenLayerSizes(args.hiddenLayerSizes)
+    policyNet = new PolicyNetwork({
+      sizes: {
+        hiddenLayerSizes,
+        inputSize,
+        outputSize: getPolicyOutputSize(env.actionSpace),
+      },
+      head,
+    })
+    trainingMetadata = createTrainingMetadata({
+      discountRate: args.discountRate,
+      learningRate: args.learningRate,
+      gamesPerIteration: args.gamesPerIteration,
+    })
+  }
+
+  if (args.demonstrations != null) {
+    const dataset = parseDemonstrationDataset(
+      JSON.parse(fs.readFileSync(args.demonstrations, { encoding: 'utf-8' }))
+    )
+    const config: BehaviorCloningConfig = {
+      epochs: args.pretrainEpochs,
+      batchSize: args.pretrainBatchSize,
+      learningRate: args.pretrainLearningRate,
+    }
+    const losses = await pretrainFromDemonstrations(
+      policyNet,
+      dataset,
+      config,
+      (epoch, totalEpochs, loss) =>
+        console.log(
+          `Pretraining epoch ${epoch} of ${totalEpochs}: loss=${loss.toFixed(
+            4
+          )}`
+        )
+    )
+    pretraining = {
+      ...config,
+      demonstrationSteps: dataset.actions.length,
+      demonstrationEpisodes: dataset.episodeSteps.length,
+      finalLoss: losses[losses.length - 1],
+    }
+  }
+
+  // The value network of the actor-critic and PPO has the same architecture
+  // as the policy network.
+  const trainerConfig: TrainerConfig = {
+    algorithm,
+    criticHiddenLayerSizes: hiddenLayerSizes,
+    criticLearningRate: args.criticLearningRate,
+    gaeLambda: args.gaeLambda,
+    clipRatio: args.clipRatio,
+    epochs: args.epochs,
+    minibatchSize: args.minibatchSize,
+    policyGradient: {
+      entropyCoefficient: args.entropyCoefficient,
+      gradientClipNorm:
+        args.gradientClipNorm != null ? args.gradientClipNorm : null,
+      gradientClipValue:
+        args.gradientClipValue != null ? args.gradientClipValue : null,
+    },
+  }
+  const trainer = await createTrainer(
+    policyNet,
+    trainerConfig,
+    valueNet,
+    valueOptimizer
+  )
+  trainingMetadata.hyperparameters = {
+    discountRate: args.discountRate,
+    learningRate: args.learningRate,
+    gamesPerIteration: args.gamesPerIteration,
+    environment,
+    optimizer: optimizerConfig,
+    ...getAlgorithmHyperparameters(trainerConfig),
+  }
+  if (learningRateSchedule.type !== 'constant') {
+    trainingMetadata.hyperparameters.learningRateSchedule = learningRateSchedule
+  }
+  if (environment === 'cart-pole') {
+    trainingMetadata.hyperparameters.physics = physics
+  }
+  if (rewardShaping.terms.length > 0) {
+    trainingMetadata.hyperparameters.rewardShaping = rewardShaping
+  }
+  if (seed !== null) {
+    trainingMetadata.hyperparameters.seed = seed
+  }
+
+  if (!fs.existsSync(args.savePath)) {
+    fs.mkdirSync(args.savePath, { recursive: true })
+  } else if (!args.resume) {
+    // Do not leave the value network of an overwritten model, or the state
+    // of its optimizer, behind.
+    for (const path of [valueNetPath, valueOptimizerPath]) {
+      if (fs.existsSync(path)) {
+        fs.rmdirSync(path, { recursive: true })
+      }
+    }
+  }
+
+  for (let i = 0; i < args.iterations; ++i) {
+    // The new optimizer takes over the state of the previous one.
+    const learningRate = getScheduledLearningRate(
+      args.learningRate,
+      learningRateSchedule,
+      trainingMetadata.iterations
+    )
+    if (learningRate !== optimizerLearningRate) {
+      optimizer = await createOptimizer(
+        optimizerConfig,
+        learningRate,
+        optimizer
+      )
+      optimizerLearningRate = learningRate
+    }
+    const t0 = new Date().getTime()
+    const gameSteps = await trainer.train(
+      env,
+      optimizer,
+      args.discountRate,
+      args.gamesPerIteration,
+      // There is nothing to render in Node.js.
+      async () => {},
+      () => {}
+    )
+    const t1 = new Date().getTime()
+    const stepsPerSecond = sum(gameSteps) / ((t1 - t0) / 1e3)
+    console.log(
+      `Iteration ${i + 1} of ${args.iterations} ` +
+        `(#${trainingMetadata.iterations + 1} overall): ` +
+        `meanSteps=${mean(gameSteps).toFixed(1)} ` +
+        `learningRate=${learningRate.toPrecision(3)} ` +
+        `(${stepsPerSecond.toFixed(1)} steps/s)`
+    )
+    if (trainer instanceof PPOTrainer && trainer.lastIterationStats) {
+      const stats = trainer.lastIterationStats
+      console.log(
+        `  approxKL=${stats.approxKL.toFixed(4)} ` +
+          `clipFraction=${stats.clipFraction.toFixed(3)} ` +
+          `policyLoss=${stats.policyLoss.toFixed(4)} ` +
+          `valueLoss=${stats.valueLoss.toFixed(4)} ` +
+          `entropy=${stats.entropy.toFixed(4)}`
+      )
+    }
+    const update =
+      trainer instanceof PolicyNetwork ? trainer.lastIterationStats : null
+    if (update !== null) {
+      console.log(
+        `  entropy=${update.entropy.toFixed(4)} ` +
+          `loss=${update.loss.toFixed(4)} ` +
+          `gradientNorm=${update.gradientNorm.toFixed(4)} ` +
+          `returnMean=${update.returnMean.toFixed(2)} ` +
+          `returnStd=${update.returnStd.toFixed(2)}`
+      )
+    }
+    recordTrainingIteration(trainingMetadata, gameSteps, update)
+    // The head is saved inside the model, as by the browser page.
+    const modelMetadata: ModelMetadata = {
+      agent: 'policy-network',
+      policyHead: policyNet.head,
+    }
+    if (pretraining !== undefined) {
+      modelMetadata.pretraining = pretraining
+    }
+    policyNet.policyNet.setUserDefinedMetadata(modelMetadata)
+    await policyNet.policyNet.save(modelURL)
+    await saveOptimizerState(optimizer, optimizerURL)
+    const trainerValueNet = getValueNetwork(trainer)
+    const trainerValueOptimizer = getValueOptimizer(trainer)
+    if (trainerValueNet !== null && trainerValueOptimizer !== null) {
+      await trainerValueNet.save(`file://${valueNetPath}`)
+      await saveOptimizerState(
+        trainerValueOptimizer,
+        `file://${valueOptimizerPath}`
+      )
+    }
+    // The sidecar file that allows the browser page to show how the model
+    // was trained after importing it.
+    fs.writeFileSync(metadataPath, JSON.stringify(trainingMetadata, null, 2))
+    fs.writeFileSync(
+      diagnosticsPath,
+      formatDiagnosticsAsCSV(trainingMetadata.diagnosticsHistory || [])
+    )
+  }
+  console.log(`Saved policy network to ${args.savePath}`)
+}
+
+if (require.main === module) {
+  main().catch((err) => {
+    console.error(err.message)
+    process.exit(1)
+  })
+}
@@ -0,0 +1,200 @@
+/**
+ * @license
+ * Copyright 2018 Google LLC. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ * =============================================================================
+ */
+
+import * as tf from '@tensorflow/tfjs'
+
+import { CartPoleConfig } from './cart_pole'
+import { EnvironmentName } from './environments'
+import { SaveableAgent, SaveableQNetwork } from './saveablePolicyNetwork'
+import { TrainerConfig } from './saveablePolicyNetwork/algorithms'
+import {
+  LearningRateSchedule,
+  OptimizerConfig,
+} from './saveablePolicyNetwork/optimizers'
+import { RewardShapingConfig } from './saveablePolicyNetwork/rewardShaping'
+import {
+  TrainingHyperparameters,
+  TrainingMetadata,
+} from './saveablePolicyNetwork/trainingMetadata'
+
+/**
+ * The settings of a round of training in the training worker (see
+ * `trainingWorker.ts`).
+ *
+ * The rounds of a run of training share the model name, the environment, the
+ * physics, the reward shaping, the maximum number of steps per game, the
+ * number of parallel games, the seed and the trainer configuration, see
+ * `getTrainingRunKey()`.
+ */
+export interface TrainingSettings {
+  // The name of the agent in IndexedDB. The worker loads the agent from
+  // there, and saves it there at the end of every iteration.
+  modelName: string
+  environment: EnvironmentName
+  physics: CartPoleConfig
+  rewardShaping: RewardShapingConfig
+  maxStepsPerGame: number
+  parallelGames: number
+  discountRate: number
+  // The initial learning rate, which changes at every iteration according to
+  // `learningRateSchedule`.
+  learningRate: number
+  learningRateSchedule: LearningRateSchedule
+  optimizer: OptimizerConfig
+  gamesPerIteration: number
+  iterations: number
+  // The seed passed to `seedRandom()`, if any.
+  seed: number | null
+  // The trainer of a policy network. A Q-network is trained with the DQN
+  // configuration saved along with it, so this is `null` for a Q-network.
+  trainerConfig: TrainerConfig | null
+  // Whether the worker sends snapshots of the state for rendering.
+  render: boolean
+  // The hyperparameters recorded in the training metadata of the agent.
+  hyperparameters: TrainingHyperparameters
+}
+
+/**
+ * Get what the settings of the rounds of a run of training have in common.
+ *
+ * @param {TrainingSettings} settings
+ * @returns A string that is the same for the settings of all the rounds of a
+ *   run of training.
+ */
+export function getTrainingRunKey(settings: TrainingSettings) {
+  const {
+    modelName,
+    environment,
+    physics,
+    rewardShaping,
+    maxStepsPerGame,
+    parallelGames,
+    seed,
+    trainerConfig,
+  } = settings
+  return JSON.stringify({
+    modelName,
+    environment,
+    physics,
+    rewardShaping,
+    maxStepsPerGame,
+    parallelGames,
+    seed,
+    trainerConfig,
+  })
+}
+
+/**
+ * The commands that the page sends to the training worker.
+ *
+ *   - 'start': Starts a round of training, in the run of training of the
+ *     worker if it has one, or else in a new one.
+ *   - 'pause', 'resume': Pause the training after the current step, and
+ *     resume it.
+ *   - 'stop': Stops the training after the current step, and ends the run of
+ *     training. The iteration in progress is discarded.
+ *   - 'render': Turns the snapshots of the state on or off.
+ */
+export type TrainingCommand =
+  | { type: 'start'; settings: TrainingSettings }
+  | { type: 'pause' }
+  | { type: 'resume' }
+  | { type: 'stop' }
+  | { type: 'render'; render: boolean }
+
+/**
+ * The weights of a layer of a model, in a form that can be posted between
+ * threads.
+ */
+export interface WeightSnapshot {
+  shape: number[]
+  data: Float32Array
+}
+
+/**
+ * The end of a training iteration, after the agent has been saved.
+ */
+export interface IterationEvent {
+  type: 'iteration'
+  iterationCount: number
+  totalIterations: number
+  // The number of steps of every game of the iteration.
+  gameSteps: number[]
+  stepsPerSecond: number
+  // Statistics of the trainer, e.g., the epsilon of DQN, by name.
+  stats: { [name: string]: number }
+  metadata: TrainingMetadata
+  // The weights of the trained model, see `getAgentModel()`.
+  weights: WeightSnapshot[]
+}
+
+/**
+ * The events that the training worker posts to the page.
+ *
+ *   - 'game': The progress of the current iteration.
+ *   - 'snapshot': A snapshot of the state of the game being played, see
+ *     `RenderableSystem.getSnapshot()`. Snapshots are posted at most every
+ *     few tens of milliseconds.
+ *   - 'iteration': See `IterationEvent`.
+ *   - 'done': The end of a round of training. The worker keeps the run of
+ *     training for the next round.
+ *   - 'stopped', 'error': The end of the run of training.
+ */
+export type TrainingEvent =
+  | { type: 'game'; gameCount: number; totalGames: number }
+  | { type: 'snapshot'; snapshot: number[] }
+  | IterationEvent
+  | { type: 'done' }
+  | { type: 'stopped' }
+  | { type: 'error'; message: string }
+
+/**
+ * Get the model of an agent that chooses its actions: the policy network, or
+ * the online network of a Q-network.
+ *
+ * @param {SaveableAgent} agent
+ */
+export function getAgentModel(agent: SaveableAgent) {
+  return agent instanceof SaveableQNetwork ? agent.onlineNet : agent.policyNet
+}
+
+/**
+ * Get copies of the weights of a model.
+ *
+ * @param {tf.LayersModel} model
+ */
+export function getWeightSnapshots(model: tf.LayersModel): WeightSnapshot[] {
+  return model.getWeights().map((weight) => ({
+    shape: weight.shape,
+    data: Float32Array.from(weight.dataSync()),
+  }))
+}
+
+/**
+ * Set the weights of a model from copies of `getWeightSnapshots()`.
+ *
+ * @param {tf.LayersModel} model
+ * @param {WeightSnapshot[]} weights
+ */
+export function setWeightSnapshots(
+  model: tf.LayersModel,
+  weights: WeightSnapshot[]
+) {
+  tf.tidy(() =>
+    model.setWeights(weights.map(({ shape, data }) => tf.tensor(data, shape)))
+  )
+}
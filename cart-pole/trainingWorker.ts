@@ -0,0 +1,385 @@
+/**
+ * @license
+ * Copyright 2018 Google LLC. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ * =============================================================================
+ */
+
+/**
+ * The worker that trains an agent for the page, so that the training does
+ * not block the page.
+ *
+ * The page saves the agent to IndexedDB and sends a 'start' command with the
+ * settings of a round of training (see `trainingMessages.ts`). The worker
+ * trains the agent, and saves it back at the end of every iteration. It
+ * reports the progress of the training, the weights of the agent after every
+ * iteration, and snapshots of the state for rendering.
+ *
+ * The rounds of training that the page starts in the same worker make up a
+ * run. The first round loads the agent from IndexedDB, seeds the random
+ * numbers, and creates the environment and the trainer; the later rounds go
+ * on with them, so that the state that the trainer keeps besides the agent,
+ * e.g., the optimizer of the value network of the actor-critic and PPO, or
+ * the replay memory of DQN, is not lost between rounds. Stopping the
+ * training, or a failure, ends the run.
+ */
+
+import { createEnv, createVectorEnv, getObservationNames } from './environments'
+import {
+  SaveableAgent,
+  SaveableQNetwork,
+  loadAgent,
+} from './saveablePolicyNetwork'
+import {
+  createTrainer,
+  disposeTrainer,
+  getValueNetwork,
+  getValueOptimizer,
+} from './saveablePolicyNetwork/algorithms'
+import { Env, VectorEnv } from './saveablePolicyNetwork/env'
+import { getScheduledLearningRate } from './saveablePolicyNetwork/optimizers'
+import { PolicyNetwork } from './saveablePolicyNetwork/policyNetwork'
+import { PPOTrainer } from './saveablePolicyNetwork/ppo'
+import { shapeRewards } from './saveablePolicyNetwork/rewardShaping'
+import { SystemEnv } from './saveablePolicyNetwork/systemEnv'
+import { Trainer } from './saveablePolicyNetwork/trainer'
+import {
+  TrainingMetadata,
+  recordTrainingIteration,
+} from './saveablePolicyNetwork/trainingMetadata'
+import {
+  TrainingCommand,
+  TrainingEvent,
+  TrainingSettings,
+  getAgentModel,
+  getWeightSnapshots,
+} from './trainingMessages'
+import { seedRandom, sum } from './utils'
+
+/**
+ * The part of the global scope of the worker that it uses. The compiler only
+ * knows the libraries of the page, in which `self` is a window.
+ */
+interface TrainingWorkerScope {
+  postMessage(event: TrainingEvent): void
+  addEventListener(
+    type: 'message',
+    listener: (event: MessageEvent) => void
+  ): void
+}
+
+const ctx = self as unknown as TrainingWorkerScope
+
+// The longest time, in milliseconds, that the worker trains without handling
+// the commands of the page.
+const COMMAND_INTERVAL_MS = 50
+// The shortest time, in milliseconds, between two snapshots of the state.
+const SNAPSHOT_INTERVAL_MS = 30
+
+let render = true
+let paused = false
+let stopRequested = false
+// Resolves the wait of a paused training.
+let resume: (() => void) | null = null
+let lastCommandTime = 0
+let lastSnapshotTime = 0
+
+/**
+ * What the worker keeps from one round of training to the next, for as long
+ * as the page goes on with the same run of training.
+ */
+interface TrainingRun {
+  // The agent, as trained by the previous rounds.
+  agent: SaveableAgent
+  env: Env | VectorEnv
+  // Gets a snapshot of the state of the game being played, for rendering.
+  getSnapshot: () => number[]
+  // The agent itself for DQN. The value network and the state of its
+  // optimizer, if any, last for the whole run.
+  trainer: Trainer
+}
+
+// The run of training, from the first round of training until the training
+// is stopped or fails.
+let run: TrainingRun | null = null
+
+/**
+ * Post an event to the page.
+ *
+ * @param {TrainingEvent} event
+ */
+function post(event: TrainingEvent) {
+  ctx.postMessage(event)
+}
+
+/**
+ * Handle the commands that the page has sent since the last call, waiting
+ * while the training is paused.
+ *
+ * @throws {Error} If the training has to stop.
+ */
+async function handleCommands() {
+  const now = new Date().getTime()
+  if (now - lastCommandTime >= COMMAND_INTERVAL_MS) {
+    await new Promise((resolve) => setTimeout(resolve, 0))
+    lastCommandTime = new Date().getTime()
+  }
+  while (paused && !stopRequested) {
+    await new Promise<void>((resolve) => (resume = resolve))
+  }
+  if (stopRequested) {
+    throw new Error('Training stopped.')
+  }
+}
+
+/**
+ * Wake up a paused training, to resume or to stop.
+ */
+function wake() {
+  if (resume !== null) {
+    resume()
+    resume = null
+  }
+}
+
+/**
+ * Get the statistics of the last iteration of a trainer, by name.
+ *
+ * @param {Trainer} trainer
+ */
+function getTrainerStats(trainer: Trainer): { [name: string]: number } {
+  if (trainer instanceof PPOTrainer && trainer.lastIterationStats) {
+    const { approxKL, clipFraction } = trainer.lastIterationStats
+    return { 'approx. KL': approxKL, 'clip fraction': clipFraction }
+  } else if (trainer instanceof SaveableQNetwork) {
+    return { epsilon: trainer.getEpsilon() }
+  }
+  return {}
+}
+
+/**
+ * Start a run of training: load an agent stored in IndexedDB, and set up the
+ * environment and the trainer of all the rounds of training of the run.
+ *
+ * @param {TrainingSettings} settings The settings of the first round.
+ * @throws {Error} If the settings do not fit the agent.
+ */
+async function startRun(settings: TrainingSettings): Promise<TrainingRun> {
+  const {
+    modelName,
+    environment,
+    physics,
+    rewardShaping,
+    maxStepsPerGame,
+    parallelGames,
+    seed,
+    trainerConfig,
+  } = settings
+  const agent = await loadAgent(modelName)
+  try {
+    if (agent.trainingMetadata === null) {
+      throw new Error(`The model '${modelName}' has no training metadata.`)
+    }
+    // Seeded once per run, so that the rounds of the run go on with the
+    // random numbers where the previous round stopped.
+    seedRandom(seed)
+    // Games played in parallel share a single prediction of the policy
+    // network per step. DQN always plays one game at a time.
+    const systemEnv =
+      parallelGames > 1 && !(agent instanceof SaveableQNetwork)
+        ? createVectorEnv(environment, parallelGames, physics, maxStepsPerGame)
+        : createEnv(environment, physics, maxStepsPerGame)
+    const getSnapshot = () =>
+      systemEnv instanceof SystemEnv
+        ? systemEnv.system.getSnapshot()
+        : systemEnv.batchSystem.getSnapshot()
+    const env = shapeRewards(
+      systemEnv,
+      rewardShaping,
+      getObservationNames(environment)
+    )
+    let trainer: Trainer
+    if (agent instanceof SaveableQNetwork) {
+      trainer = agent
+    } else {
+      if (trainerConfig === null) {
+        throw new Error('A policy network needs a trainer configuration.')
+      }
+      trainer = await createTrainer(
+        agent,
+        trainerConfig,
+        agent.valueNet,
+        agent.valueOptimizer
+      )
+      const valueOptimizer = getValueOptimizer(trainer)
+      if (valueOptimizer !== null) {
+        // The trainer has taken over the state of the optimizer of the agent.
+        agent.valueOptimizer = valueOptimizer
+      }
+    }
+    return { agent, env, getSnapshot, trainer }
+  } catch (err) {
+    agent.dispose()
+    throw err
+  }
+}
+
+/**
+ * End the run of training, if any, and dispose the agent and the trainer.
+ */
+function endRun() {
+  if (run === null) {
+    return
+  }
+  const { agent, trainer } = run
+  if (trainer !== agent) {
+    disposeTrainer(trainer)
+    // The trainer has disposed the value network and its optimizer, which it
+    // shares with the agent.
+    if (!(agent instanceof SaveableQNetwork)) {
+      agent.valueNet = null
+      agent.valueOptimizer = null
+    }
+  }
+  agent.dispose()
+  run = null
+}
+
+/**
+ * Train an agent stored in IndexedDB for a round of training, in the run of
+ * training that the worker goes on with, or in a new one.
+ *
+ * @param {TrainingSettings} settings
+ * @throws {Error} If the settings do not fit the agent, or if the training
+ *   is stopped in the middle of an iteration.
+ */
+async function train(settings: TrainingSettings) {
+  const {
+    modelName,
+    discountRate,
+    learningRate,
+    learningRateSchedule,
+    optimizer: optimizerConfig,
+    gamesPerIteration,
+    iterations,
+    hyperparameters,
+  } = settings
+  if (run === null) {
+    run = await startRun(settings)
+  }
+  const { agent, env, getSnapshot, trainer } = run
+  const metadata = agent.trainingMetadata as TrainingMetadata
+  // The settings that a round of training may change from the previous one.
+  metadata.hyperparameters = hyperparameters
+
+  let t0 = new Date().getTime()
+  for (let i = 0; i < iterations && !stopRequested; ++i) {
+    // Reusing the optimizer of earlier rounds of training lets training
+    // continue where it stopped. The optimizer takes over the state of the
+    // previous one whenever the learning rate changes.
+    const iterationLearningRate = getScheduledLearningRate(
+      learningRate,
+      learningRateSchedule,
+      metadata.iterations
+    )
+    const optimizer = await agent.getOptimizer(
+      iterationLearningRate,
+      optimizerConfig
+    )
+    const gameSteps = await trainer.train(
+      env,
+      optimizer,
+      discountRate,
+      gamesPerIteration,
+      // render cb:
+      async () => {
+        const now = new Date().getTime()
+        if (render && now - lastSnapshotTime >= SNAPSHOT_INTERVAL_MS) {
+          post({ type: 'snapshot', snapshot: getSnapshot() })
+          lastSnapshotTime = now
+        }
+        await handleCommands()
+      },
+      // onGameEnd cb:
+      (gameCount, totalGames) => post({ type: 'game', gameCount, totalGames })
+    )
+    recordTrainingIteration(
+      metadata,
+      gameSteps,
+      trainer instanceof PolicyNetwork ? trainer.lastIterationStats : null
+    )
+    const valueNet = getValueNetwork(trainer)
+    if (valueNet !== null && !(agent instanceof SaveableQNetwork)) {
+      agent.valueNet = valueNet
+    }
+    await agent.saveModel(modelName)
+    const t1 = new Date().getTime()
+    const stepsPerSecond = sum(gameSteps) / ((t1 - t0) / 1e3)
+    t0 = t1
+    post({
+      type: 'iteration',
+      iterationCount: i + 1,
+      totalIterations: iterations,
+      gameSteps,
+      stepsPerSecond,
+      stats: {
+        'learning rate': iterationLearningRate,
+        ...getTrainerStats(trainer),
+      },
+      metadata,
+      weights: getWeightSnapshots(getAgentModel(agent)),
+    })
+    await handleCommands()
+  }
+}
+
+ctx.addEventListener('message', (event: MessageEvent) => {
+  const command = event.data as TrainingCommand
+  switch (command.type) {
+    case 'start':
+      render = command.settings.render
+      paused = false
+      stopRequested = false
+      train(command.settings).then(
+        () => {
+          if (stopRequested) {
+            endRun()
+          }
+          post({ type: stopRequested ? 'stopped' : 'done' })
+        },
+        (err) => {
+          endRun()
+          post(
+            stopRequested
+              ? { type: 'stopped' }
+              : { type: 'error', message: err.message }
+          )
+        }
+      )
+      break
+    case 'pause':
+      paused = true
+      break
+    case 'resume':
+      paused = false
+      wake()
+      break
+    case 'stop':
+      stopRequested = true
+      wake()
+      break
+    case 'render':
+      render = command.render
+      break
+  }
+})
@@ -18,9 +18,121 @@
 import * as tf from '@tensorflow/tfjs'
 import * as tfvis from '@tensorflow/tfjs-vis'
 
-import { CartPole } from './cart_pole'
-import { SaveablePolicyNetwork } from './saveablePolicyNetwork'
-import { mean, sum } from './utils'
+import {
+  CartPole,
+  CartPoleConfig,
+  CartPoleDisturbance,
+  DEFAULT_CART_POLE_CONFIG,
+  DisturbanceTarget,
+  RANDOMIZED_PARAMETERS,
+  RandomizedParameter,
+  checkCartPoleConfig,
+} from './cart_pole'
+import {
+  EnvironmentName,
+  createEnv,
+  createSystem,
+  getObservationNames,
+  getSpaces,
+  parseEnvironmentName,
+} from './environments'
+import {
+  PhysicsSweep,
+  SweepPoint,
+  checkPhysicsSweep,
+  evaluateGeneralization,
+} from './generalization'
+import {
+  DisturbanceLog,
+  DisturbanceRecord,
+  parseDisturbanceLog,
+} from './replay'
+import {
+  DEFAULT_MODEL_NAME,
+  SaveableAgent,
+  SaveablePolicyNetwork,
+  SaveableQNetwork,
+  duplicateModel,
+  importAgent,
+  listModels,
+  loadAgent,
+  migrateLegacyModel,
+  removeModel,
+  renameModel,
+  saveModelSummary,
+} from './saveablePolicyNetwork'
+import {
+  TrainerConfig,
+  getAlgorithmHyperparameters,
+  parseTrainingAlgorithm,
+} from './saveablePolicyNetwork/algorithms'
+import {
+  BehaviorCloningConfig,
+  DemonstrationDataset,
+  addDemonstration,
+  checkBehaviorCloningConfig,
+  createDemonstrationDataset,
+  parseDemonstrationDataset,
+  pretrainFromDemonstrations,
+} from './saveablePolicyNetwork/demonstrations'
+import { Space, getSpaceSize } from './saveablePolicyNetwork/env'
+import {
+  EvaluationConfig,
+  EvaluationResult,
+  checkEvaluationConfig,
+  evaluate,
+} from './saveablePolicyNetwork/evaluation'
+import {
+  CONSTANT_LEARNING_RATE,
+  LearningRateSchedule,
+  LearningRateScheduleType,
+  OptimizerConfig,
+  checkLearningRateSchedule,
+  checkOptimizerConfig,
+  parseOptimizerName,
+} from './saveablePolicyNetwork/optimizers'
+import {
+  computePolicyMap,
+  getDefaultPolicyMapRanges,
+} from './saveablePolicyNetwork/policyMap'
+import {
+  INFERENCE_MODES,
+  InferenceMode,
+  InferenceOptions,
+  PolicyGradientConfig,
+  PolicyGradientStats,
+  PolicyNetwork,
+  getPolicyHead,
+  getPolicyOutputSize,
+} from './saveablePolicyNetwork/policyNetwork'
+import { SystemEnv } from './saveablePolicyNetwork/systemEnv'
+import {
+  RewardShapingConfig,
+  RewardTermName,
+  checkRewardShapingConfig,
+} from './saveablePolicyNetwork/rewardShaping'
+import { DQNConfig } from './saveablePolicyNetwork/qNetwork'
+import {
+  downloadJSON,
+  downloadText,
+  readFileAsText,
+} from './saveablePolicyNetwork/storage'
+import {
+  IterationDiagnostics,
+  TrainingHyperparameters,
+  createTrainingMetadata,
+  formatDiagnosticsAsCSV,
+} from './saveablePolicyNetwork/trainingMetadata'
+import {
+  IterationEvent,
+  TrainingCommand,
+  TrainingEvent,
+  TrainingSettings,
+  getAgentModel,
+  getTrainingRunKey,
+  setWeightSnapshots,
+} from './trainingMessages'
+import { randomSeed, seedRandom, withRandomSeed } from './utils'
 
 const getElementById = (id: string) => {
   const el = document.getElementById(id)
@@ -31,16 +143,36 @@ const getElementById = (id: string) => {
 }
 
 const appStatus = getElementById('app-status') as HTMLSpanElement
-const storedModelStatusInput = getElementById(
-  'stored-model-status'
-) as HTMLInputElement
+const storedModelsSelect = getElementById('stored-models') as HTMLSelectElement
+const modelNameInput = getElementById('model-name') as HTMLInputElement
+const environmentSelect = getElementById('environment') as HTMLSelectElement
+const agentTypeSelect = getElementById('agent-type') as HTMLSelectElement
 const hiddenLayerSizesInput = getElementById(
   'hidden-layer-sizes'
 ) as HTMLInputElement
 const createModelButton = getElementById('create-model') as HTMLButtonElement
+const saveModelButton = getElementById('save-model') as HTMLButtonElement
+const loadStoredModelButton = getElementById(
+  'load-stored-model'
+) as HTMLButtonElement
+const renameStoredModelButton = getElementById(
+  'rename-stored-model'
+) as HTMLButtonElement
+const duplicateStoredModelButton = getElementById(
+  'duplicate-stored-model'
+) as HTMLButtonElement
 const deleteStoredModelButton = getElementById(
   'delete-stored-model'
 ) as HTMLButtonElement
+const importFilesInput = getElementById('import-files') as HTMLInputElement
+const importModelButton = getElementById('import-model') as HTMLButtonElement
+const exportModelButton = getElementById('export-model') as HTMLButtonElement
+const storedModelButtons = [
+  loadStoredModelButton,
+  renameStoredModelButton,
+  duplicateStoredModelButton,
+  deleteStoredModelButton,
+]
 const cartPoleCanvas = getElementById('cart-pole-canvas') as HTMLCanvasElement
 
 const numIterationsInput = getElementById('num-iterations') as HTMLInputElement
@@ -52,28 +184,275 @@ const maxStepsPerGameInput = getElementById(
   'max-steps-per-game'
 ) as HTMLInputElement
 const learningRateInput = getElementById('learning-rate') as HTMLInputElement
+const optimizerSelect = getElementById('optimizer') as HTMLSelectElement
+const momentumInput = getElementById('momentum') as HTMLInputElement
+const learningRateScheduleSelect = getElementById(
+  'learning-rate-schedule'
+) as HTMLSelectElement
+const learningRateDecayRateInput = getElementById(
+  'learning-rate-decay-rate'
+) as HTMLInputElement
+const learningRateDecayIterationsInput = getElementById(
+  'learning-rate-decay-iterations'
+) as HTMLInputElement
+const minLearningRateInput = getElementById(
+  'min-learning-rate'
+) as HTMLInputElement
+const parallelGamesInput = getElementById('parallel-games') as HTMLInputElement
+const randomSeedInput = getElementById('random-seed') as HTMLInputElement
+const rewardShapingSelect = getElementById(
+  'reward-shaping'
+) as HTMLSelectElement
+const rewardShapingWeightInput = getElementById(
+  'reward-shaping-weight'
+) as HTMLInputElement
+const trainingAlgorithmSelect = getElementById(
+  'training-algorithm'
+) as HTMLSelectElement
+const entropyCoefficientInput = getElementById(
+  'entropy-coefficient'
+) as HTMLInputElement
+const gradientClipNormInput = getElementById(
+  'gradient-clip-norm'
+) as HTMLInputElement
+const gradientClipValueInput = getElementById(
+  'gradient-clip-value'
+) as HTMLInputElement
+const criticLearningRateInput = getElementById(
+  'critic-learning-rate'
+) as HTMLInputElement
+const gaeLambdaInput = getElementById('gae-lambda') as HTMLInputElement
+const ppoClipRatioInput = getElementById('ppo-clip-ratio') as HTMLInputElement
+const ppoEpochsInput = getElementById('ppo-epochs') as HTMLInputElement
+const ppoMinibatchSizeInput = getElementById(
+  'ppo-minibatch-size'
+) as HTMLInputElement
+const dqnReplayBufferSizeInput = getElementById(
+  'dqn-replay-buffer-size'
+) as HTMLInputElement
+const dqnBatchSizeInput = getElementById('dqn-batch-size') as HTMLInputElement
+const dqnTargetSyncEveryInput = getElementById(
+  'dqn-target-sync-every'
+) as HTMLInputElement
+const dqnEpsilonInitInput = getElementById(
+  'dqn-epsilon-init'
+) as HTMLInputElement
+const dqnEpsilonFinalInput = getElementById(
+  'dqn-epsilon-final'
+) as HTMLInputElement
+const dqnEpsilonDecayStepsInput = getElementById(
+  'dqn-epsilon-decay-steps'
+) as HTMLInputElement
+const dqnDoubleCheckbox = getElementById('dqn-double') as HTMLInputElement
+const dqnInputs = [
+  dqnReplayBufferSizeInput,
+  dqnBatchSizeInput,
+  dqnTargetSyncEveryInput,
+  dqnEpsilonInitInput,
+  dqnEpsilonFinalInput,
+  dqnEpsilonDecayStepsInput,
+  dqnDoubleCheckbox,
+]
+const physicsGravityInput = getElementById(
+  'physics-gravity'
+) as HTMLInputElement
+const physicsMassCartInput = getElementById(
+  'physics-mass-cart'
+) as HTMLInputElement
+const physicsMassPoleInput = getElementById(
+  'physics-mass-pole'
+) as HTMLInputElement
+const physicsLengthInput = getElementById('physics-length') as HTMLInputElement
+const physicsForceMagInput = getElementById(
+  'physics-force-mag'
+) as HTMLInputElement
+const physicsTauInput = getElementById('physics-tau') as HTMLInputElement
+const physicsXThresholdInput = getElementById(
+  'physics-x-threshold'
+) as HTMLInputElement
+const physicsThetaThresholdInput = getElementById(
+  'physics-theta-threshold'
+) as HTMLInputElement
+const physicsIntegratorSelect = getElementById(
+  'physics-integrator'
+) as HTMLSelectElement
+const physicsActionsSelect = getElementById(
+  'physics-actions'
+) as HTMLSelectElement
+const physicsTerminationSelect = getElementById(
+  'physics-termination'
+) as HTMLSelectElement
+const physicsRandomizationInputs: {
+  [parameter in RandomizedParameter]: HTMLInputElement
+} = {
+  massCart: getElementById('physics-randomize-mass-cart') as HTMLInputElement,
+  massPole: getElementById('physics-randomize-mass-pole') as HTMLInputElement,
+  length: getElementById('physics-randomize-length') as HTMLInputElement,
+  forceMag: getElementById('physics-randomize-force-mag') as HTMLInputElement,
+}
+const physicsObservationNoiseInput = getElementById(
+  'physics-observation-noise'
+) as HTMLInputElement
+const physicsActionDelayInput = getElementById(
+  'physics-action-delay'
+) as HTMLInputElement
+const physicsObservationDelayInput = getElementById(
+  'physics-observation-delay'
+) as HTMLInputElement
+const resetPhysicsButton = getElementById('reset-physics') as HTMLButtonElement
+const physicsInputs = [
+  physicsGravityInput,
+  physicsMassCartInput,
+  physicsMassPoleInput,
+  physicsLengthInput,
+  physicsForceMagInput,
+  physicsTauInput,
+  physicsXThresholdInput,
+  physicsThetaThresholdInput,
+  physicsIntegratorSelect,
+  physicsActionsSelect,
+  physicsTerminationSelect,
+  ...RANDOMIZED_PARAMETERS.map(
+    (parameter) => physicsRandomizationInputs[parameter]
+  ),
+  physicsObservationNoiseInput,
+  physicsActionDelayInput,
+  physicsObservationDelayInput,
+  resetPhysicsButton,
+]
 const renderDuringTrainingCheckbox = getElementById(
   'render-during-training'
 ) as HTMLInputElement
 
 const trainButton = getElementById('train') as HTMLButtonElement
+const pauseTrainingButton = getElementById(
+  'pause-training'
+) as HTMLButtonElement
 const testButton = getElementById('test') as HTMLButtonElement
+const replayButton = getElementById('replay') as HTMLButtonElement
+const testInferenceModeSelect = getElementById(
+  'test-inference-mode'
+) as HTMLSelectElement
+const testTemperatureInput = getElementById(
+  'test-temperature'
+) as HTMLInputElement
+const evalEpisodesInput = getElementById('eval-episodes') as HTMLInputElement
+const evalSeedInput = getElementById('eval-seed') as HTMLInputElement
+const evalMaxStepsInput = getElementById('eval-max-steps') as HTMLInputElement
+const evalGreedyCheckbox = getElementById('eval-greedy') as HTMLInputElement
+const evalSweepSelect = getElementById('eval-sweep') as HTMLSelectElement
+const evalSweepScalesInput = getElementById(
+  'eval-sweep-scales'
+) as HTMLInputElement
+const evaluateButton = getElementById('evaluate') as HTMLButtonElement
+const evalStatus = getElementById('eval-status') as HTMLLabelElement
+const evalProgress = getElementById('eval-progress') as HTMLProgressElement
+const evalStats = getElementById('eval-stats') as HTMLSpanElement
+const evalEnds = getElementById('eval-ends') as HTMLSpanElement
+const evalHistogramContainer = getElementById('eval-histogram-container')
+const evalSweepContainer = getElementById('eval-sweep-container')
 const iterationStatus = getElementById('iteration-status') as HTMLLabelElement
 const iterationProgress = getElementById(
   'iteration-progress'
 ) as HTMLProgressElement
 const trainStatus = getElementById('train-status') as HTMLLabelElement
 const trainSpeed = getElementById('train-speed') as HTMLSpanElement
+const trainStats = getElementById('train-stats') as HTMLSpanElement
 const trainProgress = getElementById('train-progress') as HTMLProgressElement
 
 const stepsContainer = getElementById('steps-container')
+const showDiagnosticsButton = getElementById(
+  'show-diagnostics'
+) as HTMLButtonElement
+const exportDiagnosticsButton = getElementById(
+  'export-diagnostics'
+) as HTMLButtonElement
+const disturbanceCartVelocityInput = getElementById(
+  'disturbance-cart-velocity'
+) as HTMLInputElement
+const disturbancePoleVelocityInput = getElementById(
+  'disturbance-pole-velocity'
+) as HTMLInputElement
+const disturbanceLogTextArea = getElementById(
+  'disturbance-log'
+) as HTMLTextAreaElement
+const playStepsPerSecondInput = getElementById(
+  'play-steps-per-second'
+) as HTMLInputElement
+const playButton = getElementById('play') as HTMLButtonElement
+const saveDemonstrationsButton = getElementById(
+  'save-demonstrations'
+) as HTMLButtonElement
+const demonstrationsFileInput = getElementById(
+  'demonstrations-file'
+) as HTMLInputElement
+const loadDemonstrationsButton = getElementById(
+  'load-demonstrations'
+) as HTMLButtonElement
+const clearDemonstrationsButton = getElementById(
+  'clear-demonstrations'
+) as HTMLButtonElement
+const demonstrationsStatus = getElementById(
+  'demonstrations-status'
+) as HTMLSpanElement
+const pretrainEpochsInput = getElementById(
+  'pretrain-epochs'
+) as HTMLInputElement
+const pretrainBatchSizeInput = getElementById(
+  'pretrain-batch-size'
+) as HTMLInputElement
+const pretrainLearningRateInput = getElementById(
+  'pretrain-learning-rate'
+) as HTMLInputElement
+const pretrainButton = getElementById('pretrain') as HTMLButtonElement
+const pretrainingStatus = getElementById(
+  'pretraining-status'
+) as HTMLSpanElement
+const demonstrationButtons = [
+  playButton,
+  saveDemonstrationsButton,
+  loadDemonstrationsButton,
+  clearDemonstrationsButton,
+]
+const policyMapXSelect = getElementById('policy-map-x') as HTMLSelectElement
+const policyMapYSelect = getElementById('policy-map-y') as HTMLSelectElement
+const policyMapSliders = getElementById('policy-map-sliders')
+const policyMapStatus = getElementById('policy-map-status') as HTMLSpanElement
+const policyMapContainer = getElementById('policy-map-container')
+
+// The number of grid points along each axis of the policy map.
+const POLICY_MAP_RESOLUTION = 21
+// The ranges of the state variables of the policy map, and the sliders that
+// hold the values of the state variables that are not on its axes.
+let policyMapRanges: Array<[number, number]> = []
+let policyMapStateInputs: HTMLInputElement[] = []
 
-// Module-global instance of policy network.
-let policyNet: SaveablePolicyNetwork | null
+// Module-global instance of the agent (a policy network or a Q-network).
+let agent: SaveableAgent | null = null
+// Name under which `agent` is saved during training.
+let agentName = DEFAULT_MODEL_NAME
+// The worker that trains `agent`, and keeps the run of training between the
+// rounds of training (see `trainingWorker.ts`).
+let trainingWorker: Worker | null = null
+// What the next round of training has to match to go on with the run of
+// training of `trainingWorker`: the agent, as reloaded after the last round,
+// and the key of the settings of the run (see `getTrainingRunKey()`).
+let trainingRun: { agent: SaveableAgent; key: string } | null = null
 let stopRequested = false
 // Objects and functions to support display of cart pole status during training.
 let renderDuringTraining = true
 
+// The cart-pole of the running test, if the user can disturb it, and the
+// disturbances of the user that are yet to be applied.
+let testCartPole: CartPole | null = null
+let queuedDisturbances: CartPoleDisturbance[] = []
+
+// The demonstrations played or loaded so far, if any.
+let demonstrations: DemonstrationDataset | null = null
+// Whether the user is playing, and the arrow keys they hold down.
+let playing = false
+const heldArrowKeys = { left: false, right: false }
+
 /**
  * Display a message to the info div.
  *
@@ -96,12 +475,22 @@ function onIterationEnd(iterationCount: number, totalIterations: number) {
   trainProgress.value = (iterationCount / totalIterations) * 100
 }
 
-// Objects and function to support the plotting of game steps during training.
-let meanStepValues: Array<{ x: number; y: number }> = []
+/**
+ * Plot the mean steps per game of every training iteration of the current
+ * agent, including those of earlier rounds of training.
+ */
 function plotSteps() {
+  const meanStepsHistory =
+    agent !== null && agent.trainingMetadata !== null
+      ? agent.trainingMetadata.meanStepsHistory
+      : []
+  if (meanStepsHistory.length === 0) {
+    stepsContainer.innerHTML = ''
+    return
+  }
   tfvis.render.linechart(
     stepsContainer,
-    { values: meanStepValues },
+    { values: meanStepsHistory.map((y, i) => ({ x: i + 1, y })) },
     {
       xLabel: 'Training Iteration',
       yLabel: 'Mean Steps Per Game',
@@ -111,210 +500,1961 @@ function plotSteps() {
   )
 }
 
+// The tab of the visor of tfjs-vis that shows the training diagnostics.
+const DIAGNOSTICS_TAB = 'Training Diagnostics'
+// The visor is only created when it is first shown, since it opens when it is
+// created.
+let visorCreated = false
+
+/**
+ * Get the diagnostics of every training iteration of the current agent that
+ * has them.
+ */
+function getDiagnosticsHistory(): IterationDiagnostics[] {
+  return agent !== null &&
+    agent.trainingMetadata !== null &&
+    agent.trainingMetadata.diagnosticsHistory !== undefined
+    ? agent.trainingMetadata.diagnosticsHistory
+    : []
+}
+
+/**
+ * Plot the diagnostics of every training iteration of the current agent in
+ * the visor, once the visor has been shown.
+ */
+function plotDiagnostics() {
+  if (!visorCreated) {
+    return
+  }
+  const history = getDiagnosticsHistory()
+  const updates: Array<{ iteration: number; update: PolicyGradientStats }> = []
+  for (const { iteration, update } of history) {
+    if (update !== undefined) {
+      updates.push({ iteration, update })
+    }
+  }
+  const plot = <T extends { iteration: number }>(
+    name: string,
+    yLabel: string,
+    diagnostics: T[],
+    series: string[],
+    getValues: (diagnostics: T) => Array<number | null>
+  ) => {
+    const { drawArea } = tfvis.visor().surface({ name, tab: DIAGNOSTICS_TAB })
+    if (diagnostics.length === 0) {
+      drawArea.textContent =
+        history.length === 0
+          ? 'No diagnostics have been recorded for the current model.'
+          : 'Only recorded for REINFORCE.'
+      return
+    }
+    const values = series.map(() => [] as Array<{ x: number; y: number }>)
+    for (const iterationDiagnostics of diagnostics) {
+      getValues(iterationDiagnostics).forEach((y, i) => {
+        if (y !== null) {
+          values[i].push({ x: iterationDiagnostics.iteration, y })
+        }
+      })
+    }
+    tfvis.render.linechart(
+      drawArea,
+      { values, series },
+      { xLabel: 'Training Iteration', yLabel }
+    )
+  }
+
+  plot(
+    'Episode Lengths',
+    'Steps Per Game',
+    history,
+    ['min', '10th percentile', 'median', '90th percentile', 'max'],
+    ({ episodeLengths: { min, p10, median, p90, max } }) => [
+      min,
+      p10,
+      median,
+      p90,
+      max,
+    ]
+  )
+  plot('Policy Entropy', 'Mean Entropy', updates, ['entropy'], ({ update }) => [
+    update.entropy,
+  ])
+  plot('Loss', 'Loss', updates, ['loss'], ({ update }) => [update.loss])
+  plot(
+    'Gradient Global Norm',
+    'Norm',
+    updates,
+    ['gradient norm'],
+    ({ update }) => [update.gradientNorm]
+  )
+  plot(
+    'Discounted Returns',
+    'Return',
+    updates,
+    ['mean', 'standard deviation'],
+    ({ update }) => [update.returnMean, update.returnStd]
+  )
+  const layers: string[] = []
+  for (const { update } of updates) {
+    for (const layer of Object.keys(update.weightNorms)) {
+      if (layers.indexOf(layer) < 0) {
+        layers.push(layer)
+      }
+    }
+  }
+  plot('Weight Norms', 'L2 Norm', updates, layers, ({ update }) =>
+    layers.map((layer) =>
+      layer in update.weightNorms ? update.weightNorms[layer] : null
+    )
+  )
+}
+
+/**
+ * Set up the inputs of the policy map for the state variables of the selected
+ * environment, keeping the selected axes if it has the same state variables.
+ */
+function updatePolicyMapInputs() {
+  let names: string[]
+  try {
+    const environment = getEnvironment()
+    const { observationSpace } = getSpaces(environment, getCartPoleConfig())
+    names = getObservationNames(environment)
+    policyMapRanges = getDefaultPolicyMapRanges(observationSpace)
+  } catch (err) {
+    // Invalid physics are reported when they are used.
+    return
+  }
+  const keepAxes = policyMapStateInputs.length === names.length
+  // The last two state variables by default: the angle and the angular
+  // velocity of the pole, for the cart-pole.
+  const xIndex = keepAxes ? policyMapXSelect.selectedIndex : names.length - 2
+  const yIndex = keepAxes ? policyMapYSelect.selectedIndex : names.length - 1
+  for (const select of [policyMapXSelect, policyMapYSelect]) {
+    while (select.firstChild) {
+      select.removeChild(select.firstChild)
+    }
+    names.forEach((name, i) => {
+      const option = document.createElement('option')
+      option.value = `${i}`
+      option.textContent = name
+      select.appendChild(option)
+    })
+  }
+  policyMapXSelect.selectedIndex = xIndex
+  policyMapYSelect.selectedIndex = yIndex
+
+  while (policyMapSliders.firstChild) {
+    policyMapSliders.removeChild(policyMapSliders.firstChild)
+  }
+  policyMapStateInputs = names.map((name, i) => {
+    const [min, max] = policyMapRanges[i]
+    const div = document.createElement('div')
+    div.className = 'input-div'
+    const label = document.createElement('label')
+    label.className = 'input-label'
+    label.textContent = `${name}:`
+    const slider = document.createElement('input')
+    slider.type = 'range'
+    slider.min = `${min}`
+    slider.max = `${max}`
+    slider.step = `${(max - min) / 100}`
+    slider.value = `${min <= 0 && max >= 0 ? 0 : (min + max) / 2}`
+    const valueSpan = document.createElement('span')
+    valueSpan.className = 'note'
+    valueSpan.textContent = Number(slider.value).toFixed(3)
+    slider.addEventListener('input', () => {
+      valueSpan.textContent = Number(slider.value).toFixed(3)
+      plotPolicyMap()
+    })
+    div.appendChild(label)
+    div.appendChild(slider)
+    div.appendChild(valueSpan)
+    policyMapSliders.appendChild(div)
+    return slider
+  })
+  updatePolicyMapSliders()
+}
+
+/**
+ * Enable the sliders of the state variables that are not on the axes of the
+ * policy map.
+ */
+function updatePolicyMapSliders() {
+  policyMapStateInputs.forEach(
+    (slider, i) =>
+      (slider.disabled =
+        i === policyMapXSelect.selectedIndex ||
+        i === policyMapYSelect.selectedIndex)
+  )
+}
+
+/**
+ * Plot the policy map of the current agent.
+ */
+function plotPolicyMap() {
+  while (policyMapContainer.firstChild) {
+    policyMapContainer.removeChild(policyMapContainer.firstChild)
+  }
+  if (agent === null) {
+    policyMapStatus.textContent = 'No model.'
+    return
+  }
+  try {
+    const environment = getEnvironment()
+    checkAgentEnvironment(environment, getCartPoleConfig())
+    const xIndex = policyMapXSelect.selectedIndex
+    const yIndex = policyMapYSelect.selectedIndex
+    const { xValues, yValues, values } = computePolicyMap(agent, {
+      xIndex,
+      yIndex,
+      ranges: policyMapRanges,
+      state: policyMapStateInputs.map((slider) => Number(slider.value)),
+      resolution: POLICY_MAP_RESOLUTION,
+    })
+    const isGaussian =
+      agent instanceof PolicyNetwork && agent.head === 'gaussian'
+    policyMapStatus.textContent =
+      agent instanceof SaveableQNetwork
+        ? 'Greedy action 0 (1) or another action (0).'
+        : isGaussian
+        ? 'Mean action.'
+        : 'Probability of action 0 (the leftward force, for the cart-pole).'
+    const names = getObservationNames(environment)
+    tfvis.render.heatmap(
+      policyMapContainer,
+      {
+        values,
+        xTickLabels: xValues.map((x) => x.toFixed(2)),
+        yTickLabels: yValues.map((y) => y.toFixed(2)),
+      },
+      {
+        xLabel: names[xIndex],
+        yLabel: names[yIndex],
+        domain: isGaussian ? [-1, 1] : [0, 1],
+        width: 400,
+        height: 400,
+      }
+    )
+  } catch (err) {
+    policyMapStatus.textContent = `Not available: ${err.message}`
+  }
+}
+
 function disableModelControls() {
   trainButton.textContent = 'Stop'
   testButton.disabled = true
-  deleteStoredModelButton.disabled = true
+  replayButton.disabled = true
+  pretrainButton.disabled = true
+  demonstrationButtons.forEach((button) => (button.disabled = true))
+  evaluateButton.disabled = true
+  createModelButton.disabled = true
+  saveModelButton.disabled = true
+  importModelButton.disabled = true
+  exportModelButton.disabled = true
+  storedModelButtons.forEach((button) => (button.disabled = true))
 }
 
 function enableModelControls() {
   trainButton.textContent = 'Train'
+  pauseTrainingButton.textContent = 'Pause'
+  pauseTrainingButton.disabled = true
   testButton.disabled = false
-  deleteStoredModelButton.disabled = false
+  replayButton.disabled = false
+  pretrainButton.disabled = !(agent instanceof SaveablePolicyNetwork)
+  demonstrationButtons.forEach((button) => (button.disabled = false))
+  evaluateButton.disabled = false
+  createModelButton.disabled = false
+  saveModelButton.disabled = false
+  importModelButton.disabled = false
+  exportModelButton.disabled = false
+  storedModelButtons.forEach(
+    (button) => (button.disabled = storedModelsSelect.value === '')
+  )
+}
+
+/**
+ * Refresh the list of locally-stored models.
+ */
+async function updateStoredModels() {
+  const selectedName = storedModelsSelect.value
+  const storedModels = await listModels()
+  while (storedModelsSelect.firstChild) {
+    storedModelsSelect.removeChild(storedModelsSelect.firstChild)
+  }
+  for (const { name, agentType, hiddenLayerSizes, dateSaved } of storedModels) {
+    const option = document.createElement('option')
+    option.value = name
+    option.textContent =
+      `${name} (${agentType === 'dqn' ? 'DQN' : 'policy network'}, ` +
+      `hidden layers: ${hiddenLayerSizes.toString()}) ` +
+      `Saved@${dateSaved.toISOString()}`
+    storedModelsSelect.appendChild(option)
+  }
+  if (storedModels.some(({ name }) => name === selectedName)) {
+    storedModelsSelect.value = selectedName
+  }
 }
 
 async function updateUIControlState() {
-  const modelInfo = await SaveablePolicyNetwork.checkStoredModelStatus()
-  if (modelInfo == null) {
-    storedModelStatusInput.value = 'No stored model.'
-    deleteStoredModelButton.disabled = true
-  } else {
-    storedModelStatusInput.value = `Saved@${modelInfo.dateSaved.toISOString()}`
-    deleteStoredModelButton.disabled = false
-    createModelButton.disabled = true
-  }
-  createModelButton.disabled = policyNet != null
-  hiddenLayerSizesInput.disabled = policyNet != null
-  trainButton.disabled = policyNet == null
-  testButton.disabled = policyNet == null
+  await updateStoredModels()
+  storedModelButtons.forEach(
+    (button) => (button.disabled = storedModelsSelect.value === '')
+  )
+  createModelButton.disabled = false
+  saveModelButton.disabled = agent == null
+  exportModelButton.disabled = agent == null
+  trainButton.disabled = agent == null
+  testButton.disabled = agent == null
+  replayButton.disabled = agent == null
+  pretrainButton.disabled = !(agent instanceof SaveablePolicyNetwork)
+  evaluateButton.disabled = agent == null
   renderDuringTrainingCheckbox.checked = renderDuringTraining
+  updateTrainingInputs()
+  updateTestInputs()
+  showPretrainingStatus()
 }
 
-export async function setUpUI() {
-  const cartPole = new CartPole()
+/**
+ * Enable the inputs of the action selection of the test that apply to the
+ * current agent.
+ */
+function updateTestInputs() {
+  const isDQN = agent instanceof SaveableQNetwork
+  testInferenceModeSelect.disabled = isDQN
+  testTemperatureInput.disabled =
+    isDQN || testInferenceModeSelect.value !== 'temperature'
+}
 
-  if ((await SaveablePolicyNetwork.checkStoredModelStatus()) != null) {
-    policyNet = await SaveablePolicyNetwork.loadModel()
-    logStatus('Loaded policy network from IndexedDB.')
-    hiddenLayerSizesInput.value = policyNet.hiddenLayerSizes().toString()
+/**
+ * Get the action selection of the test from the UI.
+ *
+ * @throws {Error} For an invalid temperature.
+ */
+function getInferenceOptions(): InferenceOptions {
+  const mode = testInferenceModeSelect.value as InferenceMode
+  if (INFERENCE_MODES.indexOf(mode) === -1) {
+    throw new Error(`Invalid action selection: ${mode}`)
   }
-  await updateUIControlState()
-
-  renderDuringTrainingCheckbox.addEventListener('change', () => {
-    renderDuringTraining = renderDuringTrainingCheckbox.checked
-  })
+  if (mode !== 'temperature') {
+    return { mode }
+  }
+  const temperature = Number.parseFloat(testTemperatureInput.value)
+  if (!(temperature > 0)) {
+    throw new Error(`Invalid temperature: ${testTemperatureInput.value}`)
+  }
+  return { mode, temperature }
+}
 
-  createModelButton.addEventListener('click', async () => {
-    try {
-      const hiddenLayerSizes = hiddenLayerSizesInput.value
-        .trim()
-        .split(',')
-        .map((v) => {
-          const num = Number.parseInt(v.trim())
-          if (!(num > 0)) {
-            throw new Error(
-              `Invalid hidden layer sizes string: ` +
-                `${hiddenLayerSizesInput.value}`
-            )
-          }
-          return num
-        })
-      policyNet = new SaveablePolicyNetwork({
-        sizes: {
-          hiddenLayerSizes,
-          inputSize: 4,
-          outputSize: 1,
-        },
-      })
-      console.log('DONE constructing new instance of SaveablePolicyNetwork')
-      await updateUIControlState()
-    } catch (err) {
-      logStatus(`ERROR: ${err.message}`)
-    }
-  })
+/**
+ * Describe an action in the status of the test: an arrow for the direction
+ * of a discrete action, followed by the probabilities of all the actions if
+ * they are known, or the value of a continuous action.
+ *
+ * @param {Space} actionSpace
+ * @param {number} action
+ * @param {number[] | null} probabilities The probabilities of the actions
+ *   that the action was selected by.
+ */
+function describeAction(
+  actionSpace: Space,
+  action: number,
+  probabilities: number[] | null
+) {
+  if (actionSpace.type === 'box') {
+    return action.toFixed(2)
+  }
+  // Action 0 is a leftward force, the last action a rightward one.
+  const [arrows, names] =
+    actionSpace.n > 2
+      ? [
+          ['<--', ' o ', ' -->'],
+          ['left', 'none', 'right'],
+        ]
+      : [
+          ['<--', ' -->'],
+          ['left', 'right'],
+        ]
+  if (probabilities === null) {
+    return arrows[action]
+  }
+  const percentages = probabilities.map(
+    (p, i) => `${names[i]} ${(p * 100).toFixed(1)}%`
+  )
+  return `${arrows[action]} (${percentages.join(', ')})`
+}
 
-  deleteStoredModelButton.addEventListener('click', async () => {
-    if (policyNet !== null) {
-      if (
-        confirm(`Are you sure you want to delete the locally-stored model?`)
-      ) {
-        await policyNet.removeModel()
-        policyNet = null
-        await updateUIControlState()
-      }
-    }
+/**
+ * Queue a disturbance of the cart-pole of the running test, from the input of
+ * the user. Nothing happens if no test can be disturbed.
+ *
+ * @param {DisturbanceTarget} target
+ * @param {number} direction 1 for a push to the right of the canvas, -1 for
+ *   one to the left.
+ */
+function queueDisturbance(target: DisturbanceTarget, direction: number) {
+  if (testCartPole === null) {
+    return
+  }
+  const input =
+    target === 'cart'
+      ? disturbanceCartVelocityInput
+      : disturbancePoleVelocityInput
+  const speed = Number.parseFloat(input.value)
+  if (!(speed > 0)) {
+    logStatus(`ERROR: Invalid velocity of disturbance: ${input.value}`)
+    return
+  }
+  // On the canvas, a positive angle leans the pole to the left (see
+  // `CartPole.render()`), so that a tap to the right lowers `thetaDot`.
+  queuedDisturbances.push({
+    target,
+    velocity: (target === 'cart' ? direction : -direction) * speed,
   })
+}
 
-  trainButton.addEventListener('click', async () => {
-    if (trainButton.textContent === 'Stop') {
-      stopRequested = true
-    } else {
-      disableModelControls()
-      if (policyNet === null) {
-        throw new Error(`Can not train with invalid policyNet: ${policyNet}`)
-      }
-      try {
-        const trainIterations = Number.parseInt(numIterationsInput.value)
-        if (!(trainIterations > 0)) {
-          throw new Error(`Invalid number of iterations: ${trainIterations}`)
-        }
-        const gamesPerIteration = Number.parseInt(gamesPerIterationInput.value)
-        if (!(gamesPerIteration > 0)) {
-          throw new Error(
-            `Invalid # of games per iterations: ${gamesPerIteration}`
-          )
-        }
-        const maxStepsPerGame = Number.parseInt(maxStepsPerGameInput.value)
-        if (!(maxStepsPerGame > 1)) {
-          throw new Error(`Invalid max. steps per game: ${maxStepsPerGame}`)
-        }
-        const discountRate = Number.parseFloat(discountRateInput.value)
-        if (!(discountRate > 0 && discountRate < 1)) {
-          throw new Error(`Invalid discount rate: ${discountRate}`)
-        }
-        const learningRate = Number.parseFloat(learningRateInput.value)
-
-        logStatus(
-          'Training policy network... Please wait. ' +
-            'Network is saved to IndexedDB at the end of each iteration.'
-        )
-        const optimizer = tf.train.adam(learningRate)
-
-        meanStepValues = []
-        onIterationEnd(0, trainIterations)
-
-        let t0 = new Date().getTime()
-        stopRequested = false
-        for (let i = 0; i < trainIterations; ++i) {
-          const gameSteps = await policyNet.train(
-            cartPole,
-            optimizer,
-            discountRate,
-            gamesPerIteration,
-            maxStepsPerGame,
-            // render cb:
-            async (system) => {
-              if (renderDuringTraining) {
-                system.render(cartPoleCanvas)
-                await tf.nextFrame() // Unblock UI thread.
-              }
-            },
-            // onGameEnd cb:
-            (gameCount, totalGames) => {
-              iterationStatus.textContent = `Game ${gameCount} of ${totalGames}`
-              iterationProgress.value = (gameCount / totalGames) * 100
-              if (gameCount === totalGames) {
-                iterationStatus.textContent = 'Updating weights...'
-              }
-            }
-          )
-          const t1 = new Date().getTime()
-          const stepsPerSecond = sum(gameSteps) / ((t1 - t0) / 1e3)
-          t0 = t1
-          trainSpeed.textContent = `${stepsPerSecond.toFixed(1)} steps/s`
-          meanStepValues.push({ x: i + 1, y: mean(gameSteps) })
-          console.log(`# of tensors: ${tf.memory().numTensors}`)
-          plotSteps()
-          onIterationEnd(i + 1, trainIterations)
-          await tf.nextFrame() // Unblock UI thread.
-          await policyNet.saveModel()
-          await updateUIControlState()
-
-          if (stopRequested) {
-            logStatus('Training stopped by user.')
-            break
-          }
-        }
-        if (!stopRequested) {
-          logStatus('Training completed.')
-        }
-      } catch (err) {
-        logStatus(`ERROR: ${err.message}`)
-      }
-      enableModelControls()
+/**
+ * Run a test episode of the current agent and render it.
+ *
+ * During a new test of the cart-pole, the user can disturb it (see
+ * `queueDisturbance()`). The disturbances are logged with the seed of the
+ * test, so that the episode, and the recovery of the agent, can be replayed.
+ *
+ * @param {DisturbanceLog | null} replay The log of the test to replay, or
+ *   `null` for a new test. The user cannot disturb a replay.
+ */
+async function runTest(replay: DisturbanceLog | null) {
+  let env: SystemEnv
+  let inferenceOptions: InferenceOptions
+  try {
+    const environment = getEnvironment()
+    const physics = getCartPoleConfig()
+    checkAgentEnvironment(environment, physics)
+    env = createEnv(environment, physics)
+    inferenceOptions = getInferenceOptions()
+    if (
+      replay !== null &&
+      replay.disturbances.length > 0 &&
+      !(env.system instanceof CartPole)
+    ) {
+      throw new Error('Only tests of the cart-pole can be disturbed')
     }
-  })
-
-  testButton.addEventListener('click', async () => {
-    disableModelControls()
+  } catch (err) {
+    logStatus(`ERROR: ${err.message}`)
+    return
+  }
+  disableModelControls()
+  const cartPole = env.system instanceof CartPole ? env.system : null
+  const seed = replay !== null ? replay.seed : randomSeed()
+  const disturbances: DisturbanceRecord[] = []
+  testCartPole = replay === null ? cartPole : null
+  queuedDisturbances = []
+  if (testCartPole !== null) {
+    cartPoleCanvas.focus()
+  }
+  stopRequested = false
+  const steps = await withRandomSeed(seed, async () => {
     let isDone = false
-    const cartPole = new CartPole()
-    cartPole.setRandomState()
+    let { observation } = env.reset()
     let steps = 0
-    stopRequested = false
     while (!isDone) {
+      const stepDisturbances =
+        replay !== null
+          ? replay.disturbances.filter(({ step }) => step === steps)
+          : queuedDisturbances.map((disturbance) => ({
+              ...disturbance,
+              step: steps,
+            }))
+      queuedDisturbances = []
+      if (cartPole !== null && stepDisturbances.length > 0) {
+        stepDisturbances.forEach((d) => cartPole.applyDisturbance(d))
+        disturbances.push(...stepDisturbances)
+        observation = cartPole.getState()
+      }
       steps++
       tf.tidy(() => {
-        if (policyNet === null) {
-          throw new Error(`Invalid policyNet: ${policyNet}`)
+        if (agent === null) {
+          throw new Error(`Invalid agent: ${agent}`)
+        }
+        const inputs = tf.tensor2d([observation])
+        let action: number
+        let probabilities: number[] | null = null
+        if (agent instanceof PolicyNetwork) {
+          const selection = agent.getActionsAndProbabilities(
+            inputs,
+            inferenceOptions
+          )
+          action = selection.actions[0]
+          if (selection.probabilities !== null) {
+            probabilities = selection.probabilities[0]
+          }
+        } else {
+          action = agent.getActions(inputs)[0]
         }
-        const action = policyNet.getActions(cartPole.getStateTensor())[0]
+        const actionText = describeAction(
+          env.actionSpace,
+          action,
+          probabilities
+        )
         logStatus(
-          `Test in progress. ` +
-            `Action: ${action === 1 ? '<--' : ' -->'} (Step ${steps})`
+          `${replay !== null ? 'Replay' : 'Test'} in progress. ` +
+            `Action: ${actionText} (Step ${steps})`
         )
-        isDone = cartPole.update(action)
-        cartPole.render(cartPoleCanvas)
+        const result = env.step(action)
+        observation = result.observation
+        isDone = result.terminated || result.truncated
+        env.render(cartPoleCanvas)
       })
       await tf.nextFrame() // Unblock UI thread.
       if (stopRequested) {
         break
       }
     }
-    if (stopRequested) {
-      logStatus(`Test stopped by user after ${steps} step(s).`)
-    } else {
-      logStatus(`Test finished. Survived ${steps} step(s).`)
+    return steps
+  })
+  testCartPole = null
+  queuedDisturbances = []
+  const disturbanceText =
+    cartPole !== null ? ` ${disturbances.length} disturbance(s).` : ''
+  if (stopRequested) {
+    logStatus(`Test stopped by user after ${steps} step(s).${disturbanceText}`)
+  } else {
+    logStatus(
+      (env.system.stepReward > 0
+        ? `Test finished. Survived ${steps} step(s).`
+        : `Test finished. Reached the goal in ${steps} step(s).`) +
+        disturbanceText
+    )
+  }
+  if (cartPole !== null && replay === null) {
+    disturbanceLogTextArea.value = JSON.stringify({ seed, disturbances })
+  }
+  console.log(`# of tensors: ${tf.memory().numTensors}`)
+  enableModelControls()
+}
+
+/**
+ * Get the action of a person who plays with the arrow keys.
+ *
+ * @param {Space} actionSpace
+ * @param {number} direction -1 while the left arrow key is held down, 1 while
+ *   the right one is, or else 0.
+ * @param {number} lastAction The action of the previous step. Two discrete
+ *   actions have no 'none' action, so the last one is kept while no key is
+ *   held down.
+ */
+function getHumanAction(
+  actionSpace: Space,
+  direction: number,
+  lastAction: number
+) {
+  if (actionSpace.type === 'box') {
+    return direction
+  }
+  if (actionSpace.n === 2) {
+    return direction === 0 ? lastAction : direction < 0 ? 0 : 1
+  }
+  return direction + 1
+}
+
+/**
+ * Get the direction of the arrow keys held down by the user: -1, 1, or 0 for
+ * neither or both.
+ */
+function getHeldDirection() {
+  const { left, right } = heldArrowKeys
+  return left === right ? 0 : left ? -1 : 1
+}
+
+/**
+ * Check that a person can play an environment with the arrow keys: it needs
+ * leftward and rightward actions, see `getHumanAction()`.
+ *
+ * @param {Space} actionSpace
+ * @throws {Error} For any other action space.
+ */
+function checkHumanActionSpace(actionSpace: Space) {
+  if (
+    actionSpace.type === 'discrete'
+      ? actionSpace.n !== 2 && actionSpace.n !== 3
+      : getSpaceSize(actionSpace) !== 1
+  ) {
+    throw new Error('This environment can not be played with the arrow keys.')
+  }
+}
+
+/**
+ * Show the number of steps and episodes of the demonstrations.
+ */
+function showDemonstrationsStatus() {
+  demonstrationsStatus.textContent =
+    demonstrations === null
+      ? 'None'
+      : `${demonstrations.actions.length} step(s) in ` +
+        `${demonstrations.episodeSteps.length} episode(s)`
+}
+
+/**
+ * Show whether and how the current agent was pretrained from demonstrations.
+ */
+function showPretrainingStatus() {
+  if (!(agent instanceof SaveablePolicyNetwork) || agent.pretraining === null) {
+    pretrainingStatus.textContent = 'Not pretrained'
+    return
+  }
+  const { demonstrationSteps, epochs, finalLoss } = agent.pretraining
+  pretrainingStatus.textContent =
+    `Pretrained on ${demonstrationSteps} step(s) for ${epochs} epoch(s), ` +
+    `final loss: ${finalLoss.toFixed(4)}`
+}
+
+/**
+ * Get the settings of the pretraining from demonstrations.
+ */
+function getBehaviorCloningConfig(): BehaviorCloningConfig {
+  const config = {
+    epochs: Number.parseInt(pretrainEpochsInput.value),
+    batchSize: Number.parseInt(pretrainBatchSizeInput.value),
+    learningRate: Number.parseFloat(pretrainLearningRateInput.value),
+  }
+  checkBehaviorCloningConfig(config)
+  return config
+}
+
+/**
+ * Let the user play an episode with the arrow keys, and add it to the
+ * demonstrations.
+ *
+ * The episode starts with the first arrow key pressed, and runs at a fixed
+ * number of steps per second, so that a person can keep up.
+ */
+async function playDemonstration() {
+  let env: SystemEnv
+  let stepsPerSecond: number
+  try {
+    const maxStepsPerGame = Number.parseInt(maxStepsPerGameInput.value)
+    if (!(maxStepsPerGame > 1)) {
+      throw new Error(`Invalid max. steps per game: ${maxStepsPerGame}`)
+    }
+    stepsPerSecond = Number.parseFloat(playStepsPerSecondInput.value)
+    if (!(stepsPerSecond > 0)) {
+      throw new Error(`Invalid steps per second: ${stepsPerSecond}`)
+    }
+    env = createEnv(getEnvironment(), getCartPoleConfig(), maxStepsPerGame)
+    checkHumanActionSpace(env.actionSpace)
+    if (
+      demonstrations !== null &&
+      (JSON.stringify(demonstrations.actionSpace) !==
+        JSON.stringify(env.actionSpace) ||
+        (demonstrations.observations.length > 0 &&
+          demonstrations.observations[0].length !==
+            getSpaceSize(env.observationSpace)))
+    ) {
+      throw new Error(
+        'The demonstrations are of another environment. ' +
+          'Save and clear them first.'
+      )
+    }
+  } catch (err) {
+    logStatus(`ERROR: ${err.message}`)
+    return
+  }
+  disableModelControls()
+  // The Stop button ends the game, even without an agent.
+  trainButton.disabled = false
+  stopRequested = false
+  playing = true
+  heldArrowKeys.left = heldArrowKeys.right = false
+  cartPoleCanvas.focus()
+
+  let { observation } = env.reset()
+  env.render(cartPoleCanvas)
+  logStatus('Press the left or right arrow key on the simulation to start.')
+  while (getHeldDirection() === 0 && !stopRequested) {
+    await tf.nextFrame()
+  }
+  const observations: number[][] = []
+  const actions: number[] = []
+  let action = getHumanAction(env.actionSpace, getHeldDirection(), 0)
+  let isDone = false
+  while (!isDone && !stopRequested) {
+    action = getHumanAction(env.actionSpace, getHeldDirection(), action)
+    observations.push(observation)
+    actions.push(action)
+    const result = env.step(action)
+    observation = result.observation
+    isDone = result.terminated || result.truncated
+    env.render(cartPoleCanvas)
+    logStatus(
+      `Playing. Action: ${describeAction(env.actionSpace, action, null)} ` +
+        `(Step ${actions.length})`
+    )
+    await new Promise((resolve) => setTimeout(resolve, 1e3 / stepsPerSecond))
+  }
+  playing = false
+
+  if (actions.length > 0) {
+    if (demonstrations === null) {
+      demonstrations = createDemonstrationDataset(env.actionSpace)
+    }
+    addDemonstration(demonstrations, observations, actions)
+  }
+  showDemonstrationsStatus()
+  logStatus(`Recorded a demonstration of ${actions.length} step(s).`)
+  enableModelControls()
+  await updateUIControlState()
+}
+
+/**
+ * Enable the inputs of the training parameters that apply to the current
+ * agent, the selected training algorithm, optimizer and learning rate
+ * schedule.
+ *
+ * Policy networks can be trained with any of the training algorithms, while
+ * Q-networks are always trained with DQN.
+ */
+function updateTrainingInputs() {
+  const isDQN = agent instanceof SaveableQNetwork
+  const algorithm = trainingAlgorithmSelect.value
+  trainingAlgorithmSelect.disabled = isDQN
+  parallelGamesInput.disabled = isDQN
+  momentumInput.disabled = optimizerSelect.value !== 'sgd-momentum'
+  const schedule = learningRateScheduleSelect.value
+  learningRateDecayRateInput.disabled =
+    schedule !== 'step' && schedule !== 'exponential'
+  learningRateDecayIterationsInput.disabled = schedule === 'constant'
+  minLearningRateInput.disabled = schedule !== 'cosine'
+  for (const input of [
+    entropyCoefficientInput,
+    gradientClipNormInput,
+    gradientClipValueInput,
+  ]) {
+    input.disabled = isDQN || algorithm !== 'reinforce'
+  }
+  criticLearningRateInput.disabled = isDQN || algorithm === 'reinforce'
+  gaeLambdaInput.disabled = isDQN || algorithm === 'reinforce'
+  for (const input of [
+    ppoClipRatioInput,
+    ppoEpochsInput,
+    ppoMinibatchSizeInput,
+  ]) {
+    input.disabled = isDQN || algorithm !== 'ppo'
+  }
+  dqnInputs.forEach((input) => (input.disabled = !isDQN))
+}
+
+/**
+ * Show the DQN configuration of a Q-network in the inputs of the training
+ * parameters.
+ *
+ * @param {DQNConfig} config
+ */
+function showDQNConfig(config: DQNConfig) {
+  dqnReplayBufferSizeInput.value = `${config.replayBufferSize}`
+  dqnBatchSizeInput.value = `${config.batchSize}`
+  dqnTargetSyncEveryInput.value = `${config.targetSyncEvery}`
+  dqnEpsilonInitInput.value = `${config.epsilonInit}`
+  dqnEpsilonFinalInput.value = `${config.epsilonFinal}`
+  dqnEpsilonDecayStepsInput.value = `${config.epsilonDecaySteps}`
+  dqnDoubleCheckbox.checked = config.doubleDQN
+}
+
+/**
+ * Get the DQN configuration from the inputs of the training parameters.
+ */
+function getDQNConfig(): DQNConfig {
+  return {
+    replayBufferSize: Number.parseInt(dqnReplayBufferSizeInput.value),
+    batchSize: Number.parseInt(dqnBatchSizeInput.value),
+    targetSyncEvery: Number.parseInt(dqnTargetSyncEveryInput.value),
+    epsilonInit: Number.parseFloat(dqnEpsilonInitInput.value),
+    epsilonFinal: Number.parseFloat(dqnEpsilonFinalInput.value),
+    epsilonDecaySteps: Number.parseInt(dqnEpsilonDecayStepsInput.value),
+    doubleDQN: dqnDoubleCheckbox.checked,
+  }
+}
+
+/**
+ * Get the optimizer from the inputs of the training parameters.
+ *
+ * @throws Error if any of the settings is invalid.
+ */
+function getOptimizerConfig(): OptimizerConfig {
+  const name = parseOptimizerName(optimizerSelect.value)
+  const config: OptimizerConfig =
+    name === 'sgd-momentum'
+      ? { name, momentum: Number.parseFloat(momentumInput.value) }
+      : { name }
+  checkOptimizerConfig(config)
+  return config
+}
+
+/**
+ * Get the learning rate schedule from the inputs of the training parameters.
+ *
+ * @param {number} learningRate The initial learning rate.
+ * @throws Error if the learning rate or its schedule is invalid.
+ */
+function getLearningRateSchedule(learningRate: number): LearningRateSchedule {
+  const schedule: LearningRateSchedule = {
+    type: learningRateScheduleSelect.value as LearningRateScheduleType,
+    decayRate: Number.parseFloat(learningRateDecayRateInput.value),
+    decayIterations: Number(learningRateDecayIterationsInput.value),
+    minLearningRate: Number.parseFloat(minLearningRateInput.value),
+  }
+  checkLearningRateSchedule(learningRate, schedule)
+  return schedule.type === 'constant' ? CONSTANT_LEARNING_RATE : schedule
+}
+
+/**
+ * Get the value of an input that may be left empty.
+ *
+ * @param {HTMLInputElement} input
+ * @returns The number in the input, or `null` if it is empty.
+ */
+function getOptionalNumberInput(input: HTMLInputElement) {
+  const value = input.value.trim()
+  return value.length === 0 ? null : Number(value)
+}
+
+/**
+ * Get the regularization and gradient clipping of REINFORCE from the inputs
+ * of the training parameters.
+ */
+function getPolicyGradientConfig(): PolicyGradientConfig {
+  return {
+    entropyCoefficient: Number.parseFloat(entropyCoefficientInput.value),
+    gradientClipNorm: getOptionalNumberInput(gradientClipNormInput),
+    gradientClipValue: getOptionalNumberInput(gradientClipValueInput),
+  }
+}
+
+/**
+ * Show the results of an evaluation: the statistics and the histogram of the
+ * steps per episode and the number of episodes with each end.
+ *
+ * @param {EvaluationResult} result
+ */
+function showEvaluationResult({
+  episodes,
+  stats,
+  endCounts,
+}: EvaluationResult) {
+  evalStats.textContent =
+    `mean: ${stats.mean.toFixed(1)}, median: ${stats.median}, ` +
+    `min: ${stats.min}, 10th percentile: ${stats.p10.toFixed(1)}, ` +
+    `90th percentile: ${stats.p90.toFixed(1)}, max: ${stats.max}`
+  evalEnds.textContent = Object.keys(endCounts)
+    .map((end) => `${end}: ${endCounts[end]}`)
+    .join(', ')
+  while (evalSweepContainer.firstChild) {
+    evalSweepContainer.removeChild(evalSweepContainer.firstChild)
+  }
+  tfvis.render.histogram(
+    evalHistogramContainer,
+    episodes.map((episode) => episode.steps),
+    {
+      xLabel: 'Steps Per Episode',
+      yLabel: 'Episodes',
+      width: 400,
+      height: 300,
+    }
+  )
+}
+
+/**
+ * Show the physics of a cart-pole system in the physics inputs.
+ *
+ * @param {CartPoleConfig} config
+ */
+function showCartPoleConfig(config: CartPoleConfig) {
+  physicsGravityInput.value = `${config.gravity}`
+  physicsMassCartInput.value = `${config.massCart}`
+  physicsMassPoleInput.value = `${config.massPole}`
+  physicsLengthInput.value = `${config.length}`
+  physicsForceMagInput.value = `${config.forceMag}`
+  physicsTauInput.value = `${config.tau}`
+  physicsXThresholdInput.value = `${config.xThreshold}`
+  // The angle is shown in degrees, which are easier to type.
+  physicsThetaThresholdInput.value = `${Number(
+    ((config.thetaThreshold * 180) / Math.PI).toFixed(6)
+  )}`
+  physicsIntegratorSelect.value = config.integrator
+  physicsActionsSelect.value = config.actions
+  physicsTerminationSelect.value = config.termination
+  for (const parameter of RANDOMIZED_PARAMETERS) {
+    const range = config.randomization[parameter]
+    physicsRandomizationInputs[parameter].value =
+      range !== undefined ? range.join(',') : ''
+  }
+  physicsObservationNoiseInput.value = `${config.observationNoise}`
+  physicsActionDelayInput.value = `${config.actionDelay}`
+  physicsObservationDelayInput.value = `${config.observationDelay}`
+}
+
+/**
+ * Get the physics of the cart-pole systems from the physics inputs.
+ *
+ * @throws Error if any of the inputs is invalid.
+ */
+function getCartPoleConfig(): CartPoleConfig {
+  const config: CartPoleConfig = {
+    gravity: Number.parseFloat(physicsGravityInput.value),
+    massCart: Number.parseFloat(physicsMassCartInput.value),
+    massPole: Number.parseFloat(physicsMassPoleInput.value),
+    length: Number.parseFloat(physicsLengthInput.value),
+    forceMag: Number.parseFloat(physicsForceMagInput.value),
+    tau: Number.parseFloat(physicsTauInput.value),
+    xThreshold: Number.parseFloat(physicsXThresholdInput.value),
+    thetaThreshold:
+      (Number.parseFloat(physicsThetaThresholdInput.value) * Math.PI) / 180,
+    integrator: physicsIntegratorSelect.value as CartPoleConfig['integrator'],
+    actions: physicsActionsSelect.value as CartPoleConfig['actions'],
+    termination:
+      physicsTerminationSelect.value as CartPoleConfig['termination'],
+    randomization: {},
+    observationNoise: Number.parseFloat(physicsObservationNoiseInput.value),
+    actionDelay: Number(physicsActionDelayInput.value),
+    observationDelay: Number(physicsObservationDelayInput.value),
+  }
+  for (const parameter of RANDOMIZED_PARAMETERS) {
+    const value = physicsRandomizationInputs[parameter].value.trim()
+    if (value.length > 0) {
+      const range = value.split(',').map((x) => Number.parseFloat(x))
+      config.randomization[parameter] = range as [number, number]
+    }
+  }
+  checkCartPoleConfig(config)
+  return config
+}
+
+/**
+ * Get the physics that the current agent was last trained with:
+ * `DEFAULT_CART_POLE_CONFIG` if unknown.
+ */
+function getTrainingPhysics(): CartPoleConfig {
+  if (agent === null || agent.trainingMetadata === null) {
+    return DEFAULT_CART_POLE_CONFIG
+  }
+  // Missing fields of older metadata take their default values.
+  return {
+    ...DEFAULT_CART_POLE_CONFIG,
+    ...agent.trainingMetadata.hyperparameters.physics,
+  }
+}
+
+/**
+ * Get the sweep of physics of the evaluation chosen by the user, if any.
+ *
+ * @throws Error if the scales are invalid.
+ */
+function getPhysicsSweep(): PhysicsSweep | null {
+  if (evalSweepSelect.value === '') {
+    return null
+  }
+  const sweep = {
+    parameter: evalSweepSelect.value as RandomizedParameter,
+    scales: evalSweepScalesInput.value
+      .split(',')
+      .map((x) => Number.parseFloat(x)),
+  }
+  checkPhysicsSweep(sweep)
+  return sweep
+}
+
+/**
+ * Show the results of an evaluation on a sweep of physics.
+ *
+ * @param {PhysicsSweep} sweep
+ * @param {SweepPoint[]} points
+ */
+function showSweepResult(sweep: PhysicsSweep, points: SweepPoint[]) {
+  evalStats.textContent = points
+    .map(({ value, result }) => `${value}: ${result.stats.mean.toFixed(1)}`)
+    .join(', ')
+  evalEnds.textContent = ''
+  while (evalHistogramContainer.firstChild) {
+    evalHistogramContainer.removeChild(evalHistogramContainer.firstChild)
+  }
+  tfvis.render.table(evalSweepContainer, {
+    headers: [
+      sweep.parameter,
+      'Mean steps',
+      'Median steps',
+      '10th percentile',
+      'Seen in training',
+    ],
+    values: points.map(({ value, seen, result: { stats } }) => [
+      Number(value.toFixed(6)),
+      stats.mean.toFixed(1),
+      stats.median,
+      stats.p10.toFixed(1),
+      seen ? 'yes' : 'no',
+    ]),
+  })
+}
+
+/**
+ * Get the environment selected by the user.
+ */
+function getEnvironment(): EnvironmentName {
+  return parseEnvironmentName(environmentSelect.value)
+}
+
+/**
+ * Enable the physics inputs only for the cart-pole, the only environment
+ * whose physics can be edited.
+ */
+function updatePhysicsInputs() {
+  const isCartPole = environmentSelect.value === 'cart-pole'
+  physicsInputs.forEach((input) => (input.disabled = !isCartPole))
+}
+
+/**
+ * Show the environment (and physics and reward shaping) that the current
+ * agent was last trained with, if known.
+ */
+function showTrainingEnvironment() {
+  if (agent !== null && agent.trainingMetadata !== null) {
+    const { environment, physics, rewardShaping } =
+      agent.trainingMetadata.hyperparameters
+    environmentSelect.value = environment != null ? environment : 'cart-pole'
+    // Missing fields of older metadata take their default values.
+    showCartPoleConfig({ ...DEFAULT_CART_POLE_CONFIG, ...physics })
+    showRewardShapingConfig(
+      rewardShaping != null ? rewardShaping : { terms: [] }
+    )
+    updatePhysicsInputs()
+    updatePolicyMapInputs()
+  }
+}
+
+/**
+ * Check that the current agent can act in an environment.
+ *
+ * @param {EnvironmentName} environment
+ * @param {CartPoleConfig} physics The physics of the environment, if it is
+ *   the cart-pole.
+ * @throws Error if the input size of the agent differs from the number of
+ *   state variables of the environment, or if the agent can not take the
+ *   actions of the environment.
+ */
+function checkAgentEnvironment(
+  environment: EnvironmentName,
+  physics: CartPoleConfig
+) {
+  if (agent === null) {
+    throw new Error(`Invalid agent: ${agent}`)
+  }
+  const { observationSpace, actionSpace } = getSpaces(environment, physics)
+  const model =
+    agent instanceof SaveableQNetwork ? agent.onlineNet : agent.policyNet
+  const inputSize = model.inputs[0].shape[1]
+  const observationSize = getSpaceSize(observationSpace)
+  if (inputSize !== observationSize) {
+    throw new Error(
+      `The model takes ${inputSize} inputs, but the ${environment} ` +
+        `environment has observations of size ${observationSize}.`
+    )
+  }
+  if (agent instanceof SaveableQNetwork) {
+    checkDQNActionSpace(actionSpace)
+  } else if (getPolicyHead(actionSpace) !== agent.head) {
+    throw new Error(
+      `The policy network has a ${agent.head} head, which can not take the ` +
+        `actions of the ${environment} environment.`
+    )
+  }
+}
+
+/**
+ * Check that a Q-network can act in an action space.
+ *
+ * @param {Space} actionSpace
+ * @throws Error if the actions are not discrete.
+ */
+function checkDQNActionSpace(actionSpace: Space) {
+  if (actionSpace.type !== 'discrete') {
+    throw new Error('DQN only supports discrete actions.')
+  }
+}
+
+/**
+ * Save an agent to IndexedDB under a name, along with the summary that the
+ * list of stored models shows.
+ *
+ * @param {SaveableAgent} savedAgent
+ * @param {string} name
+ */
+async function saveAgent(savedAgent: SaveableAgent, name: string) {
+  await savedAgent.saveModel(name)
+  saveModelSummary(name, getAgentModel(savedAgent))
+}
+
+/**
+ * Send a command to the training worker, if there is one.
+ *
+ * @param {TrainingCommand} command
+ */
+function postTrainingCommand(command: TrainingCommand) {
+  if (trainingWorker !== null) {
+    trainingWorker.postMessage(command)
+  }
+}
+
+/**
+ * End the run of training of the training worker, if any, which disposes
+ * everything that the worker holds.
+ */
+function endTrainingRun() {
+  if (trainingWorker !== null) {
+    trainingWorker.terminate()
+    trainingWorker = null
+  }
+  trainingRun = null
+}
+
+/**
+ * Train the current agent in a worker (see `trainingWorker.ts`) for a round
+ * of training. The worker loads the agent from IndexedDB at the start of a
+ * run of training, and saves it there at the end of every iteration.
+ *
+ * The snapshots of the state that the worker sends are rendered on the
+ * cart-pole canvas.
+ *
+ * @param {TrainingSettings} settings
+ * @param onIterationEnd Called at the end of every iteration.
+ * @returns Whether the training completed, rather than being stopped.
+ * @throws {Error} If the training fails.
+ */
+function trainInWorker(
+  settings: TrainingSettings,
+  onIterationEnd: (event: IterationEvent) => void
+) {
+  const displaySystem = createSystem(settings.environment, settings.physics)
+  if (trainingWorker === null) {
+    trainingWorker = new Worker('./trainingWorker.ts')
+  }
+  const worker = trainingWorker
+  return new Promise<boolean>((resolve, reject) => {
+    const onMessage = (message: MessageEvent) => {
+      const event = message.data as TrainingEvent
+      switch (event.type) {
+        case 'game':
+          iterationStatus.textContent = `Game ${event.gameCount} of ${event.totalGames}`
+          iterationProgress.value = (event.gameCount / event.totalGames) * 100
+          if (event.gameCount === event.totalGames) {
+            iterationStatus.textContent = 'Updating weights...'
+          }
+          break
+        case 'snapshot':
+          displaySystem.setSnapshot(event.snapshot)
+          displaySystem.render(cartPoleCanvas)
+          break
+        case 'iteration':
+          onIterationEnd(event)
+          break
+        case 'done':
+          // The worker keeps the run of training for the next round.
+          removeListeners()
+          resolve(true)
+          break
+        case 'stopped':
+          removeListeners()
+          endTrainingRun()
+          resolve(false)
+          break
+        case 'error':
+          removeListeners()
+          endTrainingRun()
+          reject(new Error(event.message))
+          break
+      }
+    }
+    const onError = (event: ErrorEvent) => {
+      removeListeners()
+      endTrainingRun()
+      reject(new Error(event.message))
+    }
+    const removeListeners = () => {
+      worker.removeEventListener('message', onMessage)
+      worker.removeEventListener('error', onError)
+    }
+    worker.addEventListener('message', onMessage)
+    worker.addEventListener('error', onError)
+    postTrainingCommand({ type: 'start', settings })
+  })
+}
+
+/**
+ * Get the random seed typed in by the user.
+ *
+ * @returns The seed, or `null` if the input is empty.
+ * @throws Error if the input is not an integer.
+ */
+function getRandomSeedInput() {
+  const value = randomSeedInput.value.trim()
+  if (value.length === 0) {
+    return null
+  }
+  const seed = Number(value)
+  if (!Number.isInteger(seed)) {
+    throw new Error(`Invalid random seed: ${value}`)
+  }
+  return seed
+}
+
+/**
+ * Get the reward shaping chosen by the user: a single term, or none.
+ *
+ * @throws Error if the weight is invalid.
+ */
+function getRewardShapingConfig(): RewardShapingConfig {
+  const name = rewardShapingSelect.value as RewardTermName | ''
+  if (name === '') {
+    return { terms: [] }
+  }
+  const config = {
+    terms: [
+      { name, weight: Number.parseFloat(rewardShapingWeightInput.value) },
+    ],
+  }
+  checkRewardShapingConfig(config)
+  return config
+}
+
+/**
+ * Show reward shaping in the reward-shaping inputs.
+ *
+ * The page trains with at most one term, so only the first term of reward
+ * shaping from Node.js (see `train.ts`) is shown.
+ *
+ * @param {RewardShapingConfig} config
+ */
+function showRewardShapingConfig(config: RewardShapingConfig) {
+  if (config.terms.length === 0) {
+    rewardShapingSelect.value = ''
+  } else {
+    rewardShapingSelect.value = config.terms[0].name
+    rewardShapingWeightInput.value = `${config.terms[0].weight}`
+  }
+  updateRewardShapingInputs()
+}
+
+/**
+ * Enable the weight of reward shaping only if a term is chosen.
+ */
+function updateRewardShapingInputs() {
+  rewardShapingWeightInput.disabled = rewardShapingSelect.value === ''
+}
+
+/**
+ * Get the model name typed in by the user.
+ *
+ * @throws Error if no name has been typed in.
+ */
+function getModelNameInput() {
+  const name = modelNameInput.value.trim()
+  if (name.length === 0) {
+    throw new Error('Please type in a model name.')
+  }
+  return name
+}
+
+/**
+ * Load the current agent anew from IndexedDB, after it has been trained in
+ * the training worker.
+ *
+ * @returns Whether the agent could be loaded.
+ */
+async function reloadAgent() {
+  if (agent === null) {
+    return false
+  }
+  let reloaded = false
+  try {
+    const trainedAgent = await loadAgent(agentName)
+    agent.dispose()
+    agent = trainedAgent
+    reloaded = true
+  } catch (err) {
+    logStatus(`ERROR: ${err.message}`)
+  }
+  plotSteps()
+  plotDiagnostics()
+  plotPolicyMap()
+  return reloaded
+}
+
+/**
+ * Load a named model from IndexedDB and make it the current agent.
+ *
+ * @param {string} name Name of the model.
+ */
+async function loadPolicyNet(name: string) {
+  if (agent !== null) {
+    agent.dispose()
+  }
+  agent = await loadAgent(name)
+  agentName = name
+  modelNameInput.value = name
+  hiddenLayerSizesInput.value = agent.hiddenLayerSizes().toString()
+  if (agent instanceof SaveableQNetwork) {
+    showDQNConfig(agent.config)
+  }
+  showTrainingEnvironment()
+  plotSteps()
+  plotDiagnostics()
+  plotPolicyMap()
+  logStatus(`Loaded model '${name}' from IndexedDB.`)
+}
+
+export async function setUpUI() {
+  updatePolicyMapInputs()
+  await migrateLegacyModel()
+  const storedModels = await listModels()
+  if (storedModels.length > 0) {
+    await loadPolicyNet(storedModels[0].name)
+  }
+  await updateUIControlState()
+  showDemonstrationsStatus()
+  storedModelsSelect.value = agentName
+
+  storedModelsSelect.addEventListener('change', () => {
+    storedModelButtons.forEach(
+      (button) => (button.disabled = storedModelsSelect.value === '')
+    )
+  })
+
+  trainingAlgorithmSelect.addEventListener('change', updateTrainingInputs)
+  optimizerSelect.addEventListener('change', updateTrainingInputs)
+  learningRateScheduleSelect.addEventListener('change', updateTrainingInputs)
+  rewardShapingSelect.addEventListener('change', updateRewardShapingInputs)
+  environmentSelect.addEventListener('change', () => {
+    updatePhysicsInputs()
+    updatePolicyMapInputs()
+    plotPolicyMap()
+  })
+  physicsInputs.forEach((input) =>
+    input.addEventListener('change', () => {
+      updatePolicyMapInputs()
+      plotPolicyMap()
+    })
+  )
+  for (const select of [policyMapXSelect, policyMapYSelect]) {
+    select.addEventListener('change', () => {
+      updatePolicyMapSliders()
+      plotPolicyMap()
+    })
+  }
+
+  testInferenceModeSelect.addEventListener('change', updateTestInputs)
+
+  renderDuringTrainingCheckbox.addEventListener('change', () => {
+    renderDuringTraining = renderDuringTrainingCheckbox.checked
+    postTrainingCommand({ type: 'render', render: renderDuringTraining })
+  })
+
+  createModelButton.addEventListener('click', async () => {
+    try {
+      const hiddenLayerSizes = hiddenLayerSizesInput.value
+        .trim()
+        .split(',')
+        .map((v) => {
+          const num = Number.parseInt(v.trim())
+          if (!(num > 0)) {
+            throw new Error(
+              `Invalid hidden layer sizes string: ` +
+                `${hiddenLayerSizesInput.value}`
+            )
+          }
+          return num
+        })
+      const name = getModelNameInput()
+      const { observationSpace, actionSpace } = getSpaces(
+        getEnvironment(),
+        getCartPoleConfig()
+      )
+      const inputSize = getSpaceSize(observationSpace)
+      // The seed determines the initial weights.
+      seedRandom(getRandomSeedInput())
+      if (agent !== null) {
+        agent.dispose()
+      }
+      if (agentTypeSelect.value === 'dqn') {
+        checkDQNActionSpace(actionSpace)
+        agent = new SaveableQNetwork({
+          sizes: {
+            hiddenLayerSizes,
+            inputSize,
+            // One Q-value for each action.
+            outputSize: getSpaceSize(actionSpace),
+          },
+          config: getDQNConfig(),
+        })
+        logStatus(`Created Q-network '${name}'.`)
+      } else {
+        const head = getPolicyHead(actionSpace)
+        agent = new SaveablePolicyNetwork({
+          sizes: {
+            hiddenLayerSizes,
+            inputSize,
+            outputSize: getPolicyOutputSize(actionSpace),
+          },
+          head,
+        })
+        console.log('DONE constructing new instance of SaveablePolicyNetwork')
+        logStatus(`Created policy network '${name}'.`)
+      }
+      agentName = name
+      plotSteps()
+      plotDiagnostics()
+      plotPolicyMap()
+      await updateUIControlState()
+    } catch (err) {
+      logStatus(`ERROR: ${err.message}`)
+    }
+  })
+
+  saveModelButton.addEventListener('click', async () => {
+    try {
+      if (agent === null) {
+        throw new Error(`Can not save invalid agent: ${agent}`)
+      }
+      const name = getModelNameInput()
+      await saveAgent(agent, name)
+      agentName = name
+      logStatus(`Saved model as '${name}'.`)
+      await updateUIControlState()
+    } catch (err) {
+      logStatus(`ERROR: ${err.message}`)
+    }
+  })
+
+  loadStoredModelButton.addEventListener('click', async () => {
+    try {
+      await loadPolicyNet(storedModelsSelect.value)
+      await updateUIControlState()
+    } catch (err) {
+      logStatus(`ERROR: ${err.message}`)
+    }
+  })
+
+  renameStoredModelButton.addEventListener('click', async () => {
+    try {
+      const name = storedModelsSelect.value
+      const newName = getModelNameInput()
+      await renameModel(name, newName)
+      if (agentName === name) {
+        agentName = newName
+      }
+      logStatus(`Renamed model '${name}' to '${newName}'.`)
+      await updateUIControlState()
+      storedModelsSelect.value = newName
+    } catch (err) {
+      logStatus(`ERROR: ${err.message}`)
+    }
+  })
+
+  duplicateStoredModelButton.addEventListener('click', async () => {
+    try {
+      const name = storedModelsSelect.value
+      const newName = getModelNameInput()
+      await duplicateModel(name, newName)
+      logStatus(`Duplicated model '${name}' as '${newName}'.`)
+      await updateUIControlState()
+      storedModelsSelect.value = newName
+    } catch (err) {
+      logStatus(`ERROR: ${err.message}`)
+    }
+  })
+
+  exportModelButton.addEventListener('click', async () => {
+    try {
+      if (agent === null) {
+        throw new Error(`Can not export invalid agent: ${agent}`)
+      }
+      await agent.exportModel(agentName)
+      logStatus(`Exported model '${agentName}'.`)
+    } catch (err) {
+      logStatus(`ERROR: ${err.message}`)
+    }
+  })
+
+  showDiagnosticsButton.addEventListener('click', () => {
+    if (visorCreated) {
+      tfvis.visor().toggle()
+    } else {
+      tfvis.visor()
+      visorCreated = true
+      plotDiagnostics()
+    }
+    tfvis.visor().setActiveTab(DIAGNOSTICS_TAB)
+  })
+
+  exportDiagnosticsButton.addEventListener('click', () => {
+    const history = getDiagnosticsHistory()
+    if (history.length === 0) {
+      logStatus('ERROR: The current model has no training diagnostics.')
+      return
+    }
+    downloadText(
+      formatDiagnosticsAsCSV(history),
+      `${agentName}.diagnostics.csv`,
+      'text/csv'
+    )
+    logStatus(`Exported the training diagnostics of '${agentName}'.`)
+  })
+
+  importModelButton.addEventListener('click', async () => {
+    try {
+      const name = getModelNameInput()
+      const files = Array.from(importFilesInput.files || [])
+      const importedAgent = await importAgent(files)
+      if (agent !== null) {
+        agent.dispose()
+      }
+      agent = importedAgent
+      agentName = name
+      hiddenLayerSizesInput.value = agent.hiddenLayerSizes().toString()
+      if (agent instanceof SaveableQNetwork) {
+        showDQNConfig(agent.config)
+      }
+      showTrainingEnvironment()
+      plotSteps()
+      plotDiagnostics()
+      plotPolicyMap()
+      await saveAgent(agent, name)
+      logStatus(`Imported model and saved it as '${name}'.`)
+      await updateUIControlState()
+      storedModelsSelect.value = name
+    } catch (err) {
+      logStatus(`ERROR: ${err.message}`)
+    }
+  })
+
+  deleteStoredModelButton.addEventListener('click', async () => {
+    const name = storedModelsSelect.value
+    if (
+      confirm(
+        `Are you sure you want to delete the locally-stored model '${name}'?`
+      )
+    ) {
+      await removeModel(name)
+      if (agentName === name && agent !== null) {
+        agent.dispose()
+        agent = null
+        plotSteps()
+        plotDiagnostics()
+        plotPolicyMap()
+      }
+      logStatus(`Deleted model '${name}'.`)
+      await updateUIControlState()
+    }
+  })
+
+  resetPhysicsButton.addEventListener('click', () => {
+    showCartPoleConfig(DEFAULT_CART_POLE_CONFIG)
+    updatePolicyMapInputs()
+    plotPolicyMap()
+  })
+
+  trainButton.addEventListener('click', async () => {
+    if (trainButton.textContent === 'Stop') {
+      stopRequested = true
+      postTrainingCommand({ type: 'stop' })
+    } else {
+      disableModelControls()
+      if (agent === null) {
+        throw new Error(`Can not train with invalid agent: ${agent}`)
+      }
+      // Whether the worker has been given the agent to train.
+      let started = false
+      // The key of the run of training, see `trainingRun`.
+      let runKey = ''
+      try {
+        const trainIterations = Number.parseInt(numIterationsInput.value)
+        if (!(trainIterations > 0)) {
+          throw new Error(`Invalid number of iterations: ${trainIterations}`)
+        }
+        const gamesPerIteration = Number.parseInt(gamesPerIterationInput.value)
+        if (!(gamesPerIteration > 0)) {
+          throw new Error(
+            `Invalid # of games per iterations: ${gamesPerIteration}`
+          )
+        }
+        const maxStepsPerGame = Number.parseInt(maxStepsPerGameInput.value)
+        if (!(maxStepsPerGame > 1)) {
+          throw new Error(`Invalid max. steps per game: ${maxStepsPerGame}`)
+        }
+        const discountRate = Number.parseFloat(discountRateInput.value)
+        if (!(discountRate > 0 && discountRate < 1)) {
+          throw new Error(`Invalid discount rate: ${discountRate}`)
+        }
+        const learningRate = Number.parseFloat(learningRateInput.value)
+        const learningRateSchedule = getLearningRateSchedule(learningRate)
+        const optimizer = getOptimizerConfig()
+        const parallelGames = Number.parseInt(parallelGamesInput.value)
+        if (!(parallelGames > 0)) {
+          throw new Error(`Invalid # of parallel games: ${parallelGames}`)
+        }
+        const environment = getEnvironment()
+        const physics = getCartPoleConfig()
+        checkAgentEnvironment(environment, physics)
+        const rewardShaping = getRewardShapingConfig()
+        const seed = getRandomSeedInput()
+        const hyperparameters: TrainingHyperparameters = {
+          discountRate,
+          learningRate,
+          gamesPerIteration,
+          environment,
+        }
+        if (environment === 'cart-pole') {
+          hyperparameters.physics = physics
+        }
+        if (rewardShaping.terms.length > 0) {
+          hyperparameters.rewardShaping = rewardShaping
+        }
+        if (seed !== null) {
+          hyperparameters.seed = seed
+        }
+        hyperparameters.optimizer = optimizer
+        if (learningRateSchedule.type !== 'constant') {
+          hyperparameters.learningRateSchedule = learningRateSchedule
+        }
+        let trainerConfig: TrainerConfig | null = null
+        if (agent instanceof SaveableQNetwork) {
+          // The DQN configuration is saved along with the Q-network.
+          agent.setConfig(getDQNConfig())
+          hyperparameters.algorithm = 'dqn'
+        } else {
+          const hiddenLayerSizes = agent.hiddenLayerSizes()
+          trainerConfig = {
+            algorithm: parseTrainingAlgorithm(trainingAlgorithmSelect.value),
+            criticHiddenLayerSizes: Array.isArray(hiddenLayerSizes)
+              ? hiddenLayerSizes
+              : [hiddenLayerSizes],
+            criticLearningRate: Number.parseFloat(
+              criticLearningRateInput.value
+            ),
+            gaeLambda: Number.parseFloat(gaeLambdaInput.value),
+            clipRatio: Number.parseFloat(ppoClipRatioInput.value),
+            epochs: Number.parseInt(ppoEpochsInput.value),
+            minibatchSize: Number.parseInt(ppoMinibatchSizeInput.value),
+            policyGradient: getPolicyGradientConfig(),
+          }
+          Object.assign(
+            hyperparameters,
+            getAlgorithmHyperparameters(trainerConfig)
+          )
+        }
+
+        if (agent.trainingMetadata === null) {
+          agent.trainingMetadata = createTrainingMetadata(hyperparameters)
+        } else {
+          agent.trainingMetadata.hyperparameters = hyperparameters
+        }
+        const settings: TrainingSettings = {
+          modelName: agentName,
+          environment,
+          physics,
+          rewardShaping,
+          maxStepsPerGame,
+          parallelGames,
+          discountRate,
+          learningRate,
+          learningRateSchedule,
+          optimizer,
+          gamesPerIteration,
+          iterations: trainIterations,
+          seed,
+          trainerConfig,
+          render: renderDuringTraining,
+          hyperparameters,
+        }
+        // The DQN configuration is saved along with the Q-network, which the
+        // worker loads at the start of a run of training.
+        runKey =
+          getTrainingRunKey(settings) +
+          (agent instanceof SaveableQNetwork
+            ? JSON.stringify(agent.config)
+            : '')
+        if (
+          trainingRun !== null &&
+          (trainingRun.agent !== agent || trainingRun.key !== runKey)
+        ) {
+          endTrainingRun()
+        }
+        // The worker trains the agent saved in IndexedDB.
+        await saveAgent(agent, agentName)
+        started = true
+
+        logStatus(
+          'Training model... Please wait. ' +
+            `Network is saved to IndexedDB as '${agentName}' ` +
+            'at the end of each iteration.'
+        )
+        onIterationEnd(0, trainIterations)
+        stopRequested = false
+        pauseTrainingButton.disabled = false
+        const completed = await trainInWorker(settings, (event) => {
+          if (agent === null) {
+            return
+          }
+          // Keep the agent of the page in step with the trained one, for
+          // the plots.
+          agent.trainingMetadata = event.metadata
+          setWeightSnapshots(getAgentModel(agent), event.weights)
+          // The worker has saved the agent, but cannot keep its summary.
+          saveModelSummary(agentName, getAgentModel(agent))
+          trainSpeed.textContent = `${event.stepsPerSecond.toFixed(1)} steps/s`
+          trainStats.textContent = Object.keys(event.stats)
+            .map((name) => `${name}: ${event.stats[name].toPrecision(3)}`)
+            .join(', ')
+          plotSteps()
+          plotDiagnostics()
+          plotPolicyMap()
+          onIterationEnd(event.iterationCount, event.totalIterations)
+        })
+        logStatus(
+          completed ? 'Training completed.' : 'Training stopped by user.'
+        )
+      } catch (err) {
+        logStatus(`ERROR: ${err.message}`)
+      }
+      // The worker has trained a copy of the agent, which includes the state
+      // of the optimizer.
+      if (started) {
+        if ((await reloadAgent()) && trainingWorker !== null) {
+          trainingRun = { agent: agent as SaveableAgent, key: runKey }
+        } else {
+          endTrainingRun()
+        }
+      }
+      enableModelControls()
+      await updateUIControlState()
+    }
+  })
+
+  pauseTrainingButton.addEventListener('click', () => {
+    if (pauseTrainingButton.textContent === 'Pause') {
+      postTrainingCommand({ type: 'pause' })
+      pauseTrainingButton.textContent = 'Resume'
+      logStatus('Training paused.')
+    } else {
+      postTrainingCommand({ type: 'resume' })
+      pauseTrainingButton.textContent = 'Pause'
+      logStatus('Training model... Please wait.')
+    }
+  })
+
+  testButton.addEventListener('click', async () => {
+    await runTest(null)
+  })
+
+  replayButton.addEventListener('click', async () => {
+    let replay: DisturbanceLog
+    try {
+      replay = parseDisturbanceLog(disturbanceLogTextArea.value)
+    } catch (err) {
+      logStatus(`ERROR: ${err.message}`)
+      return
+    }
+    await runTest(replay)
+  })
+
+  cartPoleCanvas.addEventListener('click', (event) => {
+    const rect = cartPoleCanvas.getBoundingClientRect()
+    const direction = event.clientX - rect.left < rect.width / 2 ? -1 : 1
+    queueDisturbance(event.shiftKey ? 'pole' : 'cart', direction)
+  })
+
+  cartPoleCanvas.addEventListener('keydown', (event) => {
+    if (event.key === 'ArrowLeft' || event.key === 'ArrowRight') {
+      event.preventDefault()
+      if (playing) {
+        heldArrowKeys[event.key === 'ArrowLeft' ? 'left' : 'right'] = true
+        return
+      }
+      // Holding a key down pushes only once.
+      if (!event.repeat) {
+        queueDisturbance(
+          event.shiftKey ? 'pole' : 'cart',
+          event.key === 'ArrowLeft' ? -1 : 1
+        )
+      }
+    }
+  })
+
+  cartPoleCanvas.addEventListener('keyup', (event) => {
+    if (event.key === 'ArrowLeft' || event.key === 'ArrowRight') {
+      heldArrowKeys[event.key === 'ArrowLeft' ? 'left' : 'right'] = false
+    }
+  })
+
+  playButton.addEventListener('click', async () => {
+    await playDemonstration()
+  })
+
+  saveDemonstrationsButton.addEventListener('click', () => {
+    if (demonstrations === null) {
+      logStatus('ERROR: There are no demonstrations to save.')
+      return
+    }
+    downloadJSON(demonstrations, 'demonstrations.json')
+  })
+
+  loadDemonstrationsButton.addEventListener('click', async () => {
+    try {
+      const files = demonstrationsFileInput.files
+      if (files === null || files.length === 0) {
+        throw new Error('Please select a demonstrations file.')
+      }
+      demonstrations = parseDemonstrationDataset(
+        JSON.parse(await readFileAsText(files[0]))
+      )
+      showDemonstrationsStatus()
+      logStatus(`Loaded the demonstrations of '${files[0].name}'.`)
+    } catch (err) {
+      logStatus(`ERROR: ${err.message}`)
+    }
+  })
+
+  clearDemonstrationsButton.addEventListener('click', () => {
+    demonstrations = null
+    showDemonstrationsStatus()
+  })
+
+  pretrainButton.addEventListener('click', async () => {
+    if (!(agent instanceof SaveablePolicyNetwork)) {
+      logStatus('ERROR: Only policy networks can be pretrained.')
+      return
+    }
+    if (demonstrations === null) {
+      logStatus('ERROR: Play or load demonstrations first.')
+      return
+    }
+    const policyNetwork = agent
+    const dataset = demonstrations
+    // The training worker would go on with the agent as it was before.
+    endTrainingRun()
+    disableModelControls()
+    stopRequested = false
+    try {
+      const config = getBehaviorCloningConfig()
+      const losses = await pretrainFromDemonstrations(
+        policyNetwork,
+        dataset,
+        config,
+        (epoch, totalEpochs, loss) => {
+          logStatus(
+            `Pretraining from demonstrations: epoch ${epoch} of ` +
+              `${totalEpochs}, loss: ${loss.toFixed(4)}`
+          )
+        },
+        () => stopRequested
+      )
+      policyNetwork.pretraining = {
+        ...config,
+        epochs: losses.length,
+        demonstrationSteps: dataset.actions.length,
+        demonstrationEpisodes: dataset.episodeSteps.length,
+        finalLoss: losses[losses.length - 1],
+      }
+      plotPolicyMap()
+      await saveAgent(policyNetwork, agentName)
+      logStatus(
+        `Pretrained for ${losses.length} epoch(s). ` +
+          'Click "Train" to fine-tune the policy network with ' +
+          'reinforcement learning.'
+      )
+    } catch (err) {
+      logStatus(`ERROR: ${err.message}`)
+    }
+    enableModelControls()
+    await updateUIControlState()
+  })
+
+  evalSweepSelect.addEventListener('change', () => {
+    evalSweepScalesInput.disabled = evalSweepSelect.value === ''
+  })
+
+  evaluateButton.addEventListener('click', async () => {
+    if (agent === null) {
+      logStatus(`ERROR: Invalid agent: ${agent}`)
+      return
+    }
+    let environment: EnvironmentName
+    let physics: CartPoleConfig
+    let maxSteps: number
+    let config: EvaluationConfig
+    let sweep: PhysicsSweep | null
+    try {
+      environment = getEnvironment()
+      physics = getCartPoleConfig()
+      checkAgentEnvironment(environment, physics)
+      maxSteps = Number.parseInt(evalMaxStepsInput.value)
+      if (!(maxSteps > 0)) {
+        throw new Error(`Invalid max. steps per episode: ${maxSteps}`)
+      }
+      config = {
+        numEpisodes: Number.parseInt(evalEpisodesInput.value),
+        seed: Number.parseInt(evalSeedInput.value),
+        greedy: evalGreedyCheckbox.checked,
+      }
+      checkEvaluationConfig(config)
+      sweep = getPhysicsSweep()
+      if (sweep !== null && environment !== 'cart-pole') {
+        throw new Error('Sweeps of physics are for the cart-pole only.')
+      }
+    } catch (err) {
+      logStatus(`ERROR: ${err.message}`)
+      return
+    }
+    disableModelControls()
+    stopRequested = false
+    logStatus('Evaluating model... Please wait.')
+    try {
+      if (sweep !== null) {
+        const points = await evaluateGeneralization(
+          agent,
+          physics,
+          getTrainingPhysics(),
+          sweep,
+          maxSteps,
+          config,
+          (pointCount, totalPoints) => {
+            evalStatus.textContent = `Value ${pointCount} of ${totalPoints}`
+            evalProgress.value = (pointCount / totalPoints) * 100
+          },
+          () => stopRequested
+        )
+        showSweepResult(sweep, points)
+        logStatus(
+          stopRequested
+            ? `Evaluation stopped by user after ${points.length} value(s).`
+            : 'Evaluation finished.'
+        )
+      } else {
+        const result = await evaluate(
+          agent,
+          createEnv(environment, physics, maxSteps),
+          config,
+          (episodeCount, totalEpisodes) => {
+            evalStatus.textContent = `Episode ${episodeCount} of ${totalEpisodes}`
+            evalProgress.value = (episodeCount / totalEpisodes) * 100
+          },
+          () => stopRequested
+        )
+        showEvaluationResult(result)
+        logStatus(
+          stopRequested
+            ? `Evaluation stopped by user after ` +
+                `${result.episodes.length} episode(s).`
+            : 'Evaluation finished.'
+        )
+      }
+    } catch (err) {
+      logStatus(`ERROR: ${err.message}`)
     }
     console.log(`# of tensors: ${tf.memory().numTensors}`)
     enableModelControls()
@@ -15,6 +15,8 @@
  * =============================================================================
  */
 
+import * as tf from '@tensorflow/tfjs'
+
 /**
  * Calculate the mean of an Array of numbers.
  *
@@ -39,3 +41,215 @@ export function sum(xs: number[]) {
     return xs.reduce((x, prev) => prev + x)
   }
 }
+
+/**
+ * Calculate a quantile of an Array of numbers, interpolating linearly between
+ * the closest ranks.
+ *
+ * @param {number[]} xs
+ * @param {number} q A number between 0 and 1, e.g., 0.5 for the median.
+ * @throws Error if `xs` is empty.
+ */
+export function quantile(xs: number[], q: number) {
+  if (xs.length === 0) {
+    throw new Error('Expected xs to be a non-empty Array.')
+  }
+  const sorted = xs.slice().sort((a, b) => a - b)
+  const rank = q * (sorted.length - 1)
+  const lower = Math.floor(rank)
+  const upper = Math.ceil(rank)
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower)
+}
+
+/**
+ * Clip a number to [-bound, bound].
+ *
+ * @param {number} x
+ * @param {number} bound A non-negative number.
+ */
+export function clip(x: number, bound: number) {
+  return Math.max(-bound, Math.min(bound, x))
+}
+
+/**
+ * Wrap an angle to [-pi, pi).
+ *
+ * @param {number} angle An angle in radians.
+ */
+export function wrapAngle(angle: number) {
+  const turn = 2 * Math.PI
+  return ((((angle + Math.PI) % turn) + turn) % turn) - Math.PI
+}
+
+/**
+ * Advance the state of a system of ordinary differential equations by one
+ * time step with the classic fourth-order Runge-Kutta method.
+ *
+ * @param {(state: number[]) => number[]} derivatives The time derivatives of
+ *   the state variables, as a function of the state.
+ * @param {number[]} state The state at the beginning of the step.
+ * @param {number} dt The length of the step.
+ * @returns The state at the end of the step.
+ */
+export function rk4Step(
+  derivatives: (state: number[]) => number[],
+  state: number[],
+  dt: number
+) {
+  const addScaled = (xs: number[], ys: number[], scale: number) =>
+    xs.map((x, i) => x + scale * ys[i])
+  const k1 = derivatives(state)
+  const k2 = derivatives(addScaled(state, k1, dt / 2))
+  const k3 = derivatives(addScaled(state, k2, dt / 2))
+  const k4 = derivatives(addScaled(state, k3, dt))
+  return state.map(
+    (x, i) => x + (dt / 6) * (k1[i] + 2 * k2[i] + 2 * k3[i] + k4[i])
+  )
+}
+
+// The source of the random numbers returned by `random()`.
+let random_: () => number = Math.random
+
+/**
+ * Seed the random numbers of an experiment.
+ *
+ * The random numbers drawn with `random()` and `randomSeed()` are used for the
+ * initial states of the systems, the sampling of actions, the initialization
+ * of the weights of new models and the shuffling of training data. After
+ * seeding, an experiment repeated with the same settings (and on the same
+ * TensorFlow.js backend) reproduces the same learning curve.
+ *
+ * @param {number | null} seed An integer seed, or `null` to go back to the
+ *   unseeded `Math.random()`.
+ */
+export function seedRandom(seed: number | null) {
+  if (seed === null) {
+    random_ = Math.random
+    return
+  }
+  if (!Number.isInteger(seed)) {
+    throw new Error(`Invalid random seed: ${seed}`)
+  }
+  // mulberry32, a small and fast generator with a 32-bit state.
+  let state = seed >>> 0
+  random_ = () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+/**
+ * Run an async function with seeded random numbers, and then go back to the
+ * random numbers from before, as if the function had not drawn any.
+ *
+ * @param {number} seed An integer seed. `f` may reseed further.
+ * @param f
+ * @returns The result of `f`.
+ */
+export async function withRandomSeed<T>(seed: number, f: () => Promise<T>) {
+  const previousRandom = random_
+  seedRandom(seed)
+  try {
+    return await f()
+  } finally {
+    random_ = previousRandom
+  }
+}
+
+/**
+ * Draw a random number uniformly from [0, 1), like `Math.random()`, but from
+ * the generator seeded with `seedRandom()`, if any.
+ */
+export function random() {
+  return random_()
+}
+
+/**
+ * Draw a random number from a normal distribution (Box-Muller), with the
+ * numbers of `random()`.
+ *
+ * @param {number} std The standard deviation. The mean is 0.
+ */
+export function randomNormal(std = 1) {
+  // 1 - random() is in (0, 1], so that the logarithm is finite.
+  const u = 1 - random_()
+  const v = random_()
+  return std * Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v)
+}
+
+/**
+ * Draw a seed for a random TensorFlow.js operation or initializer, so that it
+ * follows the seed passed to `seedRandom()`.
+ */
+export function randomSeed() {
+  return Math.floor(random_() * 4294967296)
+}
+
+/**
+ * Shuffle an Array in place (Fisher-Yates), with the numbers of `random()`.
+ *
+ * @param {any[]} array
+ */
+export function shuffle<T>(array: T[]) {
+  for (let i = array.length - 1; i > 0; --i) {
+    const j = Math.floor(random_() * (i + 1))
+    const tmp = array[i]
+    array[i] = array[j]
+    array[j] = tmp
+  }
+}
+
+/**
+ * Initialize the weights of a new model from the numbers of `random()`.
+ *
+ * Kernels are drawn like with the default Glorot-uniform initializer and
+ * biases are set to zero. This is needed for seeded experiments because the
+ * uniform initializers of TensorFlow.js layers ignore their `seed`.
+ *
+ * @param {tf.LayersModel} model A model made of dense layers.
+ */
+export function initializeWeights(model: tf.LayersModel) {
+  model.layers.forEach((layer) => {
+    const weights = tf.tidy(() =>
+      layer.getWeights().map((weight) => {
+        if (weight.rank < 2) {
+          return tf.zerosLike(weight)
+        }
+        const [fanIn, fanOut] = weight.shape
+        const limit = Math.sqrt(6 / (fanIn + fanOut))
+        return tf.randomUniform(
+          weight.shape,
+          -limit,
+          limit,
+          'float32',
+          randomSeed()
+        )
+      })
+    )
+    layer.setWeights(weights)
+    tf.dispose(weights)
+  })
+}
+
+/**
+ * Parse a comma-separated list of hidden layer sizes, e.g., "32,64".
+ *
+ * @param {string} value The string to parse.
+ * @returns The sizes as an Array of positive integers.
+ * @throws Error if any of the sizes is not a positive integer.
+ */
+export function parseHiddenLayerSizes(value: string) {
+  return value
+    .trim()
+    .split(',')
+    .map((v) => {
+      const num = Number.parseInt(v.trim())
+      if (!(num > 0)) {
+        throw new Error(`Invalid hidden layer sizes string: ${value}`)
+      }
+      return num
+    })
+}
@@ -0,0 +1,127 @@
+/**
+ * @license
+ * Copyright 2018 Google LLC. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ * =============================================================================
+ */
+
+import * as tf from '@tensorflow/tfjs'
+
+import { DEFAULT_CART_POLE_CONFIG } from './cart_pole'
+import { createEnv, createVectorEnv } from './environments'
+import {
+  TrainingAlgorithm,
+  createTrainer,
+  disposeTrainer,
+} from './saveablePolicyNetwork/algorithms'
+import { PolicyNetwork } from './saveablePolicyNetwork/policyNetwork'
+import { rk4Step, seedRandom } from './utils'
+
+describe('rk4Step', () => {
+  it('matches the Taylor expansion of exponential growth', () => {
+    // For dy/dt = y, a step of the classic Runge-Kutta method is the Taylor
+    // expansion of exp(dt) up to the 4th order.
+    const dt = 0.1
+    const [y] = rk4Step((state) => state, [2], dt)
+    expect(y).toBeCloseTo(
+      2 * (1 + dt + dt ** 2 / 2 + dt ** 3 / 6 + dt ** 4 / 24),
+      12
+    )
+  })
+
+  it('matches a hand-computed step of a harmonic oscillator', () => {
+    // dx/dt = v, dv/dt = -x from (x, v) = (1, 0), with dt = 0.5:
+    //   k1 = (0, -1)
+    //   k2 = f(1, -0.25) = (-0.25, -1)
+    //   k3 = f(0.9375, -0.25) = (-0.25, -0.9375)
+    //   k4 = f(0.875, -0.46875) = (-0.46875, -0.875)
+    const [x, v] = rk4Step(([x, v]) => [v, -x], [1, 0], 0.5)
+    expect(x).toBeCloseTo(1 + (0.5 / 6) * (0 - 0.5 - 0.5 - 0.46875), 12)
+    expect(v).toBeCloseTo((0.5 / 6) * (-1 - 2 - 1.875 - 0.875), 12)
+  })
+
+  it('leaves a stationary state unchanged', () => {
+    expect(rk4Step(() => [0, 0], [1, 2], 0.1)).toEqual([1, 2])
+  })
+})
+
+/**
+ * Train a new policy network for a few iterations after seeding.
+ *
+ * @param {number} seed
+ * @param {TrainingAlgorithm} algorithm
+ * @param {number} parallelGames
+ * @returns The steps of every game of every iteration.
+ */
+async function trainSeeded(
+  seed: number,
+  algorithm: TrainingAlgorithm,
+  parallelGames: number
+) {
+  seedRandom(seed)
+  const env =
+    parallelGames > 1
+      ? createVectorEnv(
+          'cart-pole',
+          parallelGames,
+          DEFAULT_CART_POLE_CONFIG,
+          50
+        )
+      : createEnv('cart-pole', DEFAULT_CART_POLE_CONFIG, 50)
+  const policyNetwork = new PolicyNetwork({
+    sizes: { hiddenLayerSizes: 8, inputSize: 4, outputSize: 1 },
+  })
+  const trainer = await createTrainer(policyNetwork, {
+    algorithm,
+    criticHiddenLayerSizes: [8],
+    criticLearningRate: 0.01,
+    gaeLambda: 0.95,
+    minibatchSize: 32,
+  })
+  const optimizer = tf.train.adam(0.05)
+  const gameSteps: number[][] = []
+  for (let i = 0; i < 3; ++i) {
+    gameSteps.push(
+      await trainer.train(
+        env,
+        optimizer,
+        0.95,
+        6,
+        async () => {},
+        () => {}
+      )
+    )
+  }
+  optimizer.dispose()
+  disposeTrainer(trainer)
+  policyNetwork.policyNet.dispose()
+  return gameSteps
+}
+
+describe('seedRandom', () => {
+  afterEach(() => seedRandom(null))
+
+  for (const algorithm of ['reinforce', 'actor-critic', 'ppo'] as const) {
+    for (const parallelGames of [1, 3]) {
+      it(`reproduces ${algorithm} training with ${parallelGames} parallel game(s)`, async () => {
+        const gameSteps = await trainSeeded(1, algorithm, parallelGames)
+        expect(await trainSeeded(1, algorithm, parallelGames)).toEqual(
+          gameSteps
+        )
+        expect(await trainSeeded(2, algorithm, parallelGames)).not.toEqual(
+          gameSteps
+        )
+      })
+    }
+  }
+})